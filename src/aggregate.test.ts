@@ -0,0 +1,121 @@
+import { describe, it, expect } from '@jest/globals';
+import { EntitySchema } from './entityManager.js';
+import { aggregateRows, buildApplyExpression, getAggregateColumns, getAggregateFields, isCountOnly, resolveAggregateSpec } from './aggregate.js';
+import { FieldResolver } from './fieldResolver.js';
+
+const salesLines = {
+    name: 'SalesOrderLine',
+    fields: [
+        { name: 'dataAreaId', type: 'Edm.String', isKey: true },
+        { name: 'CustomerGroupId', type: 'Edm.String', isKey: false },
+        { name: 'CustomerAccount', type: 'Edm.String', isKey: false },
+        { name: 'LineAmount', type: 'Edm.Decimal', isKey: false },
+        { name: 'RequestedShippingDate', type: 'Edm.DateTimeOffset', isKey: false },
+    ],
+    navigationProperties: [],
+    operations: [],
+} as unknown as EntitySchema;
+
+describe('resolveAggregateSpec', () => {
+    it('matches field names case-insensitively and names the result columns', () => {
+        const spec = resolveAggregateSpec(salesLines, ['customergroupid'], [
+            { function: 'sum', field: 'lineamount' },
+            { function: 'countdistinct', field: 'CustomerAccount', alias: 'Customers' },
+            { function: 'count' },
+        ]);
+
+        expect(spec).toEqual({
+            groupBy: ['CustomerGroupId'],
+            measures: [
+                { function: 'sum', field: 'LineAmount', alias: 'LineAmountSum' },
+                { function: 'countdistinct', field: 'CustomerAccount', alias: 'Customers' },
+                { function: 'count', field: null, alias: 'Count' },
+            ],
+        });
+    });
+
+    it('reports unknown fields, non-numeric sums and clashing aliases together', () => {
+        expect(() => resolveAggregateSpec(salesLines, ['Region'], [
+            { function: 'avg', field: 'CustomerAccount' },
+            { function: 'max' },
+            { function: 'count', alias: 'Region' },
+        ])).toThrow("Field 'Region' does not exist on 'SalesOrderLine'. Did you mean 'CustomerGroupId' or 'dataAreaId'? Cannot avg 'CustomerAccount': it is Edm.String, not a number. The 'max' aggregation needs a field. The result column 'Region' is used more than once.");
+        expect(() => resolveAggregateSpec(salesLines)).toThrow('Pass groupBy, aggregates or both.');
+    });
+
+    it('corrects close spellings through the resolver it is given', () => {
+        const resolver = new FieldResolver(salesLines);
+        const spec = resolveAggregateSpec(salesLines, ['customer group'], [{ function: 'sum', field: 'line_amount' }], resolver);
+
+        expect(spec.groupBy).toEqual(['CustomerGroupId']);
+        expect(spec.measures[0]).toMatchObject({ field: 'LineAmount', alias: 'LineAmountSum' });
+        expect(resolver.corrections).toEqual([
+            { requested: 'customer group', resolved: 'CustomerGroupId' },
+            { requested: 'line_amount', resolved: 'LineAmount' },
+        ]);
+    });
+
+    it('recognizes a plain row count', () => {
+        expect(isCountOnly(resolveAggregateSpec(salesLines, [], [{ function: 'count' }]))).toBe(true);
+        expect(isCountOnly(resolveAggregateSpec(salesLines, ['CustomerGroupId'], [{ function: 'count' }]))).toBe(false);
+    });
+});
+
+describe('buildApplyExpression', () => {
+    it('builds filter, groupby and aggregate steps', () => {
+        const spec = resolveAggregateSpec(salesLines, ['CustomerGroupId'], [{ function: 'avg', field: 'LineAmount', alias: 'AverageAmount' }, { function: 'count' }]);
+        expect(buildApplyExpression(spec, "dataAreaId eq 'usmf'"))
+            .toBe("filter(dataAreaId eq 'usmf')/groupby((CustomerGroupId),aggregate(LineAmount with average as AverageAmount,$count as Count))");
+    });
+
+    it('types the result columns from the schema and the functions', () => {
+        const spec = resolveAggregateSpec(salesLines, ['CustomerGroupId'], [
+            { function: 'avg', field: 'LineAmount' },
+            { function: 'max', field: 'RequestedShippingDate' },
+            { function: 'countdistinct', field: 'CustomerAccount' },
+        ]);
+        expect(getAggregateColumns(spec, salesLines)).toEqual([
+            { name: 'CustomerGroupId', type: 'Edm.String' },
+            { name: 'LineAmountAvg', type: 'Edm.Decimal' },
+            { name: 'RequestedShippingDateMax', type: 'Edm.DateTimeOffset' },
+            { name: 'CustomerAccountCountDistinct', type: 'Edm.Int64' },
+        ]);
+    });
+
+    it('returns distinct values without measures and a single row without groupby', () => {
+        expect(buildApplyExpression(resolveAggregateSpec(salesLines, ['CustomerGroupId', 'dataAreaId']))).toBe('groupby((CustomerGroupId,dataAreaId))');
+        expect(buildApplyExpression(resolveAggregateSpec(salesLines, [], [{ function: 'max', field: 'RequestedShippingDate' }])))
+            .toBe('aggregate(RequestedShippingDate with max as RequestedShippingDateMax)');
+    });
+});
+
+describe('aggregateRows', () => {
+    const rows = [
+        { CustomerGroupId: 'Retail', CustomerAccount: 'C1', LineAmount: 100, RequestedShippingDate: '2024-03-01T00:00:00Z' },
+        { CustomerGroupId: 'Retail', CustomerAccount: 'C1', LineAmount: 50, RequestedShippingDate: '2024-05-01T00:00:00Z' },
+        { CustomerGroupId: 'Retail', CustomerAccount: 'C2', LineAmount: null, RequestedShippingDate: '2024-04-01T00:00:00Z' },
+        { CustomerGroupId: 'Wholesale', CustomerAccount: 'C3', LineAmount: 1000, RequestedShippingDate: '2024-01-01T00:00:00Z' },
+    ];
+
+    it('computes every function per group and ignores nulls', () => {
+        const spec = resolveAggregateSpec(salesLines, ['CustomerGroupId'], [
+            { function: 'sum', field: 'LineAmount' },
+            { function: 'avg', field: 'LineAmount' },
+            { function: 'min', field: 'RequestedShippingDate' },
+            { function: 'max', field: 'LineAmount' },
+            { function: 'countdistinct', field: 'CustomerAccount' },
+            { function: 'count' },
+        ]);
+        expect(getAggregateFields(spec)).toEqual(['CustomerGroupId', 'LineAmount', 'RequestedShippingDate', 'CustomerAccount']);
+
+        expect(aggregateRows(rows, spec)).toEqual([
+            { CustomerGroupId: 'Retail', LineAmountSum: 150, LineAmountAvg: 75, RequestedShippingDateMin: '2024-03-01T00:00:00Z', LineAmountMax: 100, CustomerAccountCountDistinct: 2, Count: 3 },
+            { CustomerGroupId: 'Wholesale', LineAmountSum: 1000, LineAmountAvg: 1000, RequestedShippingDateMin: '2024-01-01T00:00:00Z', LineAmountMax: 1000, CustomerAccountCountDistinct: 1, Count: 1 },
+        ]);
+    });
+
+    it('returns one row without groupby, even over no rows', () => {
+        const spec = resolveAggregateSpec(salesLines, [], [{ function: 'sum', field: 'LineAmount' }, { function: 'count' }]);
+        expect(aggregateRows([], spec)).toEqual([{ LineAmountSum: 0, Count: 0 }]);
+    });
+});
@@ -0,0 +1,209 @@
+// src/aggregate.ts
+
+import { z } from 'zod';
+import { EntitySchema } from './entityManager.js';
+import { FieldResolver } from './fieldResolver.js';
+import { NUMERIC_TYPES } from './odata.js';
+
+export const AGGREGATE_FUNCTIONS = ['sum', 'avg', 'min', 'max', 'countdistinct', 'count'] as const;
+
+export type AggregateFunction = typeof AGGREGATE_FUNCTIONS[number];
+
+// The $apply keyword of each function. 'count' counts rows and takes no field.
+const APPLY_KEYWORDS: Record<Exclude<AggregateFunction, 'count'>, string> = {
+    sum: 'sum',
+    avg: 'average',
+    min: 'min',
+    max: 'max',
+    countdistinct: 'countdistinct',
+};
+
+const ALIAS = /^[A-Za-z_]\w*$/;
+
+export const aggregateMeasureSchema = z.object({
+    function: z.enum(AGGREGATE_FUNCTIONS).describe("The aggregation. 'count' counts rows and needs no field."),
+    field: z.string().optional().describe("The field to aggregate. Required for every function except 'count'."),
+    alias: z.string().regex(ALIAS).optional().describe("The name of the result column, e.g. TotalAmount. Defaults to the field and function, e.g. AmountSum."),
+});
+
+export type AggregateMeasure = z.infer<typeof aggregateMeasureSchema>;
+
+/**
+ * A measure with its field name matched to the schema and its result column named.
+ */
+export interface ResolvedMeasure {
+    function: AggregateFunction;
+    field: string | null;
+    alias: string;
+}
+
+export interface AggregateSpec {
+    groupBy: string[];
+    measures: ResolvedMeasure[];
+}
+
+function defaultAlias(measure: AggregateMeasure, field: string | null): string {
+    if (!field) {
+        return 'Count';
+    }
+    const suffix = measure.function === 'countdistinct' ? 'CountDistinct' : `${measure.function[0].toUpperCase()}${measure.function.slice(1)}`;
+    return `${field}${suffix}`;
+}
+
+/**
+ * Matches the group-by fields and measures of an aggregation to the entity schema.
+ * Field names are matched by the resolver, like the fields of a filter; sum and avg need numeric fields.
+ * @param resolver Pass the resolver of the filter so the plan can show every correction together.
+ * @throws One error listing every problem found.
+ */
+export function resolveAggregateSpec(schema: EntitySchema, groupBy: string[] = [], measures: AggregateMeasure[] = [], resolver: FieldResolver = new FieldResolver(schema)): AggregateSpec {
+    const errors: string[] = [];
+    const findField = (name: string) => {
+        try {
+            return resolver.resolveField(name);
+        } catch (error) {
+            errors.push((error as Error).message);
+            return undefined;
+        }
+    };
+
+    if (groupBy.length === 0 && measures.length === 0) {
+        errors.push('Pass groupBy, aggregates or both.');
+    }
+
+    const resolvedGroupBy = groupBy.map(name => findField(name)?.name ?? name);
+    const resolvedMeasures = measures.map(measure => {
+        let field: string | null = null;
+        if (measure.function !== 'count') {
+            if (!measure.field) {
+                errors.push(`The '${measure.function}' aggregation needs a field.`);
+            } else {
+                const schemaField = findField(measure.field);
+                field = schemaField?.name ?? measure.field;
+                if (schemaField && (measure.function === 'sum' || measure.function === 'avg') && !NUMERIC_TYPES.includes(schemaField.type)) {
+                    errors.push(`Cannot ${measure.function} '${schemaField.name}': it is ${schemaField.type}, not a number.`);
+                }
+            }
+        }
+        return { function: measure.function, field, alias: measure.alias ?? defaultAlias(measure, field) };
+    });
+
+    const aliases = resolvedMeasures.map(m => m.alias);
+    const duplicate = aliases.find((alias, index) => aliases.indexOf(alias) !== index || resolvedGroupBy.includes(alias));
+    if (duplicate) {
+        errors.push(`The result column '${duplicate}' is used more than once. Give the aggregations distinct aliases.`);
+    }
+
+    if (errors.length > 0) {
+        throw new Error(errors.join(' '));
+    }
+    return { groupBy: resolvedGroupBy, measures: resolvedMeasures };
+}
+
+/**
+ * Builds the $apply pipeline of an aggregation, e.g.
+ * `filter(SalesOrderStatus eq 'Backorder')/groupby((CustomerGroupId),aggregate(Amount with sum as AmountSum))`.
+ * Without measures, groupby returns the distinct combinations of the group-by fields.
+ */
+export function buildApplyExpression(spec: AggregateSpec, filter?: string): string {
+    const steps: string[] = [];
+    if (filter) {
+        steps.push(`filter(${filter})`);
+    }
+
+    const measures = spec.measures.map(m => (m.function === 'count' ? `$count as ${m.alias}` : `${m.field} with ${APPLY_KEYWORDS[m.function]} as ${m.alias}`));
+    const aggregate = measures.length > 0 ? `aggregate(${measures.join(',')})` : '';
+    if (spec.groupBy.length > 0) {
+        steps.push(`groupby((${spec.groupBy.join(',')})${aggregate ? `,${aggregate}` : ''})`);
+    } else {
+        steps.push(aggregate);
+    }
+    return steps.join('/');
+}
+
+/**
+ * Whether the aggregation only counts all rows, which a `/$count` request answers without reading them.
+ */
+export function isCountOnly(spec: AggregateSpec): boolean {
+    return spec.groupBy.length === 0 && spec.measures.every(m => m.function === 'count');
+}
+
+/**
+ * The fields the client-side fallback needs from each row.
+ */
+export function getAggregateFields(spec: AggregateSpec): string[] {
+    return [...new Set([...spec.groupBy, ...spec.measures.flatMap(m => (m.field ? [m.field] : []))])];
+}
+
+/**
+ * The result columns of an aggregation with their types: group-by fields keep their schema type,
+ * counts are Edm.Int64, averages Edm.Decimal, and sum, min and max keep the type of their field.
+ */
+export function getAggregateColumns(spec: AggregateSpec, schema: EntitySchema): { name: string; type: string }[] {
+    const typeOf = (name: string | null) => schema.fields.find(f => f.name === name)?.type ?? 'Unknown';
+    return [
+        ...spec.groupBy.map(name => ({ name, type: typeOf(name) })),
+        ...spec.measures.map(m => ({
+            name: m.alias,
+            type: m.function === 'count' || m.function === 'countdistinct' ? 'Edm.Int64' : m.function === 'avg' ? 'Edm.Decimal' : typeOf(m.field),
+        })),
+    ];
+}
+
+function compareValues(a: unknown, b: unknown): number {
+    return typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b));
+}
+
+/**
+ * Aggregates rows in memory, for entities whose endpoint does not support $apply.
+ * Null values are ignored by every function except 'count', as on the server.
+ * @returns One row per group with the group-by fields and one column per measure.
+ */
+export function aggregateRows(rows: Record<string, unknown>[], spec: AggregateSpec): Record<string, unknown>[] {
+    const groups = new Map<string, Record<string, unknown>[]>();
+    for (const row of rows) {
+        const key = JSON.stringify(spec.groupBy.map(field => row[field] ?? null));
+        const group = groups.get(key);
+        if (group) {
+            group.push(row);
+        } else {
+            groups.set(key, [row]);
+        }
+    }
+    // Without group-by fields, an aggregation always returns one row, even over no data.
+    if (spec.groupBy.length === 0 && groups.size === 0) {
+        groups.set('[]', []);
+    }
+
+    return [...groups.values()].map(group => {
+        const result: Record<string, unknown> = {};
+        for (const field of spec.groupBy) {
+            result[field] = group[0][field] ?? null;
+        }
+        for (const measure of spec.measures) {
+            if (measure.function === 'count') {
+                result[measure.alias] = group.length;
+                continue;
+            }
+            const values = group.map(row => row[measure.field!]).filter(value => value !== null && value !== undefined);
+            switch (measure.function) {
+                case 'sum':
+                    result[measure.alias] = values.reduce((total: number, value) => total + Number(value), 0);
+                    break;
+                case 'avg':
+                    result[measure.alias] = values.length > 0 ? values.reduce((total: number, value) => total + Number(value), 0) / values.length : null;
+                    break;
+                case 'min':
+                    result[measure.alias] = values.length > 0 ? values.reduce((min, value) => (compareValues(value, min) < 0 ? value : min)) : null;
+                    break;
+                case 'max':
+                    result[measure.alias] = values.length > 0 ? values.reduce((max, value) => (compareValues(value, max) > 0 ? value : max)) : null;
+                    break;
+                case 'countdistinct':
+                    result[measure.alias] = new Set(values.map(value => JSON.stringify(value))).size;
+                    break;
+            }
+        }
+        return result;
+    });
+}
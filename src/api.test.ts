@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { fetchAllPages } from './api.js';
+import { AuthManager } from './auth.js';
+
+const authManager = { getAuthToken: async () => 'test-token' } as unknown as AuthManager;
+const notify = async () => {};
+
+describe('fetchAllPages', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let preferHeaders: string[];
+    // The rows of each page, keyed by path. Every page links to the next one listed.
+    let pages: Record<string, number[]>;
+
+    beforeEach(async () => {
+        preferHeaders = [];
+        server = http.createServer((req, res) => {
+            preferHeaders.push(String(req.headers.prefer));
+            const paths = Object.keys(pages);
+            const index = paths.indexOf(req.url!);
+            // Like a service that ignores Prefer: odata.maxpagesize, the whole page is always returned.
+            const body: Record<string, unknown> = { value: pages[req.url!].map(id => ({ Id: id })) };
+            if (index < paths.length - 1) {
+                body['@odata.nextLink'] = `${baseUrl}${paths[index + 1]}`;
+            }
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(body));
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    it('follows nextLinks until every page is read', async () => {
+        pages = { '/data/Items': [1, 2], '/data/Items?page=2': [3] };
+
+        const result = await fetchAllPages(`${baseUrl}/data/Items`, { maxRows: 10, maxBytes: 1_000_000 }, notify, { authManager });
+
+        expect(result.rows).toEqual([{ Id: 1 }, { Id: 2 }, { Id: 3 }]);
+        expect(result).toMatchObject({ pages: 2, nextLink: null, droppedRows: 0, stoppedBy: 'complete' });
+        expect(preferHeaders).toEqual(['odata.maxpagesize=10', 'odata.maxpagesize=8']);
+    });
+
+    it('does not return a cursor past rows it dropped when the service ignores the page size', async () => {
+        pages = { '/data/Items': [1, 2, 3], '/data/Items?page=2': [4] };
+
+        const result = await fetchAllPages(`${baseUrl}/data/Items`, { maxRows: 2, maxBytes: 1_000_000 }, notify, { authManager });
+
+        expect(preferHeaders).toEqual(['odata.maxpagesize=2']);
+        expect(result.rows).toEqual([{ Id: 1 }, { Id: 2 }]);
+        expect(result).toMatchObject({ nextLink: null, droppedRows: 1, stoppedBy: 'maxRows' });
+    });
+
+    it('does not report a cut-short last page as complete', async () => {
+        pages = { '/data/Items': [1, 2, 3] };
+
+        const result = await fetchAllPages(`${baseUrl}/data/Items`, { maxRows: 2, maxBytes: 1_000_000 }, notify, { authManager });
+
+        expect(result.rows).toHaveLength(2);
+        expect(result).toMatchObject({ nextLink: null, droppedRows: 1, stoppedBy: 'maxRows' });
+    });
+});
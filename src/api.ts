@@ -1,11 +1,27 @@
 // src/api.ts
 
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { AuthManager } from './auth.js';
-import { URL } from 'url';
+import { AuthManager, UserContext } from './auth.js';
+import { encodeCursor } from './paging.js';
+import { fetchWithRetry } from './retry.js';
+import { logger } from './logger.js';
 
 const authManager = new AuthManager();
 
+// The largest page we ask the service for when following nextLinks on the server. Queries for more rows
+// than this are treated as paged by the service.
+export const MAX_SERVER_PAGE_SIZE = 100;
+
+/**
+ * A non-success response from the OData service, with its HTTP status.
+ */
+export class ODataError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = 'ODataError';
+    }
+}
+
 // Helper function to safely send notifications
 async function safeNotify(sendNotification: (notification: any) => void | Promise<void>, notification: any): Promise<void> {
     try {
@@ -15,11 +31,31 @@ async function safeNotify(sendNotification: (notification: any) => void | Promis
     }
 }
 
+// Reports retries of throttled or failed requests to the client.
+function notifyRetry(sendNotification: (notification: any) => void | Promise<void>) {
+    return async (attempt: number, delayMs: number, reason: string) => {
+        await safeNotify(sendNotification, {
+            method: "notifications/message",
+            params: { level: "warning", data: `Request failed (${reason}). Retry ${attempt} in ${delayMs} ms.` }
+        });
+    };
+}
+
+export interface ApiCallOptions {
+    // Allows a POST or PATCH to be retried after throttling; sent as the Idempotency-Key header.
+    idempotencyKey?: string;
+    // Sends the request with an on-behalf-of token for this user instead of the app's token.
+    user?: UserContext;
+    // The token source of the target environment. Defaults to the one configured by DYNAMICS_RESOURCE_URL.
+    authManager?: AuthManager;
+}
+
 export async function makeApiCall(
-    method: 'GET' | 'POST' | 'PATCH',
+    method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
     url: string,
     body: Record<string, unknown> | null,
-    sendNotification: (notification: any) => void | Promise<void>
+    sendNotification: (notification: any) => void | Promise<void>,
+    options: ApiCallOptions = {}
 ): Promise<CallToolResult> {
     try {
         await safeNotify(sendNotification, {
@@ -27,19 +63,17 @@ export async function makeApiCall(
             params: { level: "info", data: `Calling ${method} ${url}` }
         });
 
-        const token = await authManager.getAuthToken();
-
-        const response = await fetch(url, {
+        const response = await fetchWithRetry(url, async () => ({
             method: method,
             headers: {
-                'Authorization': `Bearer ${token}`,
+                'Authorization': `Bearer ${await (options.authManager ?? authManager).getAuthToken(options.user)}`,
                 'Content-Type': 'application/json',
                 'Accept': 'application/json, text/xml',
                 // PAGINATION: Tell OData we prefer paginated responses
                 'Prefer': 'odata.maxpagesize=100'
             },
             ...(body && { body: JSON.stringify(body) }),
-        });
+        }), { idempotencyKey: options.idempotencyKey, onRetry: notifyRetry(sendNotification) });
 
         if (response.status === 204) {
             return { content: [{ type: 'text', text: 'Operation successful (No Content).' }] };
@@ -74,18 +108,15 @@ export async function makeApiCall(
             let resultText = JSON.stringify(jsonResponse, null, 2);
 
             if (nextLink) {
-                const nextUrl = new URL(nextLink);
-                const skipParam = nextUrl.searchParams.get('$skip');
-                const topParam = nextUrl.searchParams.get('$top');
-                
+                const cursor = encodeCursor(nextLink);
                 const paginationHint = `\n\n---
-[INFO] More data is available. To get the next page, call the 'odataQuery' tool again with the parameter: "skip": ${skipParam}.`;
+[INFO] More data is available. To get the next page, call the 'odataQuery' tool again with the parameter: "cursor": "${cursor}".`;
 
                 resultText += paginationHint;
 
                 await safeNotify(sendNotification, {
                     method: "notifications/message",
-                    params: { level: "info", data: `More data available. Next skip token is ${skipParam}.` }
+                    params: { level: "info", data: `More data available. Next page: ${nextLink}` }
                 });
             }
 
@@ -96,11 +127,179 @@ export async function makeApiCall(
 
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
-        console.error(`Error in makeApiCall: ${errorMessage}`);
+        logger.error(`Error in makeApiCall: ${errorMessage}`);
         await safeNotify(sendNotification, {
             method: "notifications/message",
             params: { level: "error", data: `An unexpected error occurred: ${errorMessage}` }
         });
         return { isError: true, content: [{ type: 'text', text: `An unexpected error occurred: ${errorMessage}` }] };
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Performs an authenticated GET and returns the parsed JSON body.
+ * Unlike makeApiCall, this is meant for internal lookups (e.g. reading a record before it is changed)
+ * and throws instead of producing a tool result.
+ */
+export async function fetchJson(url: string, options: ApiCallOptions = {}): Promise<Record<string, unknown>> {
+    const response = await fetchWithRetry(url, async () => ({
+        method: 'GET',
+        headers: {
+            'Authorization': `Bearer ${await (options.authManager ?? authManager).getAuthToken(options.user)}`,
+            'Accept': 'application/json'
+        }
+    }));
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        throw new ODataError(`GET ${url} failed with status ${response.status}: ${errorText}`, response.status);
+    }
+
+    return await response.json() as Record<string, unknown>;
+}
+
+/**
+ * Reads a `/$count` URL and returns the number. Throws like fetchJson.
+ */
+export async function fetchCount(url: string, options: ApiCallOptions = {}): Promise<number> {
+    const response = await fetchWithRetry(url, async () => ({
+        method: 'GET',
+        headers: {
+            'Authorization': `Bearer ${await (options.authManager ?? authManager).getAuthToken(options.user)}`,
+            'Accept': 'text/plain'
+        }
+    }));
+
+    const responseText = await response.text();
+    if (!response.ok) {
+        throw new ODataError(`GET ${url} failed with status ${response.status}: ${responseText}`, response.status);
+    }
+
+    const count = Number(responseText.trim());
+    if (!Number.isInteger(count)) {
+        throw new Error(`GET ${url} did not return a count: ${responseText.slice(0, 200)}`);
+    }
+    return count;
+}
+
+/**
+ * Sends a multipart $batch request and returns the raw response for the caller to parse.
+ * The batch is a POST, so it is only retried after throttling when an idempotency key is given.
+ * @param url The $batch endpoint, e.g. 'https://contoso.operations.dynamics.com/data/$batch'.
+ * @param boundary The boundary used in the payload.
+ * @param payload The multipart/mixed request body.
+ */
+export async function sendBatch(url: string, boundary: string, payload: string, options: ApiCallOptions = {}): Promise<{ status: number; contentType: string; body: string }> {
+    const response = await fetchWithRetry(url, async () => ({
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${await (options.authManager ?? authManager).getAuthToken(options.user)}`,
+            'Content-Type': `multipart/mixed; boundary=${boundary}`,
+            'Accept': 'multipart/mixed',
+            'OData-Version': '4.0',
+            'OData-MaxVersion': '4.0'
+        },
+        body: payload
+    }), { idempotencyKey: options.idempotencyKey });
+
+    return {
+        status: response.status,
+        contentType: response.headers.get('Content-Type') || '',
+        body: await response.text()
+    };
+}
+
+/**
+ * Sends a PATCH that only applies while the record still has the given ETag, and returns the raw
+ * response so the caller can tell a concurrency conflict (412 Precondition Failed) from other failures.
+ * @param etag The `@odata.etag` of the record the change was planned against, sent as If-Match.
+ */
+export async function sendConditionalPatch(url: string, body: Record<string, unknown>, etag: string, options: ApiCallOptions = {}): Promise<{ status: number; body: string }> {
+    const response = await fetchWithRetry(url, async () => ({
+        method: 'PATCH',
+        headers: {
+            'Authorization': `Bearer ${await (options.authManager ?? authManager).getAuthToken(options.user)}`,
+            'Content-Type': 'application/json',
+            'Accept': 'application/json',
+            'If-Match': etag
+        },
+        body: JSON.stringify(body)
+    }), { idempotencyKey: options.idempotencyKey });
+
+    return { status: response.status, body: await response.text() };
+}
+
+export interface PageLimits {
+    maxRows: number;
+    maxBytes: number;
+}
+
+export interface PagedResult {
+    rows: unknown[];
+    pages: number;
+    bytes: number;
+    // The link to the first page that was not fetched. Null when every page was read, and also when the
+    // last page was cut short, since continuing from the link would skip the rows that were dropped.
+    nextLink: string | null;
+    // The rows of the last page beyond maxRows, which were discarded and cannot be continued to.
+    droppedRows: number;
+    stoppedBy: 'complete' | 'maxRows' | 'maxBytes';
+}
+
+/**
+ * Follows @odata.nextLink on the server until the result is complete or a limit is reached,
+ * and merges the rows of every page. Each page is requested with a page size no larger than the
+ * rows still wanted. A service that ignores the page size may return more; the extra rows are dropped and
+ * counted in droppedRows, the result is reported as stopped by maxRows and no continuation link is returned.
+ * @param url The URL of the first page.
+ * @param limits The maximum number of rows and response bytes to read.
+ * @param sendNotification Used to report progress after every page.
+ * @throws If any page request fails.
+ */
+export async function fetchAllPages(
+    url: string,
+    limits: PageLimits,
+    sendNotification: (notification: any) => void | Promise<void>,
+    options: ApiCallOptions = {}
+): Promise<PagedResult> {
+    const rows: unknown[] = [];
+    let nextLink: string | null = url;
+    let pages = 0;
+    let bytes = 0;
+    let droppedRows = 0;
+
+    while (nextLink && rows.length < limits.maxRows && bytes < limits.maxBytes) {
+        const pageSize = Math.min(MAX_SERVER_PAGE_SIZE, limits.maxRows - rows.length);
+        const response = await fetchWithRetry(nextLink, async () => ({
+            method: 'GET',
+            headers: {
+                'Authorization': `Bearer ${await (options.authManager ?? authManager).getAuthToken(options.user)}`,
+                'Accept': 'application/json',
+                'Prefer': `odata.maxpagesize=${pageSize}`
+            }
+        }), { onRetry: notifyRetry(sendNotification) });
+
+        const responseText = await response.text();
+        if (!response.ok) {
+            throw new ODataError(`API Error: ${response.status}\n${responseText}`, response.status);
+        }
+
+        bytes += Buffer.byteLength(responseText, 'utf8');
+        pages++;
+        const page = JSON.parse(responseText);
+        const pageRows: unknown[] = Array.isArray(page.value) ? page.value : [];
+        // Services that ignore the requested page size may return more rows than asked for.
+        const wanted = limits.maxRows - rows.length;
+        droppedRows = Math.max(0, pageRows.length - wanted);
+        rows.push(...pageRows.slice(0, wanted));
+        nextLink = droppedRows > 0 ? null : page['@odata.nextLink'] ?? null;
+
+        await safeNotify(sendNotification, {
+            method: "notifications/message",
+            params: { level: "info", data: `Fetched page ${pages}: ${rows.length} rows, ${bytes} bytes so far.` }
+        });
+    }
+
+    const stoppedBy = droppedRows > 0 ? 'maxRows' : !nextLink ? 'complete' : rows.length >= limits.maxRows ? 'maxRows' : 'maxBytes';
+    return { rows, pages, bytes, nextLink, droppedRows, stoppedBy };
+}
@@ -1,5 +1,14 @@
-import { jest, describe, it, expect, beforeEach } from '@jest/globals';
-import { AuthManager } from './auth.js';
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { createVerify, generateKeyPairSync } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { AuthManager, createUserContext, readAuthConfig } from './auth.js';
+
+// Keep the real fetch for the tests that talk to a local stub token server.
+const realFetch = global.fetch;
 
 // Mock the global fetch function
 global.fetch = jest.fn();
@@ -51,10 +60,10 @@ describe('AuthManager', () => {
 
     it('should fetch a new token if the cached token is expired', async () => {
         // Manually set an expired token in the cache
-        (authManager as any).tokenCache = {
+        (authManager as any).tokenCache.set('', {
             accessToken: 'expired-token',
             expiresAt: Date.now() - 1000, // Expired 1 second ago
-        };
+        });
 
         (global.fetch as jest.Mock).mockResolvedValue({
             ok: true,
@@ -78,4 +87,149 @@ describe('AuthManager', () => {
 
         await expect(authManager.getAuthToken()).rejects.toThrow('Failed to fetch auth token: 401 Unauthorized');
     });
-});
\ No newline at end of file
+});
+describe('AuthManager with a stub token server', () => {
+    let server: http.Server;
+    let requests: { url: string; headers: http.IncomingHttpHeaders; body: URLSearchParams }[];
+    let tokenResponse: Record<string, unknown>;
+    let tempDir: string;
+
+    beforeEach(async () => {
+        global.fetch = realFetch;
+        requests = [];
+        tokenResponse = { access_token: 'stub-token', expires_in: 3599 };
+        server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', chunk => { body += chunk; });
+            req.on('end', () => {
+                requests.push({ url: req.url!, headers: req.headers, body: new URLSearchParams(body) });
+                res.setHeader('Content-Type', 'application/json');
+                res.end(JSON.stringify(tokenResponse));
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'auth-test-'));
+    });
+
+    afterEach(async () => {
+        global.fetch = jest.fn() as unknown as typeof fetch;
+        await new Promise(resolve => server.close(resolve));
+        await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    const stubHost = () => `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    it('should sign a client assertion with the certificate key on the v2 endpoint', async () => {
+        const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+        const keyPath = path.join(tempDir, 'app.pem');
+        await fs.writeFile(keyPath, privateKey.export({ type: 'pkcs8', format: 'pem' }));
+
+        const config = readAuthConfig({
+            AUTH_MODE: 'certificate',
+            TENANT_ID: 'tenant',
+            CLIENT_ID: 'app-id',
+            DYNAMICS_RESOURCE_URL: 'https://test.dynamics.com',
+            CLIENT_CERTIFICATE_PATH: keyPath,
+            CLIENT_CERTIFICATE_THUMBPRINT: 'AB:CD:EF:01',
+            AZURE_AUTHORITY_HOST: stubHost(),
+        });
+        const token = await new AuthManager(config).getAuthToken();
+
+        expect(token).toBe('stub-token');
+        const [request] = requests;
+        expect(request.url).toBe('/tenant/oauth2/v2.0/token');
+        expect(request.body.get('scope')).toBe('https://test.dynamics.com/.default');
+        expect(request.body.get('client_secret')).toBeNull();
+
+        const [header, claims, signature] = request.body.get('client_assertion')!.split('.');
+        expect(JSON.parse(Buffer.from(header, 'base64url').toString())).toMatchObject({ alg: 'RS256', x5t: Buffer.from('abcdef01', 'hex').toString('base64url') });
+        expect(JSON.parse(Buffer.from(claims, 'base64url').toString())).toMatchObject({ iss: 'app-id', sub: 'app-id', aud: `${stubHost()}/tenant/oauth2/v2.0/token` });
+        const valid = createVerify('RSA-SHA256').update(`${header}.${claims}`).verify(publicKey.export({ type: 'spki', format: 'pem' }), Buffer.from(signature, 'base64url'));
+        expect(valid).toBe(true);
+    });
+
+    it('should send the federated token file as the assertion for workload identity', async () => {
+        const tokenFile = path.join(tempDir, 'token');
+        await fs.writeFile(tokenFile, 'federated-jwt\n');
+
+        const config = readAuthConfig({
+            AUTH_MODE: 'workload_identity',
+            AZURE_TENANT_ID: 'tenant',
+            AZURE_CLIENT_ID: 'app-id',
+            DYNAMICS_RESOURCE_URL: 'https://test.dynamics.com',
+            AZURE_FEDERATED_TOKEN_FILE: tokenFile,
+            AZURE_AUTHORITY_HOST: stubHost(),
+        });
+        await new AuthManager(config).getAuthToken();
+
+        expect(requests[0].body.get('client_assertion')).toBe('federated-jwt');
+        expect(requests[0].body.get('client_assertion_type')).toBe('urn:ietf:params:oauth:client-assertion-type:jwt-bearer');
+    });
+
+    it('should call the App Service identity endpoint for managed identity', async () => {
+        process.env.IDENTITY_ENDPOINT = `${stubHost()}/msi/token`;
+        process.env.IDENTITY_HEADER = 'secret-header';
+        try {
+            const config = readAuthConfig({ AUTH_MODE: 'managed_identity', DYNAMICS_RESOURCE_URL: 'https://test.dynamics.com' });
+            await new AuthManager(config).getAuthToken();
+        } finally {
+            delete process.env.IDENTITY_ENDPOINT;
+            delete process.env.IDENTITY_HEADER;
+        }
+
+        expect(requests[0].url).toBe('/msi/token?api-version=2019-08-01&resource=https%3A%2F%2Ftest.dynamics.com');
+        expect(requests[0].headers['x-identity-header']).toBe('secret-header');
+    });
+
+    it('should cache App Service managed identity tokens that only carry expires_on', async () => {
+        process.env.IDENTITY_ENDPOINT = `${stubHost()}/msi/token`;
+        process.env.IDENTITY_HEADER = 'secret-header';
+        // The 2019-08-01 App Service response: expires_on as a Unix time, no expires_in.
+        tokenResponse = {
+            access_token: 'stub-token',
+            expires_on: String(Math.floor(Date.now() / 1000) + 3600),
+            resource: 'https://test.dynamics.com',
+            token_type: 'Bearer',
+            client_id: 'app-id',
+        };
+        try {
+            const manager = new AuthManager(readAuthConfig({ AUTH_MODE: 'managed_identity', DYNAMICS_RESOURCE_URL: 'https://test.dynamics.com' }));
+            expect(await manager.getAuthToken()).toBe('stub-token');
+            expect(await manager.getAuthToken()).toBe('stub-token');
+        } finally {
+            delete process.env.IDENTITY_ENDPOINT;
+            delete process.env.IDENTITY_HEADER;
+        }
+
+        expect(requests).toHaveLength(1);
+    });
+
+    it('should exchange and cache tokens per user in on-behalf-of mode', async () => {
+        const config = readAuthConfig({
+            TENANT_ID: 'tenant',
+            CLIENT_ID: 'app-id',
+            CLIENT_SECRET: 'secret',
+            DYNAMICS_RESOURCE_URL: 'https://test.dynamics.com',
+            AZURE_AUTHORITY_HOST: stubHost(),
+        });
+        const manager = new AuthManager(config);
+        const alice = createUserContext({ tid: 'tenant', oid: 'alice-oid', preferred_username: 'alice@contoso.com' }, 'alice-jwt');
+        const bob = createUserContext({ tid: 'tenant', oid: 'bob-oid' }, 'bob-jwt');
+
+        await manager.getAuthToken(alice);
+        await manager.getAuthToken(alice);
+        await manager.getAuthToken(bob);
+
+        expect(requests).toHaveLength(2);
+        expect(requests[0].url).toBe('/tenant/oauth2/v2.0/token');
+        expect(requests[0].body.get('grant_type')).toBe('urn:ietf:params:oauth:grant-type:jwt-bearer');
+        expect(requests[0].body.get('requested_token_use')).toBe('on_behalf_of');
+        expect(requests[0].body.get('assertion')).toBe('alice-jwt');
+        expect(requests[0].body.get('client_secret')).toBe('secret');
+        expect(requests[1].body.get('assertion')).toBe('bob-jwt');
+    });
+
+    it('should reject an unknown AUTH_MODE', () => {
+        expect(() => readAuthConfig({ AUTH_MODE: 'password' })).toThrow("Unknown AUTH_MODE 'password'");
+    });
+});
@@ -1,65 +1,251 @@
+import { createHash, createPrivateKey, createSign, randomUUID, X509Certificate } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import { JwtVerifierOptions } from './jwt.js';
+import { logger } from './logger.js';
+
 // A small buffer in seconds to ensure we refresh the token before it actually expires.
 const EXPIRY_BUFFER = 60;
 
+const DEFAULT_AUTHORITY_HOST = 'https://login.microsoftonline.com';
+const IMDS_ENDPOINT = 'http://169.254.169.254/metadata/identity/oauth2/token';
+const CLIENT_ASSERTION_TYPE = 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer';
+const ON_BEHALF_OF_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:jwt-bearer';
+// The cache key of the token issued to the app itself.
+const APP_CACHE_KEY = '';
+// How long a signed client assertion is valid for.
+const ASSERTION_LIFETIME_SECONDS = 10 * 60;
+
+export type AuthMode = 'client_secret' | 'certificate' | 'managed_identity' | 'workload_identity';
+
+/**
+ * Everything needed to obtain a token for one Dynamics 365 environment.
+ */
+export interface AuthConfig {
+    mode: AuthMode;
+    resourceUrl: string;
+    tenantId?: string;
+    clientId?: string;
+    clientSecret?: string;
+    // PEM file with the private key, and usually the certificate it belongs to.
+    certificatePath?: string;
+    // SHA-1 thumbprint of the certificate in hex. Only needed when the PEM file has no certificate.
+    certificateThumbprint?: string;
+    // File holding the federated token projected by the platform (e.g. AKS workload identity).
+    federatedTokenFile?: string;
+    // Base URL of the Entra ID authority, overridable for sovereign clouds and local stub servers.
+    authorityHost: string;
+    // 'v1' uses /oauth2/token with a resource; 'v2' uses /oauth2/v2.0/token with a scope.
+    endpointVersion: 'v1' | 'v2';
+}
+
+const AUTH_MODES: AuthMode[] = ['client_secret', 'certificate', 'managed_identity', 'workload_identity'];
+
+/**
+ * Reads the authentication settings from the environment.
+ * Certificate and workload identity always use the v2 endpoint; client secrets keep using v1
+ * unless AUTH_ENDPOINT_VERSION=v2.
+ */
+export function readAuthConfig(env: NodeJS.ProcessEnv = process.env): AuthConfig {
+    const mode = (env.AUTH_MODE || 'client_secret') as AuthMode;
+    if (!AUTH_MODES.includes(mode)) {
+        throw new Error(`Unknown AUTH_MODE '${env.AUTH_MODE}'. Expected one of: ${AUTH_MODES.join(', ')}.`);
+    }
+
+    return {
+        mode,
+        resourceUrl: env.DYNAMICS_RESOURCE_URL || '',
+        tenantId: env.TENANT_ID || env.AZURE_TENANT_ID,
+        clientId: env.CLIENT_ID || env.AZURE_CLIENT_ID,
+        clientSecret: env.CLIENT_SECRET,
+        certificatePath: env.CLIENT_CERTIFICATE_PATH,
+        certificateThumbprint: env.CLIENT_CERTIFICATE_THUMBPRINT,
+        federatedTokenFile: env.AZURE_FEDERATED_TOKEN_FILE,
+        authorityHost: (env.AZURE_AUTHORITY_HOST || DEFAULT_AUTHORITY_HOST).replace(/\/+$/, ''),
+        endpointVersion: mode === 'certificate' || mode === 'workload_identity' || env.AUTH_ENDPOINT_VERSION === 'v2' ? 'v2' : 'v1',
+    };
+}
+
+function base64url(input: string | Buffer): string {
+    return Buffer.from(input).toString('base64url');
+}
+
+/**
+ * Builds a client assertion: a JWT signed with the app registration's certificate, used in
+ * place of a client secret.
+ * @param pem The contents of the PEM file holding the private key and, optionally, the certificate.
+ * @param clientId The application (client) ID.
+ * @param audience The token endpoint the assertion is sent to.
+ * @param thumbprint The certificate's SHA-1 thumbprint in hex, when the PEM has no certificate.
+ */
+export function createClientAssertion(pem: string, clientId: string, audience: string, thumbprint?: string): string {
+    const certificateBlock = /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/.exec(pem)?.[0];
+    let x5t: string;
+    if (certificateBlock) {
+        x5t = base64url(createHash('sha1').update(new X509Certificate(certificateBlock).raw).digest());
+    } else if (thumbprint) {
+        x5t = base64url(Buffer.from(thumbprint.replace(/[^0-9a-f]/gi, ''), 'hex'));
+    } else {
+        throw new Error('The certificate file has no certificate. Set CLIENT_CERTIFICATE_THUMBPRINT or include the certificate in the PEM file.');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const header = { alg: 'RS256', typ: 'JWT', x5t };
+    const claims = { aud: audience, iss: clientId, sub: clientId, jti: randomUUID(), nbf: now, iat: now, exp: now + ASSERTION_LIFETIME_SECONDS };
+    const unsigned = `${base64url(JSON.stringify(header))}.${base64url(JSON.stringify(claims))}`;
+    const signature = createSign('RSA-SHA256').update(unsigned).sign(createPrivateKey(pem));
+    return `${unsigned}.${base64url(signature)}`;
+}
+
+/**
+ * Adds the app's own credentials to a token request: a client secret, a certificate
+ * assertion or a federated token, depending on the mode.
+ */
+async function appendClientCredentials(params: URLSearchParams, config: AuthConfig, tokenUrl: string): Promise<void> {
+    const clientId = config.clientId!;
+    switch (config.mode) {
+        case 'client_secret':
+            if (!config.clientSecret) {
+                throw new Error('Missing required environment variables for authentication in .env file.');
+            }
+            params.append('client_secret', config.clientSecret);
+            break;
+        case 'certificate': {
+            if (!config.certificatePath) {
+                throw new Error('AUTH_MODE=certificate requires CLIENT_CERTIFICATE_PATH.');
+            }
+            const pem = await fs.readFile(config.certificatePath, 'utf8');
+            params.append('client_assertion_type', CLIENT_ASSERTION_TYPE);
+            params.append('client_assertion', createClientAssertion(pem, clientId, tokenUrl, config.certificateThumbprint));
+            break;
+        }
+        case 'workload_identity': {
+            if (!config.federatedTokenFile) {
+                throw new Error('AUTH_MODE=workload_identity requires AZURE_FEDERATED_TOKEN_FILE.');
+            }
+            // The platform rotates the file, so it is read on every fetch.
+            const federatedToken = (await fs.readFile(config.federatedTokenFile, 'utf8')).trim();
+            params.append('client_assertion_type', CLIENT_ASSERTION_TYPE);
+            params.append('client_assertion', federatedToken);
+            break;
+        }
+    }
+}
+
+/**
+ * The caller an on-behalf-of token is requested for.
+ */
+export interface UserContext {
+    // A stable identifier of the user (tenant and object ID), used as the token cache key.
+    id: string;
+    // The display name or UPN, for logs and audit messages.
+    name?: string;
+    // The caller's validated access token, exchanged for a Dynamics 365 token.
+    assertion: string;
+}
+
 /**
- * Manages the authentication token for Dynamics 365, including fetching and caching.
+ * Reads how caller tokens are validated in on-behalf-of mode. By default they must be Entra ID
+ * tokens from TENANT_ID issued for this app registration (CLIENT_ID or api://CLIENT_ID).
+ */
+export function readOnBehalfOfTokenOptions(env: NodeJS.ProcessEnv = process.env): JwtVerifierOptions {
+    const config = readAuthConfig(env);
+    if (!config.tenantId || !config.clientId) {
+        throw new Error('On-behalf-of mode requires TENANT_ID and CLIENT_ID.');
+    }
+    const split = (value: string | undefined) => value?.split(',').map(v => v.trim()).filter(Boolean);
+
+    return {
+        issuers: split(env.OBO_TOKEN_ISSUER) ?? [`${config.authorityHost}/${config.tenantId}/v2.0`, `https://sts.windows.net/${config.tenantId}/`],
+        audiences: split(env.OBO_TOKEN_AUDIENCE) ?? [config.clientId, `api://${config.clientId}`],
+        jwksUri: env.OBO_JWKS_URI || `${config.authorityHost}/${config.tenantId}/discovery/v2.0/keys`,
+    };
+}
+
+/**
+ * Builds the user context for a validated caller token.
+ * @param claims The claims of the validated token.
+ * @param assertion The raw token, kept for the on-behalf-of exchange.
+ */
+export function createUserContext(claims: Record<string, unknown>, assertion: string): UserContext {
+    const objectId = (claims.oid ?? claims.sub) as string | undefined;
+    if (!objectId) {
+        throw new Error('The token does not identify a user (no oid or sub claim).');
+    }
+    return {
+        id: claims.tid ? `${claims.tid}:${objectId}` : objectId,
+        name: (claims.preferred_username ?? claims.upn ?? claims.name) as string | undefined,
+        assertion,
+    };
+}
+
+/**
+ * Manages the authentication tokens for Dynamics 365, including fetching and caching.
+ * Tokens are cached per user: the app's own token under an empty key, and one on-behalf-of
+ * token for each user that called through this manager.
  */
 export class AuthManager {
-    private tokenCache: {
+    private tokenCache = new Map<string, {
         accessToken: string;
         expiresAt: number;
-    } | null = null;
+    }>();
+
+    /**
+     * @param config Fixed settings for this manager. When omitted, settings are read from the
+     * environment on every token fetch, so values loaded by dotenv later are picked up.
+     */
+    constructor(private readonly config?: AuthConfig) {}
 
     /**
      * Retrieves a valid access token, refreshing if necessary.
+     * @param user The caller to act for. Without it, the token is issued to the app itself.
      * @returns {Promise<string>} A valid bearer token.
      */
-    public async getAuthToken(): Promise<string> {
-        if (this.isTokenValid()) {
-            console.log('Using cached auth token.');
-            return this.tokenCache!.accessToken;
+    public async getAuthToken(user?: UserContext): Promise<string> {
+        const cacheKey = user?.id ?? APP_CACHE_KEY;
+        if (this.isTokenValid(cacheKey)) {
+            logger.debug('Using cached auth token.');
+            return this.tokenCache.get(cacheKey)!.accessToken;
         }
 
-        console.log('Auth token is invalid or expired. Fetching a new one...');
-        return this.fetchNewToken();
+        logger.info(user ? `Auth token for ${user.name ?? user.id} is invalid or expired. Fetching a new one...` : 'Auth token is invalid or expired. Fetching a new one...');
+        return this.fetchNewToken(cacheKey, user);
     }
 
     /**
      * Checks if the cached token is still valid.
      * @returns {boolean} True if the token is valid, false otherwise.
      */
-    private isTokenValid(): boolean {
-        if (!this.tokenCache) {
+    private isTokenValid(cacheKey: string): boolean {
+        const entry = this.tokenCache.get(cacheKey);
+        if (!entry) {
             return false;
         }
-        return this.tokenCache.expiresAt > Date.now();
+        return entry.expiresAt > Date.now();
+    }
+
+    private evictExpired(): void {
+        const now = Date.now();
+        for (const [key, entry] of this.tokenCache) {
+            if (entry.expiresAt <= now) {
+                this.tokenCache.delete(key);
+            }
+        }
     }
 
     /**
-     * Fetches a new OAuth token from Azure AD.
+     * Fetches a new OAuth token using the configured authentication mode, or exchanges the
+     * user's token when acting on behalf of a user.
      * @returns {Promise<string>} The new access token.
      */
-    private async fetchNewToken(): Promise<string> {
-        const { TENANT_ID, CLIENT_ID, CLIENT_SECRET, DYNAMICS_RESOURCE_URL } = process.env;
-
-        if (!TENANT_ID || !CLIENT_ID || !CLIENT_SECRET || !DYNAMICS_RESOURCE_URL) {
-            throw new Error('Missing required environment variables for authentication in .env file.');
-        }
-
-        const tokenUrl = `https://login.microsoftonline.com/${TENANT_ID}/oauth2/token`;
-
-        const params = new URLSearchParams();
-        params.append('grant_type', 'client_credentials');
-        params.append('client_id', CLIENT_ID);
-        params.append('client_secret', CLIENT_SECRET);
-        params.append('resource', DYNAMICS_RESOURCE_URL);
+    private async fetchNewToken(cacheKey: string, user?: UserContext): Promise<string> {
+        const config = this.config ?? readAuthConfig();
 
         try {
-            const response = await fetch(tokenUrl, {
-                method: 'POST',
-                body: params,
-                headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-            });
+            const response = user
+                ? await this.requestOnBehalfOfToken(config, user)
+                : config.mode === 'managed_identity'
+                    ? await this.requestManagedIdentityToken(config)
+                    : await this.requestEntraToken(config);
 
             if (!response.ok) {
                 const errorText = await response.text();
@@ -67,16 +253,109 @@ export class AuthManager {
             }
 
             const data = await response.json();
-            const expiresInSeconds = parseInt(data.expires_in, 10);
+            // Entra ID and IMDS send expires_in; the App Service identity endpoint only sends expires_on, a Unix time.
+            const expiresInSeconds = data.expires_in !== undefined
+                ? parseInt(data.expires_in, 10)
+                : parseInt(data.expires_on, 10) - Math.floor(Date.now() / 1000);
+            if (isNaN(expiresInSeconds)) {
+                throw new Error('The token response has neither expires_in nor expires_on.');
+            }
             const expiresAt = Date.now() + (expiresInSeconds - EXPIRY_BUFFER) * 1000;
 
-            this.tokenCache = { accessToken: data.access_token, expiresAt };
+            this.evictExpired();
+            this.tokenCache.set(cacheKey, { accessToken: data.access_token, expiresAt });
 
-            console.log('Successfully fetched and cached new auth token.');
-            return this.tokenCache.accessToken;
+            logger.info(`Successfully fetched and cached new auth token (${user ? 'on behalf of user' : config.mode}).`);
+            return data.access_token;
         } catch (error) {
-            console.error('Error during token fetch:', error);
+            logger.error('Error during token fetch:', error);
             throw error;
         }
     }
+
+    /**
+     * Requests a token from the Entra ID token endpoint with a client secret, a certificate
+     * assertion or a federated token.
+     */
+    private async requestEntraToken(config: AuthConfig): Promise<Response> {
+        const { tenantId, clientId, resourceUrl } = config;
+        if (!tenantId || !clientId || !resourceUrl) {
+            throw new Error('Missing required environment variables for authentication in .env file.');
+        }
+
+        const tokenUrl = config.endpointVersion === 'v2'
+            ? `${config.authorityHost}/${tenantId}/oauth2/v2.0/token`
+            : `${config.authorityHost}/${tenantId}/oauth2/token`;
+
+        const params = new URLSearchParams();
+        params.append('grant_type', 'client_credentials');
+        params.append('client_id', clientId);
+        if (config.endpointVersion === 'v2') {
+            params.append('scope', `${resourceUrl.replace(/\/+$/, '')}/.default`);
+        } else {
+            params.append('resource', resourceUrl);
+        }
+
+        await appendClientCredentials(params, config, tokenUrl);
+
+        return fetch(tokenUrl, {
+            method: 'POST',
+            body: params,
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        });
+    }
+
+    /**
+     * Exchanges the caller's token for a Dynamics 365 token issued to the same user, so F&O
+     * security roles and audit fields apply to the real caller. Always uses the v2 endpoint.
+     */
+    private async requestOnBehalfOfToken(config: AuthConfig, user: UserContext): Promise<Response> {
+        const { tenantId, clientId, resourceUrl } = config;
+        if (!tenantId || !clientId || !resourceUrl) {
+            throw new Error('Missing required environment variables for authentication in .env file.');
+        }
+        if (config.mode === 'managed_identity') {
+            throw new Error('On-behalf-of requires an app registration credential; it cannot be used with AUTH_MODE=managed_identity.');
+        }
+
+        const tokenUrl = `${config.authorityHost}/${tenantId}/oauth2/v2.0/token`;
+        const params = new URLSearchParams();
+        params.append('grant_type', ON_BEHALF_OF_GRANT_TYPE);
+        params.append('requested_token_use', 'on_behalf_of');
+        params.append('client_id', clientId);
+        params.append('assertion', user.assertion);
+        params.append('scope', `${resourceUrl.replace(/\/+$/, '')}/.default`);
+        await appendClientCredentials(params, config, tokenUrl);
+
+        return fetch(tokenUrl, {
+            method: 'POST',
+            body: params,
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        });
+    }
+
+    /**
+     * Requests a token for the managed identity of the host. App Service exposes its own identity
+     * endpoint through IDENTITY_ENDPOINT; VMs and containers use the instance metadata service.
+     */
+    private async requestManagedIdentityToken(config: AuthConfig): Promise<Response> {
+        if (!config.resourceUrl) {
+            throw new Error('Missing required environment variables for authentication in .env file.');
+        }
+
+        const { IDENTITY_ENDPOINT, IDENTITY_HEADER } = process.env;
+        const url = new URL(IDENTITY_ENDPOINT || IMDS_ENDPOINT);
+        url.searchParams.append('api-version', IDENTITY_ENDPOINT ? '2019-08-01' : '2018-02-01');
+        url.searchParams.append('resource', config.resourceUrl);
+        if (config.clientId) {
+            // Selects a user-assigned identity.
+            url.searchParams.append('client_id', config.clientId);
+        }
+
+        const headers: Record<string, string> = IDENTITY_ENDPOINT
+            ? { 'X-IDENTITY-HEADER': IDENTITY_HEADER || '' }
+            : { 'Metadata': 'true' };
+
+        return fetch(url, { method: 'GET', headers });
+    }
 }
@@ -0,0 +1,132 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildBatchRequest, groupBatchOperations, parseBatchResponse } from './batch.js';
+
+const SERVICE_ROOT = 'https://test.dynamics.com/data';
+
+describe('groupBatchOperations', () => {
+    it('should put consecutive writes in one change set and GETs on their own', () => {
+        const groups = groupBatchOperations([
+            { method: 'POST', url: 'SystemUsers', body: { UserID: 'jdoe' } },
+            { method: 'POST', url: 'SecurityUserRoleAssociations', body: { UserId: 'jdoe', SecurityRoleIdentifier: 'SYSTEMUSER' } },
+            { method: 'GET', url: "SystemUsers('jdoe')" },
+        ]);
+
+        expect(groups.map(g => ({ changeSet: g.changeSet, ids: g.operations.map(o => o.contentId) }))).toEqual([
+            { changeSet: 'default', ids: ['1', '2'] },
+            { changeSet: null, ids: ['3'] },
+        ]);
+    });
+
+    it('should reject interrupted change sets and references outside the change set', () => {
+        expect(() => groupBatchOperations([
+            { method: 'POST', url: 'A', changeSet: 'x' },
+            { method: 'POST', url: 'B', changeSet: 'y' },
+            { method: 'POST', url: 'C', changeSet: 'x' },
+        ])).toThrow("Change set 'x' is interrupted");
+
+        expect(() => groupBatchOperations([
+            { method: 'POST', url: 'SalesOrderHeadersV2', changeSet: 'header' },
+            { method: 'POST', url: '$1/SalesOrderLines', changeSet: 'lines' },
+        ])).toThrow("Operation 2 references '$1'");
+    });
+});
+
+describe('buildBatchRequest', () => {
+    it('should build a multipart payload with change sets and Content-IDs', () => {
+        const { boundary, body } = buildBatchRequest(SERVICE_ROOT, [
+            { method: 'POST', url: 'SalesOrderHeadersV2', body: { dataAreaId: 'usmf' } },
+            { method: 'POST', url: '$1/SalesOrderLines', body: { ItemNumber: 'A0001' } },
+        ]);
+
+        expect(body.startsWith(`--${boundary}\r\nContent-Type: multipart/mixed; boundary=changeset_`)).toBe(true);
+        expect(body).toContain('Content-ID: 1\r\n\r\nPOST https://test.dynamics.com/data/SalesOrderHeadersV2 HTTP/1.1');
+        expect(body).toContain('Content-ID: 2\r\n\r\nPOST $1/SalesOrderLines HTTP/1.1');
+        expect(body).toContain('{"ItemNumber":"A0001"}');
+        expect(body.endsWith(`--${boundary}--\r\n`)).toBe(true);
+    });
+
+    it('should reject URLs that are not relative paths or could break the request line', () => {
+        for (const url of [
+            "SystemUsers('x') HTTP/1.1\r\nX-Injected: 1",
+            'CustomersV3\nGET /data/SystemUsers',
+            "CustomersV3(CustomerAccount='A B')",
+            'https://evil.example.com/data/CustomersV3',
+            '//evil.example.com/data/CustomersV3',
+        ]) {
+            expect(() => buildBatchRequest(SERVICE_ROOT, [{ method: 'DELETE', url }])).toThrow('is not a path relative to the service root');
+        }
+        expect(() => buildBatchRequest(SERVICE_ROOT, [{ method: 'GET', url: "CustomersV3(CustomerAccount='A%20B')?$select=Name" }])).not.toThrow();
+    });
+});
+
+describe('parseBatchResponse', () => {
+    const operations = [
+        { method: 'POST' as const, url: 'SystemUsers', body: { UserID: 'jdoe' } },
+        { method: 'POST' as const, url: 'SecurityUserRoleAssociations', body: { UserId: 'jdoe' } },
+        { method: 'GET' as const, url: 'SystemUsers' },
+    ];
+
+    it('should map change set responses back to their operations', () => {
+        const { groups } = buildBatchRequest(SERVICE_ROOT, operations);
+        const response = [
+            '--batchresponse_1',
+            'Content-Type: multipart/mixed; boundary=changesetresponse_1',
+            '',
+            '--changesetresponse_1',
+            'Content-Type: application/http',
+            'Content-Transfer-Encoding: binary',
+            'Content-ID: 2',
+            '',
+            'HTTP/1.1 201 Created',
+            'Content-Type: application/json',
+            '',
+            '{"UserId":"jdoe","SecurityRoleIdentifier":"SYSTEMUSER"}',
+            '--changesetresponse_1',
+            'Content-Type: application/http',
+            'Content-Transfer-Encoding: binary',
+            'Content-ID: 1',
+            '',
+            'HTTP/1.1 201 Created',
+            'Content-Type: application/json',
+            '',
+            '{"UserID":"jdoe"}',
+            '--changesetresponse_1--',
+            '--batchresponse_1',
+            'Content-Type: application/http',
+            'Content-Transfer-Encoding: binary',
+            '',
+            'HTTP/1.1 200 OK',
+            'Content-Type: application/json',
+            '',
+            '{"value":[]}',
+            '--batchresponse_1--',
+        ].join('\r\n');
+
+        const results = parseBatchResponse('multipart/mixed; boundary=batchresponse_1', response, groups);
+
+        expect(results.map(r => [r.contentId, r.status, r.ok])).toEqual([['1', 201, true], ['2', 201, true], ['3', 200, true]]);
+        expect(results[0].body).toEqual({ UserID: 'jdoe' });
+        expect(results[2].body).toEqual({ value: [] });
+    });
+
+    it('should report every operation of a failed change set as rolled back', () => {
+        const { groups } = buildBatchRequest(SERVICE_ROOT, operations.slice(0, 2));
+        const response = [
+            '--batchresponse_2',
+            'Content-Type: application/http',
+            'Content-Transfer-Encoding: binary',
+            '',
+            'HTTP/1.1 400 Bad Request',
+            'Content-Type: application/json',
+            '',
+            '{"error":{"message":"Role does not exist."}}',
+            '--batchresponse_2--',
+        ].join('\r\n');
+
+        const results = parseBatchResponse('multipart/mixed; boundary=batchresponse_2', response, groups);
+
+        expect(results).toHaveLength(2);
+        expect(results.every(r => r.status === 400 && !r.ok && r.rolledBack)).toBe(true);
+        expect(results[1].body).toEqual({ error: { message: 'Role does not exist.' } });
+    });
+});
@@ -0,0 +1,275 @@
+// src/batch.ts
+
+import { randomUUID } from 'node:crypto';
+
+const CRLF = '\r\n';
+
+export interface BatchOperation {
+    method: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+    // Path relative to the service root (/data), or a Content-ID reference such as '$1/SalesOrderLines'.
+    url: string;
+    body?: Record<string, unknown>;
+    // Content-ID of the operation. Defaults to its 1-based position in the batch.
+    id?: string;
+    // Writes that share a change set name are applied atomically.
+    changeSet?: string;
+}
+
+/**
+ * A contiguous group of operations that becomes one part of the batch: either a change set
+ * or a single request outside any change set.
+ */
+export interface BatchGroup {
+    changeSet: string | null;
+    operations: { index: number; contentId: string; operation: BatchOperation }[];
+}
+
+export interface BatchOperationResult {
+    index: number;
+    contentId: string;
+    method: BatchOperation['method'];
+    url: string;
+    status: number;
+    ok: boolean;
+    body: unknown;
+    // True when the operation did not fail itself but was undone because its change set failed.
+    rolledBack?: boolean;
+}
+
+export interface BatchRequest {
+    boundary: string;
+    body: string;
+    groups: BatchGroup[];
+}
+
+const DEFAULT_CHANGE_SET = 'default';
+
+/**
+ * A path relative to the service root: no scheme or `//` authority, and no whitespace or control characters,
+ * which would end the request line of the part and let the rest of the URL add headers or requests.
+ */
+export const RELATIVE_PATH_PATTERN = /^(?!\/\/)(?![a-z][a-z0-9+.-]*:)[^\s\x00-\x1f\x7f-\x9f]+$/i;
+
+/**
+ * Splits the ordered operations into change sets and standalone requests.
+ * Writes without an explicit change set share the default one, so a batch is atomic unless the caller says otherwise.
+ * @throws If a change set is split by other operations, or a GET is placed in a change set.
+ */
+export function groupBatchOperations(operations: BatchOperation[]): BatchGroup[] {
+    const groups: BatchGroup[] = [];
+    const closedChangeSets = new Set<string>();
+
+    operations.forEach((operation, index) => {
+        const contentId = operation.id ?? String(index + 1);
+        const last = groups[groups.length - 1];
+
+        if (operation.method === 'GET') {
+            if (operation.changeSet) {
+                throw new Error(`Operation ${index + 1} is a GET and cannot be part of change set '${operation.changeSet}'.`);
+            }
+            if (last?.changeSet) {
+                closedChangeSets.add(last.changeSet);
+            }
+            groups.push({ changeSet: null, operations: [{ index, contentId, operation }] });
+            return;
+        }
+
+        const changeSet = operation.changeSet ?? DEFAULT_CHANGE_SET;
+        if (last && last.changeSet === changeSet) {
+            last.operations.push({ index, contentId, operation });
+            return;
+        }
+        if (closedChangeSets.has(changeSet)) {
+            throw new Error(`Change set '${changeSet}' is interrupted by other operations. Operations of a change set must be consecutive.`);
+        }
+        if (last?.changeSet) {
+            closedChangeSets.add(last.changeSet);
+        }
+        groups.push({ changeSet, operations: [{ index, contentId, operation }] });
+    });
+
+    // Content-ID references are only resolvable inside the change set that defines them.
+    for (const group of groups) {
+        const seen = new Set<string>();
+        for (const { index, contentId, operation } of group.operations) {
+            const reference = /^\$([^/(]+)/.exec(operation.url);
+            if (reference && !seen.has(reference[1])) {
+                throw new Error(`Operation ${index + 1} references '$${reference[1]}', which is not an earlier operation in the same change set.`);
+            }
+            seen.add(contentId);
+        }
+    }
+
+    return groups;
+}
+
+function buildRequestPart(serviceRoot: string, method: string, url: string, body: Record<string, unknown> | undefined, contentId?: string): string {
+    if (!RELATIVE_PATH_PATTERN.test(url)) {
+        throw new Error(`'${url}' is not a path relative to the service root. Percent-encode spaces and other reserved characters.`);
+    }
+    // Content-ID references must stay relative so the service can substitute the created record's URL.
+    const target = url.startsWith('$') ? url : `${serviceRoot}/${url.replace(/^\//, '')}`;
+    const lines = [
+        'Content-Type: application/http',
+        'Content-Transfer-Encoding: binary',
+    ];
+    if (contentId) {
+        lines.push(`Content-ID: ${contentId}`);
+    }
+    lines.push('', `${method} ${target} HTTP/1.1`, 'Accept: application/json');
+    if (body) {
+        lines.push('Content-Type: application/json; type=entry', '', JSON.stringify(body));
+    } else {
+        lines.push('');
+    }
+    return lines.join(CRLF) + CRLF;
+}
+
+/**
+ * Builds a multipart/mixed $batch payload.
+ * @param serviceRoot The OData service root, e.g. 'https://contoso.operations.dynamics.com/data'.
+ * @param operations The operations in execution order.
+ * @returns The batch boundary, the payload and the grouping used to map responses back.
+ * @throws If an operation's URL is not a relative path, see RELATIVE_PATH_PATTERN.
+ */
+export function buildBatchRequest(serviceRoot: string, operations: BatchOperation[]): BatchRequest {
+    const groups = groupBatchOperations(operations);
+    const boundary = `batch_${randomUUID()}`;
+    let body = '';
+
+    for (const group of groups) {
+        body += `--${boundary}${CRLF}`;
+        if (!group.changeSet) {
+            const { operation } = group.operations[0];
+            body += buildRequestPart(serviceRoot, operation.method, operation.url, operation.body) + CRLF;
+            continue;
+        }
+
+        const changeSetBoundary = `changeset_${randomUUID()}`;
+        body += `Content-Type: multipart/mixed; boundary=${changeSetBoundary}${CRLF}${CRLF}`;
+        for (const { contentId, operation } of group.operations) {
+            body += `--${changeSetBoundary}${CRLF}`;
+            body += buildRequestPart(serviceRoot, operation.method, operation.url, operation.body, contentId) + CRLF;
+        }
+        body += `--${changeSetBoundary}--${CRLF}`;
+    }
+    body += `--${boundary}--${CRLF}`;
+
+    return { boundary, body, groups };
+}
+
+function getBoundary(contentType: string): string | null {
+    const match = /boundary=("?)([^";]+)\1/i.exec(contentType);
+    return match ? match[2] : null;
+}
+
+// Splits a multipart body into its parts, each still carrying its own headers.
+function splitMultipart(body: string, boundary: string): string[] {
+    const delimiter = `--${boundary}`;
+    return body
+        .split(delimiter)
+        .slice(1)
+        .filter(part => !part.startsWith('--'))
+        .map(part => part.replace(/^\r?\n/, '').replace(/\r?\n$/, ''));
+}
+
+// Splits a block of text into its header lines and the content after the first blank line.
+function splitHeaders(text: string): { headers: Record<string, string>; content: string } {
+    const match = /\r?\n\r?\n/.exec(text);
+    const headerText = match ? text.slice(0, match.index) : text;
+    const content = match ? text.slice(match.index + match[0].length) : '';
+    const headers: Record<string, string> = {};
+    for (const line of headerText.split(/\r?\n/)) {
+        const colon = line.indexOf(':');
+        if (colon > 0) {
+            headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+        }
+    }
+    return { headers, content };
+}
+
+interface ParsedResponse {
+    contentId: string | null;
+    status: number;
+    body: unknown;
+}
+
+// Parses one application/http part into its status and body.
+function parseResponsePart(part: string): ParsedResponse {
+    const { headers: partHeaders, content } = splitHeaders(part);
+    const statusLine = content.split(/\r?\n/, 1)[0];
+    const status = parseInt(statusLine.split(' ')[1], 10);
+    // Keep the line break after the status line so a response without headers still splits correctly.
+    const { content: rawBody } = splitHeaders(content.slice(statusLine.length));
+    const trimmed = rawBody.trim();
+
+    let body: unknown = trimmed || null;
+    try {
+        body = trimmed ? JSON.parse(trimmed) : null;
+    } catch {
+        // Non-JSON bodies are returned as text.
+    }
+
+    return { contentId: partHeaders['content-id'] ?? null, status, body };
+}
+
+/**
+ * Parses a $batch response and maps each response back to the operation that produced it.
+ * A change set that failed comes back as a single error response; every operation in it is
+ * reported with that error and flagged as rolled back.
+ * @param contentType The Content-Type header of the batch response, which carries the boundary.
+ * @param body The raw response body.
+ * @param groups The grouping returned by buildBatchRequest.
+ * @returns One result per operation, in the original order.
+ */
+export function parseBatchResponse(contentType: string, body: string, groups: BatchGroup[]): BatchOperationResult[] {
+    const boundary = getBoundary(contentType);
+    if (!boundary) {
+        throw new Error(`The $batch response is not multipart (Content-Type: ${contentType}).`);
+    }
+
+    const parts = splitMultipart(body, boundary);
+    const results: BatchOperationResult[] = [];
+
+    groups.forEach((group, groupIndex) => {
+        const part = parts[groupIndex];
+        const toResult = (entry: BatchGroup['operations'][number], response: ParsedResponse | null, rolledBack?: boolean): BatchOperationResult => ({
+            index: entry.index,
+            contentId: entry.contentId,
+            method: entry.operation.method,
+            url: entry.operation.url,
+            status: response?.status ?? 0,
+            ok: !rolledBack && !!response && response.status >= 200 && response.status < 300,
+            body: response?.body ?? 'No response was returned for this operation.',
+            ...(rolledBack && { rolledBack }),
+        });
+
+        if (part === undefined) {
+            group.operations.forEach(entry => results.push(toResult(entry, null, group.changeSet !== null)));
+            return;
+        }
+
+        const { headers, content } = splitHeaders(part);
+        const nestedBoundary = headers['content-type']?.startsWith('multipart/mixed') ? getBoundary(headers['content-type']) : null;
+
+        if (!nestedBoundary) {
+            const response = parseResponsePart(part);
+            if (group.operations.length === 1 && !group.changeSet) {
+                results.push(toResult(group.operations[0], response));
+                return;
+            }
+            // The whole change set failed and was rolled back.
+            const failed = response.status >= 400;
+            group.operations.forEach(entry => results.push(toResult(entry, response, failed)));
+            return;
+        }
+
+        const responses = splitMultipart(content, nestedBoundary).map(parseResponsePart);
+        group.operations.forEach((entry, position) => {
+            const response = responses.find(r => r.contentId === entry.contentId) ?? responses[position] ?? null;
+            results.push(toResult(entry, response));
+        });
+    });
+
+    return results.sort((a, b) => a.index - b.index);
+}
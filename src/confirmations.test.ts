@@ -0,0 +1,54 @@
+import { jest, describe, it, expect, afterEach } from '@jest/globals';
+import { ConfirmationStore } from './confirmations.js';
+
+const args = { entity: 'CustomersV3', record: { CustomerAccount: 'C-001', CreditLimit: 100 }, environment: 'dev' };
+
+describe('ConfirmationStore', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('redeems a token once for the same tool and arguments, in any key order', () => {
+        const store = new ConfirmationStore();
+        const { token } = store.issue('createRecord', args);
+
+        const reordered = { environment: 'dev', record: { CreditLimit: 100, CustomerAccount: 'C-001' }, entity: 'CustomersV3', confirmationToken: token };
+        expect(store.consume(token, 'createRecord', reordered)).toEqual({});
+        expect(store.consume(token, 'createRecord', reordered)).toBeNull();
+    });
+
+    it('rejects and discards a token presented for another tool, other arguments or another environment', () => {
+        const store = new ConfirmationStore();
+        for (const [toolName, presented] of [
+            ['updateRecord', args],
+            ['createRecord', { ...args, record: { ...args.record, CreditLimit: 1_000_000 } }],
+            ['createRecord', { ...args, environment: 'prod' }],
+        ] as const) {
+            const { token } = store.issue('createRecord', args);
+            expect(store.consume(token, toolName, presented)).toBeNull();
+            // The mismatch used the token up, so the planned call cannot redeem it either.
+            expect(store.consume(token, 'createRecord', args)).toBeNull();
+        }
+    });
+
+    it('expires tokens after the TTL', () => {
+        const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+        const store = new ConfirmationStore(60_000);
+        const { token, expiresAt } = store.issue('deleteRecord', args);
+        expect(expiresAt).toEqual(new Date(1_060_000));
+        const { token: later } = store.issue('deleteRecord', args);
+
+        now.mockReturnValue(1_059_999);
+        expect(store.consume(token, 'deleteRecord', args)).toEqual({});
+
+        now.mockReturnValue(1_060_000);
+        expect(store.consume(later, 'deleteRecord', args)).toBeNull();
+    });
+
+    it('hands back the ETag recorded with the plan', () => {
+        const store = new ConfirmationStore();
+        const { token } = store.issue('updateRecord', args, { etag: 'W/"42"' });
+
+        expect(store.consume(token, 'updateRecord', args)).toEqual({ etag: 'W/"42"' });
+    });
+});
@@ -0,0 +1,92 @@
+// src/confirmations.ts
+
+import { randomUUID } from 'node:crypto';
+
+// How long a confirmation token stays valid after the plan was issued.
+const DEFAULT_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * What a plan observed that its confirmed write depends on.
+ */
+export interface PlanState {
+    // The ETag of the record the plan was diffed against. The confirmed update is sent with it as If-Match.
+    etag?: string;
+}
+
+interface PendingConfirmation {
+    fingerprint: string;
+    expiresAt: number;
+    state: PlanState;
+}
+
+/**
+ * Serializes a value with object keys sorted, so that the same arguments always
+ * produce the same string regardless of property order.
+ */
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.keys(value as Record<string, unknown>)
+            .sort()
+            .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Tracks the short-lived confirmation tokens handed out with write plans for one MCP session.
+ * A token is bound to the tool name and the exact arguments of the plan and can be used once.
+ */
+export class ConfirmationStore {
+    private pending = new Map<string, PendingConfirmation>();
+
+    constructor(private readonly ttlMs: number = DEFAULT_TOKEN_TTL_MS) {}
+
+    /**
+     * Issues a new confirmation token for a planned write.
+     * @param toolName The name of the tool that produced the plan.
+     * @param args The tool arguments, excluding the confirmation token itself.
+     * @param state What the plan observed, handed back when the token is redeemed.
+     * @returns The token and the time at which it expires.
+     */
+    public issue(toolName: string, args: Record<string, unknown>, state: PlanState = {}): { token: string; expiresAt: Date } {
+        this.evictExpired();
+        const token = randomUUID();
+        const expiresAt = Date.now() + this.ttlMs;
+        this.pending.set(token, { fingerprint: this.fingerprint(toolName, args), expiresAt, state });
+        return { token, expiresAt: new Date(expiresAt) };
+    }
+
+    /**
+     * Redeems a confirmation token. The token is removed whether or not it matches,
+     * so a rejected token cannot be retried with different arguments.
+     * @returns The state recorded with the plan if the token was issued for this tool and these arguments
+     * and has not expired, otherwise null.
+     */
+    public consume(token: string, toolName: string, args: Record<string, unknown>): PlanState | null {
+        this.evictExpired();
+        const pending = this.pending.get(token);
+        if (!pending) {
+            return null;
+        }
+        this.pending.delete(token);
+        return pending.fingerprint === this.fingerprint(toolName, args) ? pending.state : null;
+    }
+
+    private fingerprint(toolName: string, args: Record<string, unknown>): string {
+        const { confirmationToken: _ignored, ...rest } = args;
+        return `${toolName}:${stableStringify(rest)}`;
+    }
+
+    private evictExpired(): void {
+        const now = Date.now();
+        for (const [token, pending] of this.pending) {
+            if (pending.expiresAt <= now) {
+                this.pending.delete(token);
+            }
+        }
+    }
+}
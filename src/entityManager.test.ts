@@ -0,0 +1,194 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { EntityManager, parseMetadata } from './entityManager.js';
+
+// Mock the global fetch function
+global.fetch = jest.fn();
+
+const METADATA_XML = `<?xml version="1.0" encoding="utf-8"?>
+<edmx:Edmx Version="4.0" xmlns:edmx="http://docs.oasis-open.org/odata/ns/edmx">
+  <edmx:DataServices>
+    <Schema Namespace="Microsoft.Dynamics.DataEntities" xmlns="http://docs.oasis-open.org/odata/ns/edm">
+      <EntityType Name="CustomerV3">
+        <Key><PropertyRef Name="dataAreaId" /><PropertyRef Name="CustomerAccount" /></Key>
+        <Property Name="dataAreaId" Type="Edm.String" Nullable="false" />
+        <Property Name="CustomerAccount" Type="Edm.String" Nullable="false" />
+        <Property Name="CreditLimit" Type="Edm.Decimal" />
+      </EntityType>
+      <EntityContainer Name="EntityContainer">
+        <EntitySet Name="CustomersV3" EntityType="Microsoft.Dynamics.DataEntities.CustomerV3" />
+      </EntityContainer>
+    </Schema>
+  </edmx:DataServices>
+</edmx:Edmx>`;
+
+function mockService(metadataStatus = 200) {
+    (global.fetch as jest.Mock).mockImplementation(async (input: unknown) => {
+        const url = String(input);
+        if (url.includes('/oauth2/token')) {
+            return { ok: true, json: async () => ({ access_token: 'token', expires_in: '3600' }) };
+        }
+        if (url.endsWith('/data/$metadata')) {
+            return {
+                ok: metadataStatus === 200,
+                status: metadataStatus,
+                statusText: metadataStatus === 200 ? 'OK' : 'Not Modified',
+                headers: new Headers({ ETag: 'W/"v1"' }),
+                text: async () => METADATA_XML,
+            };
+        }
+        return { ok: true, json: async () => ({ value: [{ name: 'CustomersV3', url: 'CustomersV3' }] }) };
+    });
+}
+
+function metadataCalls(): number {
+    return (global.fetch as jest.Mock).mock.calls.filter(([url]) => String(url).endsWith('/data/$metadata')).length;
+}
+
+describe('EntityManager metadata cache', () => {
+    let cacheDir: string;
+
+    beforeEach(async () => {
+        (global.fetch as jest.Mock).mockReset();
+        cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'entity-manager-test-'));
+        process.env.METADATA_CACHE_DIR = cacheDir;
+        process.env.METADATA_CACHE_TTL_HOURS = '24';
+        process.env.TENANT_ID = 'test-tenant';
+        process.env.CLIENT_ID = 'test-client';
+        process.env.CLIENT_SECRET = 'test-secret';
+        process.env.DYNAMICS_RESOURCE_URL = 'https://test.dynamics.com';
+    });
+
+    afterEach(async () => {
+        await fs.rm(cacheDir, { recursive: true, force: true });
+        delete process.env.METADATA_CACHE_DIR;
+        delete process.env.METADATA_CACHE_TTL_HOURS;
+    });
+
+    it('should parse $metadata once and serve later instances from the cache file', async () => {
+        mockService();
+
+        const first = new EntityManager();
+        const schema = await first.getEntitySchema('CustomersV3');
+        expect(schema?.fields.filter(f => f.isKey).map(f => f.name)).toEqual(['dataAreaId', 'CustomerAccount']);
+        expect(metadataCalls()).toBe(1);
+
+        const second = new EntityManager();
+        expect(await second.findBestMatch('customers')).toBe('CustomersV3');
+        expect(await second.getEntitySchema('CustomersV3')).toEqual(schema);
+        expect(second.getMetadataStatus()?.source).toBe('disk');
+        expect(metadataCalls()).toBe(1);
+    });
+
+    it('should fall back to a live fetch when the cache file is corrupt', async () => {
+        mockService();
+        const first = new EntityManager();
+        await first.getEntitySchema('CustomersV3');
+        const cacheFile = first.getMetadataStatus()!.cacheFile;
+        await fs.writeFile(cacheFile, '{ not json', 'utf8');
+
+        const second = new EntityManager();
+        const schema = await second.getEntitySchema('CustomersV3');
+        expect(schema?.name).toBe('CustomerV3');
+        expect(second.getMetadataStatus()?.source).toBe('live');
+        expect(metadataCalls()).toBe(2);
+    });
+
+    it('should revalidate an expired cache with the stored ETag', async () => {
+        mockService();
+        await new EntityManager().getEntitySchema('CustomersV3');
+
+        process.env.METADATA_CACHE_TTL_HOURS = '0';
+        (global.fetch as jest.Mock).mockClear();
+        mockService(304);
+        const manager = new EntityManager();
+        const schema = await manager.getEntitySchema('CustomersV3');
+
+        expect(schema?.name).toBe('CustomerV3');
+        expect(manager.getMetadataStatus()?.source).toBe('revalidated');
+        const conditionalCall = (global.fetch as jest.Mock).mock.calls.find(([url]) => String(url).endsWith('/data/$metadata'))!;
+        expect((conditionalCall[1] as RequestInit).headers).toMatchObject({ 'If-None-Match': 'W/"v1"' });
+    });
+
+    it('should throw from a failed refresh and keep the metadata already loaded', async () => {
+        mockService();
+        const manager = new EntityManager();
+        await manager.getEntitySchema('CustomersV3');
+
+        mockService(500);
+        await expect(manager.refreshMetadata()).rejects.toThrow('the metadata was not refreshed');
+        expect(manager.getMetadataStatus()?.source).toBe('live');
+        expect(await manager.getEntitySchema('CustomersV3')).not.toBeNull();
+    });
+
+    it('should not let a refresh join a load that is served from the cache', async () => {
+        mockService();
+        await new EntityManager().getEntitySchema('CustomersV3');
+        (global.fetch as jest.Mock).mockClear();
+
+        const manager = new EntityManager();
+        const [, status] = await Promise.all([manager.getEntitySchema('CustomersV3'), manager.refreshMetadata()]);
+
+        expect(status.source).toBe('live');
+        expect(metadataCalls()).toBe(1);
+    });
+});
+
+describe('parseMetadata', () => {
+    const richMetadata = `<?xml version="1.0" encoding="utf-8"?>
+<edmx:Edmx Version="4.0" xmlns:edmx="http://docs.oasis-open.org/odata/ns/edmx">
+  <edmx:DataServices>
+    <Schema Namespace="Microsoft.Dynamics.DataEntities" xmlns="http://docs.oasis-open.org/odata/ns/edm">
+      <EntityType Name="PurchaseOrderHeaderV2">
+        <Key><PropertyRef Name="dataAreaId" /><PropertyRef Name="PurchaseOrderNumber" /></Key>
+        <Property Name="dataAreaId" Type="Edm.String" Nullable="false" MaxLength="4" />
+        <Property Name="PurchaseOrderNumber" Type="Edm.String" Nullable="false" MaxLength="20" />
+        <Property Name="TotalDiscountPercentage" Type="Edm.Decimal" Precision="32" Scale="6" />
+        <Property Name="PurchaseOrderStatus" Type="Microsoft.Dynamics.DataEntities.PurchStatus" Nullable="false" />
+        <NavigationProperty Name="PurchaseOrderLines" Type="Collection(Microsoft.Dynamics.DataEntities.PurchaseOrderLineV2)" Partner="PurchaseOrderHeader" />
+      </EntityType>
+      <EnumType Name="PurchStatus">
+        <Member Name="None" Value="0" />
+        <Member Name="Backorder" Value="1" />
+      </EnumType>
+      <Action Name="Confirm" IsBound="true">
+        <Parameter Name="_this" Type="Microsoft.Dynamics.DataEntities.PurchaseOrderHeaderV2" />
+        <Parameter Name="comment" Type="Edm.String" />
+      </Action>
+      <Function Name="GetVersion" IsBound="false">
+        <ReturnType Type="Edm.String" />
+      </Function>
+      <EntityContainer Name="EntityContainer">
+        <EntitySet Name="PurchaseOrderHeadersV2" EntityType="Microsoft.Dynamics.DataEntities.PurchaseOrderHeaderV2" />
+      </EntityContainer>
+    </Schema>
+  </edmx:DataServices>
+</edmx:Edmx>`;
+
+    it('should keep facets, navigation properties, enums and operations', () => {
+        const parsed = parseMetadata(richMetadata)!;
+        const schema = parsed.schemaCache['Microsoft.Dynamics.DataEntities.PurchaseOrderHeaderV2'];
+
+        expect(schema.fields[0]).toEqual({ name: 'dataAreaId', type: 'Edm.String', isKey: true, nullable: false, maxLength: 4 });
+        expect(schema.fields[2]).toEqual({ name: 'TotalDiscountPercentage', type: 'Edm.Decimal', isKey: false, nullable: true, precision: 32, scale: 6 });
+        expect(schema.navigationProperties).toEqual([
+            { name: 'PurchaseOrderLines', targetType: 'Microsoft.Dynamics.DataEntities.PurchaseOrderLineV2', isCollection: true, partner: 'PurchaseOrderHeader' }
+        ]);
+        expect(parsed.enumTypes['Microsoft.Dynamics.DataEntities.PurchStatus'].members).toEqual([
+            { name: 'None', value: 0 },
+            { name: 'Backorder', value: 1 }
+        ]);
+        expect(schema.operations).toEqual([{
+            name: 'Confirm',
+            qualifiedName: 'Microsoft.Dynamics.DataEntities.Confirm',
+            kind: 'Action',
+            isBound: true,
+            bindingType: 'Microsoft.Dynamics.DataEntities.PurchaseOrderHeaderV2',
+            bindingIsCollection: false,
+            parameters: [{ name: 'comment', type: 'Edm.String', isCollection: false, nullable: true }]
+        }]);
+        expect(parsed.operations.find(o => o.name === 'GetVersion')).toMatchObject({ kind: 'Function', isBound: false, returnType: 'Edm.String' });
+    });
+});
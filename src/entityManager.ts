@@ -3,24 +3,104 @@
 import { AuthManager } from './auth.js';
 import Fuse from 'fuse.js';
 import { XMLParser } from 'fast-xml-parser';
+import { MetadataCache, MetadataSnapshot } from './metadataCache.js';
+import { logger } from './logger.js';
 
 // Threshold for fuzzy matching (0 = exact match, 1 = match anything)
 const FUZZY_THRESHOLD = 0.6;
 
-interface ODataEntity {
+export interface ODataEntity {
     name: string;
     url: string;
 }
 
-interface EntitySchema {
+export interface EntityField {
     name: string;
-    fields: {
-        name: string;
-        type: string;
-        isKey: boolean;
-    }[];
+    type: string;
+    isKey: boolean;
+    // Facets from $metadata. Absent when the property does not declare them.
+    nullable?: boolean;
+    maxLength?: number;
+    precision?: number;
+    scale?: number;
 }
 
+export interface NavigationProperty {
+    name: string;
+    // The full name of the target entity type, without any Collection() wrapper.
+    targetType: string;
+    isCollection: boolean;
+    partner?: string;
+}
+
+export interface EnumType {
+    // The full name, e.g. 'Microsoft.Dynamics.DataEntities.PurchStatus'.
+    name: string;
+    isFlags: boolean;
+    members: { name: string; value: number }[];
+}
+
+export interface OperationParameter {
+    name: string;
+    type: string;
+    isCollection: boolean;
+    nullable: boolean;
+}
+
+/**
+ * A bound or unbound Action or Function declared in $metadata.
+ */
+export interface ODataOperation {
+    name: string;
+    // The full name used in URLs, e.g. 'Microsoft.Dynamics.DataEntities.InitializeDataManagement'.
+    qualifiedName: string;
+    kind: 'Action' | 'Function';
+    isBound: boolean;
+    // The entity type the operation is bound to, and whether it binds to the collection or a single entity.
+    bindingType?: string;
+    bindingIsCollection?: boolean;
+    // The declared parameters, excluding the binding parameter.
+    parameters: OperationParameter[];
+    returnType?: string;
+}
+
+export interface EntitySchema {
+    name: string;
+    fields: EntityField[];
+    navigationProperties: NavigationProperty[];
+    // Actions and functions bound to this entity type or to collections of it.
+    operations: ODataOperation[];
+}
+
+/**
+ * The schema information extracted from a $metadata document.
+ */
+export interface ParsedSchemas {
+    schemaCache: Record<string, EntitySchema>;
+    entitySetToTypeMap: Record<string, string>;
+    enumTypes: Record<string, EnumType>;
+    operations: ODataOperation[];
+}
+
+/**
+ * Describes where the metadata currently held in memory came from.
+ * - `disk`: read from a cache file that was still within its TTL.
+ * - `revalidated`: read from an expired cache file that the service confirmed is unchanged.
+ * - `live`: downloaded and parsed from the service.
+ */
+export type MetadataSource = 'disk' | 'revalidated' | 'live';
+
+export interface MetadataStatus {
+    source: MetadataSource;
+    entityCount: number;
+    schemaCount: number;
+    cacheFile: string;
+}
+
+interface ParsedMetadata extends ParsedSchemas {
+    etag: string | null;
+    lastModified: string | null;
+}
 
 /**
  * Manages the list of OData entities, including fetching, caching, and matching.
@@ -31,8 +111,23 @@ export class EntityManager {
     private schemaCache: Record<string, EntitySchema> | null = null;
     // NEW: A map to link the entity set name to its type name.
     private entitySetToTypeMap: Record<string, string> | null = null;
-    private authManager = new AuthManager();
+    private enumTypes: Record<string, EnumType> = {};
+    private operations: ODataOperation[] = [];
     private fuse: Fuse<ODataEntity> | null = null;
+    private metadataCache: MetadataCache | null = null;
+    private status: MetadataStatus | null = null;
+    // Shared by concurrent callers so the metadata is only loaded once.
+    private loading: { promise: Promise<void>; forced: boolean } | null = null;
+
+    /**
+     * @param configuredUrl The environment URL. When omitted, DYNAMICS_RESOURCE_URL is read on first use.
+     * @param authManager The token source for this environment.
+     */
+    constructor(private readonly configuredUrl?: string, private readonly authManager: AuthManager = new AuthManager()) {}
+
+    private get resourceUrl(): string {
+        return this.configuredUrl ?? process.env.DYNAMICS_RESOURCE_URL ?? '';
+    }
 
     /**
      * Finds the best matching OData entity name for a given user query.
@@ -40,16 +135,9 @@ export class EntityManager {
      * @returns The corrected, official entity name or null if no good match is found.
      */
     public async findBestMatch(query: string): Promise<string | null> {
-        if (!this.entityCache) {
-            this.entityCache = await this.fetchEntityList(); 
-            this.fuse = new Fuse(this.entityCache, {
-                keys: ['name', 'url'],
-                threshold: FUZZY_THRESHOLD,
-                includeScore: true
-            });
-        }
+        await this.ensureMetadata();
 
-        if (!this.fuse || this.entityCache.length === 0) {
+        if (!this.fuse || !this.entityCache || this.entityCache.length === 0) {
             return null;
         }
 
@@ -61,20 +149,22 @@ export class EntityManager {
         return null;
     }
 
+    /**
+     * Returns every entity set published at the /data endpoint.
+     */
+    public async getEntities(): Promise<ODataEntity[]> {
+        await this.ensureMetadata();
+        return this.entityCache ?? [];
+    }
+
     /**
      * Retrieves the parsed schema for a specific entity.
      * @param entitySetName The public name of the entity set (e.g., 'PurchaseOrderHeadersV2').
      * @returns The parsed schema object, or null if not found.
      */
     public async getEntitySchema(entitySetName: string): Promise<EntitySchema | null> {
-        // If caches are empty, populate them by parsing the metadata.
-        if (!this.schemaCache || !this.entitySetToTypeMap) {
-            console.log('Caches are empty. Fetching and parsing $metadata for the first time...');
-            const { schemaCache, entitySetToTypeMap } = await this.fetchAndParseMetadata();
-            this.schemaCache = schemaCache;
-            this.entitySetToTypeMap = entitySetToTypeMap;
-        }
-        
+        await this.ensureMetadata();
+
         if (!this.entitySetToTypeMap || !this.schemaCache) {
             return null;
         }
@@ -82,7 +172,7 @@ export class EntityManager {
         // Step 1: Use the map to find the full entity type name.
         const entityTypeName = this.entitySetToTypeMap[entitySetName];
         if (!entityTypeName) {
-            console.error(`Could not find a type mapping for entity set '${entitySetName}'.`);
+            logger.error(`Could not find a type mapping for entity set '${entitySetName}'.`);
             return null;
         }
 
@@ -90,13 +180,158 @@ export class EntityManager {
         return this.schemaCache[entityTypeName] || null;
     }
 
+    /**
+     * Retrieves an enum type declared in $metadata.
+     * @param typeName The full type name, e.g. 'Microsoft.Dynamics.DataEntities.PurchStatus'.
+     * @returns The enum type with its members, or null if the type is not an enum.
+     */
+    public async getEnumType(typeName: string): Promise<EnumType | null> {
+        await this.ensureMetadata();
+        return this.enumTypes[typeName] || null;
+    }
+
+    /**
+     * Finds the entity set that exposes a given entity type, e.g. to turn a navigation target into a queryable name.
+     * @param typeName The full entity type name.
+     * @returns The entity set name, or null if the type is not exposed as an entity set.
+     */
+    public async getEntitySetForType(typeName: string): Promise<string | null> {
+        await this.ensureMetadata();
+        const entry = Object.entries(this.entitySetToTypeMap || {}).find(([, type]) => type === typeName);
+        return entry ? entry[0] : null;
+    }
+
+    /**
+     * Returns every action and function declared in $metadata, bound and unbound.
+     */
+    public async getOperations(): Promise<ODataOperation[]> {
+        await this.ensureMetadata();
+        return this.operations;
+    }
+
+    /**
+     * Reloads the metadata, bypassing both the in-memory and the on-disk cache.
+     * @returns Where the metadata came from and how much of it was parsed.
+     * @throws If $metadata could not be downloaded or parsed. The metadata already in memory is kept.
+     */
+    public async refreshMetadata(): Promise<MetadataStatus> {
+        await this.loadMetadata(true);
+        return this.status!;
+    }
+
+    /**
+     * Returns the state of the metadata cache without triggering a load.
+     */
+    public getMetadataStatus(): MetadataStatus | null {
+        return this.status;
+    }
+
+    /**
+     * Makes sure the metadata is in memory, loading it from disk or the service if needed.
+     * A failed load is not remembered, so the next call tries again.
+     */
+    private async ensureMetadata(): Promise<void> {
+        if (this.schemaCache && this.entityCache) {
+            return;
+        }
+        await this.loadMetadata(false);
+    }
+
+    private async loadMetadata(force: boolean): Promise<void> {
+        // A forced load may not join a normal one, which could be served from the cache; it runs after it instead.
+        if (this.loading && (this.loading.forced || !force)) {
+            return this.loading.promise;
+        }
+        const previous = this.loading?.promise.catch(() => undefined);
+        const promise: Promise<void> = (previous ?? Promise.resolve())
+            .then(() => this.loadMetadataOnce(force))
+            .finally(() => {
+                if (this.loading?.promise === promise) {
+                    this.loading = null;
+                }
+            });
+        this.loading = { promise, forced: force };
+        return promise;
+    }
+
+    private async loadMetadataOnce(force: boolean): Promise<void> {
+        const cache = this.getMetadataCache();
+        const cached = force ? null : await cache.load();
+
+        if (cached && !cache.isExpired(cached)) {
+            logger.info(`Loaded metadata from cache file ${cache.filePath}.`);
+            this.applySnapshot(cached.snapshot, 'disk');
+            return;
+        }
+
+        logger.info(cached ? 'Metadata cache has expired. Checking whether $metadata has changed...' : 'Caches are empty. Fetching and parsing $metadata for the first time...');
+        const parsed = await this.fetchAndParseMetadata(cached ? { etag: cached.etag, lastModified: cached.lastModified } : undefined);
+
+        if (parsed === 'not-modified' && cached) {
+            logger.info('$metadata has not changed since it was cached.');
+            await cache.save(cached.snapshot, { etag: cached.etag, lastModified: cached.lastModified });
+            this.applySnapshot(cached.snapshot, 'revalidated');
+            return;
+        }
+
+        if (parsed === null || parsed === 'not-modified') {
+            if (force) {
+                throw new Error('Failed to download or parse $metadata from the service, so the metadata was not refreshed. Check the server logs for details.');
+            }
+            // Fall back to a stale cache rather than serving no schemas at all.
+            if (cached) {
+                logger.warn('Could not refresh $metadata. Continuing with the expired cache.');
+                this.applySnapshot(cached.snapshot, 'disk');
+            }
+            return;
+        }
+
+        const entities = await this.fetchEntityList();
+        const snapshot: MetadataSnapshot = {
+            entities: entities.length > 0 ? entities : Object.keys(parsed.entitySetToTypeMap).map(name => ({ name, url: name })),
+            schemaCache: parsed.schemaCache,
+            entitySetToTypeMap: parsed.entitySetToTypeMap,
+            enumTypes: parsed.enumTypes,
+            operations: parsed.operations,
+        };
+        this.applySnapshot(snapshot, 'live');
+        await cache.save(snapshot, { etag: parsed.etag, lastModified: parsed.lastModified });
+    }
+
+    private applySnapshot(snapshot: MetadataSnapshot, source: MetadataSource): void {
+        this.entityCache = snapshot.entities;
+        this.schemaCache = snapshot.schemaCache;
+        this.entitySetToTypeMap = snapshot.entitySetToTypeMap;
+        this.enumTypes = snapshot.enumTypes;
+        this.operations = snapshot.operations;
+        this.fuse = new Fuse(this.entityCache, {
+            keys: ['name', 'url'],
+            threshold: FUZZY_THRESHOLD,
+            includeScore: true
+        });
+        this.status = {
+            source,
+            entityCount: snapshot.entities.length,
+            schemaCount: Object.keys(snapshot.schemaCache).length,
+            cacheFile: this.getMetadataCache().filePath,
+        };
+    }
+
+    private getMetadataCache(): MetadataCache {
+        // Created lazily because the environment may not be loaded yet when this class is constructed.
+        if (!this.metadataCache) {
+            this.metadataCache = new MetadataCache(this.resourceUrl);
+        }
+        return this.metadataCache;
+    }
+
     /**
      * Fetches the list of all OData entities from the /data endpoint.
      */
     private async fetchEntityList(): Promise<ODataEntity[]> {
-        console.log('Fetching OData entity list for the first time...');
+        logger.info('Fetching OData entity list...');
         const token = await this.authManager.getAuthToken();
-        const url = `${process.env.DYNAMICS_RESOURCE_URL}/data`;
+        const url = `${this.resourceUrl}/data`;
 
         try {
             const response = await fetch(url, {
@@ -113,93 +348,193 @@ export class EntityManager {
                 url: entity.url
             }));
         } catch (error) {
-            console.error("Error fetching entity list:", error);
+            logger.error("Error fetching entity list:", error);
             return [];
         }
     }
     
     /**
-     * Fetches the full OData $metadata, parses it, and builds caches.
-     * @returns An object containing the schema cache and the entity set map.
+     * Fetches the full OData $metadata and parses it.
+     * @param validators The ETag and Last-Modified values of a cached copy, sent as a conditional request.
+     * @returns The parsed metadata, 'not-modified' if the cached copy is still current, or null on failure.
      */
-    private async fetchAndParseMetadata(): Promise<{ schemaCache: Record<string, EntitySchema>, entitySetToTypeMap: Record<string, string> }> {
+    private async fetchAndParseMetadata(validators?: { etag: string | null; lastModified: string | null }): Promise<ParsedMetadata | 'not-modified' | null> {
         const token = await this.authManager.getAuthToken();
-        const url = `${process.env.DYNAMICS_RESOURCE_URL}/data/$metadata`;
-        console.log(`Fetching full metadata from ${url}`);
+        const url = `${this.resourceUrl}/data/$metadata`;
+        logger.info(`Fetching full metadata from ${url}`);
 
-        const emptyResult = { schemaCache: {}, entitySetToTypeMap: {} };
+        const headers: Record<string, string> = { 'Authorization': `Bearer ${token}` };
+        if (validators?.etag) headers['If-None-Match'] = validators.etag;
+        if (validators?.lastModified) headers['If-Modified-Since'] = validators.lastModified;
 
         try {
             const response = await fetch(url, {
                 method: 'GET',
-                headers: { 'Authorization': `Bearer ${token}` }
+                headers
             });
 
+            if (response.status === 304) {
+                return 'not-modified';
+            }
+
             if (!response.ok) {
                 throw new Error(`Failed to fetch $metadata: ${response.statusText}`);
             }
 
             const xmlData = await response.text();
-            const parser = new XMLParser({
-                ignoreAttributes: false,
-                attributeNamePrefix: "@_"
-            });
-            const jsonObj = parser.parse(xmlData);
-
-            const schemaCache: Record<string, EntitySchema> = {};
-            const entitySetToTypeMap: Record<string, string> = {};
-            const dataServices = jsonObj['edmx:Edmx']?.['edmx:DataServices'];
-            
-            if (!dataServices || !dataServices.Schema) {
-                console.error("Could not find 'DataServices.Schema' in the parsed metadata object.");
-                return emptyResult;
-            }
+            const parsed = parseMetadata(xmlData);
 
-            const schemas = Array.isArray(dataServices.Schema) ? dataServices.Schema : [dataServices.Schema];
-
-            for (const schema of schemas) {
-                const schemaNamespace = schema['@_Namespace'];
-
-                // --- Process Entity Types ---
-                if (schema.EntityType) {
-                    const entityTypes = Array.isArray(schema.EntityType) ? schema.EntityType : [schema.EntityType];
-                    for (const entity of entityTypes) {
-                        const entityName = entity['@_Name'];
-                        const fullTypeName = `${schemaNamespace}.${entityName}`;
-                        const fields: { name: string; type: string; isKey: boolean; }[] = [];
-                        
-                        const rawPropertyRefs = entity.Key?.PropertyRef;
-                        const keys = rawPropertyRefs ? (Array.isArray(rawPropertyRefs) ? rawPropertyRefs : [rawPropertyRefs]).map((pr: any) => pr['@_Name']) : [];
-                        const properties = entity.Property ? (Array.isArray(entity.Property) ? entity.Property : [entity.Property]) : [];
-
-                        for (const prop of properties) {
-                            fields.push({
-                                name: prop['@_Name'],
-                                type: prop['@_Type'],
-                                isKey: keys.includes(prop['@_Name'])
-                            });
-                        }
-                        schemaCache[fullTypeName] = { name: entityName, fields };
-                    }
-                }
-                
-                // --- Process the Entity Container to build the map ---
-                if (schema.EntityContainer) {
-                    const entitySets = Array.isArray(schema.EntityContainer.EntitySet) ? schema.EntityContainer.EntitySet : [schema.EntityContainer.EntitySet];
-                    for (const entitySet of entitySets) {
-                        const setName = entitySet['@_Name'];
-                        const typeName = entitySet['@_EntityType'];
-                        entitySetToTypeMap[setName] = typeName;
-                    }
-                }
+            if (!parsed) {
+                logger.error("Could not find 'DataServices.Schema' in the parsed metadata object.");
+                return null;
             }
 
-            console.log(`Successfully parsed metadata. Found ${Object.keys(schemaCache).length} schema types and ${Object.keys(entitySetToTypeMap).length} entity sets.`);
-            return { schemaCache, entitySetToTypeMap };
+            logger.info(`Successfully parsed metadata. Found ${Object.keys(parsed.schemaCache).length} schema types, ${Object.keys(parsed.entitySetToTypeMap).length} entity sets, ${Object.keys(parsed.enumTypes).length} enum types and ${parsed.operations.length} actions/functions.`);
+            return {
+                ...parsed,
+                etag: response.headers.get('ETag'),
+                lastModified: response.headers.get('Last-Modified'),
+            };
 
         } catch (error) {
-            console.error("Error fetching or parsing $metadata:", error);
-            return emptyResult;
+            logger.error("Error fetching or parsing $metadata:", error);
+            return null;
+        }
+    }
+}
+
+// The XML parser returns a single object instead of an array when an element occurs once.
+function toArray<T = any>(value: T | T[] | undefined): T[] {
+    if (value === undefined || value === null) {
+        return [];
+    }
+    return Array.isArray(value) ? value : [value];
+}
+
+function toNumber(value: string | undefined): number | undefined {
+    const parsed = value === undefined ? NaN : parseInt(value, 10);
+    return isNaN(parsed) ? undefined : parsed;
+}
+
+// Splits 'Collection(NS.Type)' into its element type and a collection flag.
+function unwrapCollection(type: string): { type: string; isCollection: boolean } {
+    const match = /^Collection\((.+)\)$/.exec(type);
+    return match ? { type: match[1], isCollection: true } : { type, isCollection: false };
+}
+
+/**
+ * Parses a $metadata (CSDL) document into entity schemas, the entity set map, enum types and operations.
+ * @param xmlData The raw $metadata XML.
+ * @returns The parsed schemas, or null if the document has no DataServices.Schema element.
+ */
+export function parseMetadata(xmlData: string): ParsedSchemas | null {
+    const parser = new XMLParser({
+        ignoreAttributes: false,
+        attributeNamePrefix: "@_"
+    });
+    const jsonObj = parser.parse(xmlData);
+
+    const schemaCache: Record<string, EntitySchema> = {};
+    const entitySetToTypeMap: Record<string, string> = {};
+    const enumTypes: Record<string, EnumType> = {};
+    const operations: ODataOperation[] = [];
+    const dataServices = jsonObj['edmx:Edmx']?.['edmx:DataServices'];
+
+    if (!dataServices || !dataServices.Schema) {
+        return null;
+    }
+
+    for (const schema of toArray(dataServices.Schema)) {
+        const schemaNamespace = schema['@_Namespace'];
+
+        // --- Process Entity Types ---
+        for (const entity of toArray(schema.EntityType)) {
+            const entityName = entity['@_Name'];
+            const fullTypeName = `${schemaNamespace}.${entityName}`;
+            const keys = toArray(entity.Key?.PropertyRef).map((pr: any) => pr['@_Name']);
+
+            const fields: EntityField[] = toArray(entity.Property).map((prop: any) => {
+                const field: EntityField = {
+                    name: prop['@_Name'],
+                    type: prop['@_Type'],
+                    isKey: keys.includes(prop['@_Name']),
+                    // Properties are nullable unless Nullable="false" is declared.
+                    nullable: prop['@_Nullable'] !== 'false',
+                };
+                const maxLength = toNumber(prop['@_MaxLength']);
+                const precision = toNumber(prop['@_Precision']);
+                const scale = toNumber(prop['@_Scale']);
+                if (maxLength !== undefined) field.maxLength = maxLength;
+                if (precision !== undefined) field.precision = precision;
+                if (scale !== undefined) field.scale = scale;
+                return field;
+            });
+
+            const navigationProperties: NavigationProperty[] = toArray(entity.NavigationProperty).map((nav: any) => {
+                const { type, isCollection } = unwrapCollection(nav['@_Type']);
+                return {
+                    name: nav['@_Name'],
+                    targetType: type,
+                    isCollection,
+                    ...(nav['@_Partner'] && { partner: nav['@_Partner'] }),
+                };
+            });
+
+            schemaCache[fullTypeName] = { name: entityName, fields, navigationProperties, operations: [] };
+        }
+
+        // --- Process Enum Types ---
+        for (const enumType of toArray(schema.EnumType)) {
+            const fullName = `${schemaNamespace}.${enumType['@_Name']}`;
+            enumTypes[fullName] = {
+                name: fullName,
+                isFlags: enumType['@_IsFlags'] === 'true',
+                members: toArray(enumType.Member).map((member: any, index: number) => ({
+                    name: member['@_Name'],
+                    value: toNumber(member['@_Value']) ?? index,
+                })),
+            };
+        }
+
+        // --- Process Actions and Functions ---
+        for (const kind of ['Action', 'Function'] as const) {
+            for (const operation of toArray(schema[kind])) {
+                const isBound = operation['@_IsBound'] === 'true';
+                const rawParameters = toArray(operation.Parameter).map((param: any) => {
+                    const { type, isCollection } = unwrapCollection(param['@_Type']);
+                    return { name: param['@_Name'], type, isCollection, nullable: param['@_Nullable'] !== 'false' };
+                });
+                // For bound operations, the first parameter is the binding parameter.
+                const bindingParameter = isBound ? rawParameters.shift() : undefined;
+
+                operations.push({
+                    name: operation['@_Name'],
+                    qualifiedName: `${schemaNamespace}.${operation['@_Name']}`,
+                    kind,
+                    isBound,
+                    ...(bindingParameter && { bindingType: bindingParameter.type, bindingIsCollection: bindingParameter.isCollection }),
+                    parameters: rawParameters,
+                    ...(operation.ReturnType?.['@_Type'] && { returnType: operation.ReturnType['@_Type'] }),
+                });
+            }
+        }
+
+        // --- Process the Entity Container to build the map ---
+        if (schema.EntityContainer) {
+            for (const entitySet of toArray(schema.EntityContainer.EntitySet)) {
+                const setName = entitySet['@_Name'];
+                const typeName = entitySet['@_EntityType'];
+                entitySetToTypeMap[setName] = typeName;
+            }
+        }
+    }
+
+    // Attach bound operations to the entity types they are bound to.
+    for (const operation of operations) {
+        if (operation.bindingType && schemaCache[operation.bindingType]) {
+            schemaCache[operation.bindingType].operations.push(operation);
         }
     }
-}
\ No newline at end of file
+
+    return { schemaCache, entitySetToTypeMap, enumTypes, operations };
+}
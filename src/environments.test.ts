@@ -0,0 +1,89 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { EnvironmentRegistry, readEnvironmentConfigs } from './environments.js';
+
+const baseEnv = {
+    TENANT_ID: 'tenant',
+    CLIENT_ID: 'global-client',
+    CLIENT_SECRET: 'global-secret',
+};
+
+describe('readEnvironmentConfigs', () => {
+    it('falls back to a single default environment from DYNAMICS_RESOURCE_URL', () => {
+        const configs = readEnvironmentConfigs({ ...baseEnv, DYNAMICS_RESOURCE_URL: 'https://contoso.operations.dynamics.com/', DYNAMICS_READ_ONLY: 'true' });
+
+        expect(configs).toHaveLength(1);
+        expect(configs[0]).toMatchObject({ name: 'default', resourceUrl: 'https://contoso.operations.dynamics.com', readOnly: true });
+        expect(configs[0].auth.clientId).toBe('global-client');
+    });
+
+    it('merges per-environment auth overrides into the global settings', () => {
+        const configs = readEnvironmentConfigs({
+            ...baseEnv,
+            D365_ENVIRONMENTS: JSON.stringify([
+                { name: 'dev', resourceUrl: 'https://dev.operations.dynamics.com' },
+                { name: 'prod', resourceUrl: 'https://prod.operations.dynamics.com/', readOnly: true, auth: { clientId: 'prod-client', clientSecret: 'prod-secret' } },
+            ]),
+        });
+
+        expect(configs.map(c => c.name)).toEqual(['dev', 'prod']);
+        expect(configs[0].auth).toMatchObject({ clientId: 'global-client', resourceUrl: 'https://dev.operations.dynamics.com' });
+        expect(configs[1]).toMatchObject({ readOnly: true, resourceUrl: 'https://prod.operations.dynamics.com' });
+        expect(configs[1].auth).toMatchObject({ clientId: 'prod-client', clientSecret: 'prod-secret', tenantId: 'tenant', resourceUrl: 'https://prod.operations.dynamics.com' });
+    });
+
+    it('uses the v2 endpoint when an environment switches to certificate authentication', () => {
+        const [config] = readEnvironmentConfigs({
+            ...baseEnv,
+            D365_ENVIRONMENTS: JSON.stringify([{ name: 'uat', resourceUrl: 'https://uat.operations.dynamics.com', auth: { mode: 'certificate', certificatePath: '/certs/uat.pem' } }]),
+        });
+
+        expect(config.auth).toMatchObject({ mode: 'certificate', endpointVersion: 'v2' });
+    });
+
+    it('rejects malformed registries', () => {
+        expect(() => readEnvironmentConfigs({ ...baseEnv, D365_ENVIRONMENTS: 'not json' })).toThrow('must be a JSON array');
+        expect(() => readEnvironmentConfigs({ ...baseEnv, D365_ENVIRONMENTS: '[]' })).toThrow('at least one environment');
+        expect(() => readEnvironmentConfigs({ ...baseEnv, D365_ENVIRONMENTS: '[{"name":"dev"}]' })).toThrow('needs a name and a resourceUrl');
+        expect(() => readEnvironmentConfigs({
+            ...baseEnv,
+            D365_ENVIRONMENTS: JSON.stringify([{ name: 'dev', resourceUrl: 'https://a' }, { name: 'DEV', resourceUrl: 'https://b' }]),
+        })).toThrow("Environment 'DEV' is defined more than once.");
+    });
+});
+
+describe('EnvironmentRegistry', () => {
+    const configs = readEnvironmentConfigs({
+        ...baseEnv,
+        D365_ENVIRONMENTS: JSON.stringify([
+            { name: 'dev', resourceUrl: 'https://dev.operations.dynamics.com' },
+            { name: 'prod', resourceUrl: 'https://prod.operations.dynamics.com', readOnly: true },
+        ]),
+    });
+
+    afterEach(() => {
+        delete process.env.D365_DEFAULT_ENVIRONMENT;
+    });
+
+    it('defaults to the first environment unless D365_DEFAULT_ENVIRONMENT names another', () => {
+        const registry = new EnvironmentRegistry(configs);
+        expect(registry.get().name).toBe('dev');
+
+        process.env.D365_DEFAULT_ENVIRONMENT = 'Prod';
+        expect(registry.get().name).toBe('prod');
+    });
+
+    it('finds environments case-insensitively and keeps one set of managers per environment', () => {
+        const registry = new EnvironmentRegistry(configs);
+        const prod = registry.get('PROD');
+
+        expect(prod).toMatchObject({ name: 'prod', readOnly: true, resourceUrl: 'https://prod.operations.dynamics.com' });
+        expect(registry.get('prod')).toBe(prod);
+        expect(registry.get('dev').authManager).not.toBe(prod.authManager);
+        expect(registry.get('dev').entityManager).not.toBe(prod.entityManager);
+    });
+
+    it('names the configured environments when asked for an unknown one', () => {
+        const registry = new EnvironmentRegistry(configs);
+        expect(() => registry.get('test')).toThrow("Unknown environment 'test'. Configured environments: dev, prod.");
+    });
+});
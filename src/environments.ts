@@ -0,0 +1,164 @@
+// src/environments.ts
+
+import { readFileSync } from 'node:fs';
+import { AuthConfig, AuthManager, readAuthConfig } from './auth.js';
+import { EntityManager, MetadataStatus } from './entityManager.js';
+
+// The name of the environment configured through DYNAMICS_RESOURCE_URL alone.
+export const DEFAULT_ENVIRONMENT_NAME = 'default';
+
+/**
+ * One Dynamics 365 environment as configured.
+ */
+export interface EnvironmentConfig {
+    name: string;
+    resourceUrl: string;
+    // Write tools refuse to run against a read-only environment.
+    readOnly: boolean;
+    auth: AuthConfig;
+}
+
+/**
+ * A configured environment with its own token and metadata caches.
+ */
+export interface Environment {
+    name: string;
+    resourceUrl: string;
+    readOnly: boolean;
+    authManager: AuthManager;
+    entityManager: EntityManager;
+}
+
+interface EnvironmentEntry {
+    name?: string;
+    resourceUrl?: string;
+    readOnly?: boolean;
+    // Overrides of the global authentication settings, e.g. a different clientId and clientSecret.
+    auth?: Partial<AuthConfig>;
+}
+
+/**
+ * Reads the environment registry. Environments are listed as a JSON array in D365_ENVIRONMENTS
+ * or in the file named by D365_ENVIRONMENTS_FILE; authentication settings an entry leaves out
+ * are taken from the global variables (AUTH_MODE, TENANT_ID, CLIENT_ID, ...). Without either
+ * variable, DYNAMICS_RESOURCE_URL is the only environment.
+ * @throws If the registry is malformed, so a misconfigured server does not start.
+ */
+export function readEnvironmentConfigs(env: NodeJS.ProcessEnv = process.env): EnvironmentConfig[] {
+    const globalAuth = readAuthConfig(env);
+    const raw = env.D365_ENVIRONMENTS || (env.D365_ENVIRONMENTS_FILE ? readFileSync(env.D365_ENVIRONMENTS_FILE, 'utf8') : '');
+
+    if (!raw) {
+        return [{
+            name: DEFAULT_ENVIRONMENT_NAME,
+            resourceUrl: (env.DYNAMICS_RESOURCE_URL || '').replace(/\/+$/, ''),
+            readOnly: env.DYNAMICS_READ_ONLY === 'true',
+            auth: globalAuth,
+        }];
+    }
+
+    let entries: EnvironmentEntry[];
+    try {
+        entries = JSON.parse(raw);
+    } catch {
+        throw new Error('D365_ENVIRONMENTS must be a JSON array of { "name", "resourceUrl", "readOnly", "auth" } entries.');
+    }
+    if (!Array.isArray(entries) || entries.length === 0) {
+        throw new Error('D365_ENVIRONMENTS must list at least one environment.');
+    }
+
+    const seen = new Set<string>();
+    return entries.map(entry => {
+        if (!entry.name || !entry.resourceUrl) {
+            throw new Error('Every environment in D365_ENVIRONMENTS needs a name and a resourceUrl.');
+        }
+        if (seen.has(entry.name.toLowerCase())) {
+            throw new Error(`Environment '${entry.name}' is defined more than once.`);
+        }
+        seen.add(entry.name.toLowerCase());
+
+        const resourceUrl = entry.resourceUrl.replace(/\/+$/, '');
+        const auth: AuthConfig = { ...globalAuth, ...entry.auth, resourceUrl };
+        // A per-environment mode change implies the endpoint the mode needs, unless it is set explicitly.
+        if (entry.auth?.mode && !entry.auth.endpointVersion) {
+            auth.endpointVersion = auth.mode === 'certificate' || auth.mode === 'workload_identity' ? 'v2' : globalAuth.endpointVersion;
+        }
+        return { name: entry.name, resourceUrl, readOnly: entry.readOnly === true, auth };
+    });
+}
+
+/**
+ * Holds the configured environments and creates their token and metadata managers on first use.
+ * The configuration is read lazily, so values loaded by dotenv after module initialization are picked up.
+ */
+export class EnvironmentRegistry {
+    private configs: EnvironmentConfig[] | null;
+    private environments = new Map<string, Environment>();
+
+    constructor(configs?: EnvironmentConfig[]) {
+        this.configs = configs ?? null;
+    }
+
+    /**
+     * The environment used when neither the tool call nor the session names one:
+     * D365_DEFAULT_ENVIRONMENT, or the first environment in the registry.
+     */
+    public get defaultName(): string {
+        const configured = process.env.D365_DEFAULT_ENVIRONMENT;
+        const configs = this.getConfigs();
+        return configs.find(c => c.name.toLowerCase() === configured?.toLowerCase())?.name ?? configs[0].name;
+    }
+
+    public list(): EnvironmentConfig[] {
+        return this.getConfigs();
+    }
+
+    /**
+     * Looks up an environment by name, case-insensitively.
+     * @param name The environment name. Defaults to the registry's default environment.
+     * @throws If no environment has that name.
+     */
+    public get(name?: string): Environment {
+        const wanted = name ?? this.defaultName;
+        const config = this.getConfigs().find(c => c.name.toLowerCase() === wanted.toLowerCase());
+        if (!config) {
+            throw new Error(`Unknown environment '${wanted}'. Configured environments: ${this.getConfigs().map(c => c.name).join(', ')}.`);
+        }
+
+        let environment = this.environments.get(config.name);
+        if (!environment) {
+            const authManager = new AuthManager(config.auth);
+            environment = {
+                name: config.name,
+                resourceUrl: config.resourceUrl,
+                readOnly: config.readOnly,
+                authManager,
+                entityManager: new EntityManager(config.resourceUrl, authManager),
+            };
+            this.environments.set(config.name, environment);
+        }
+        return environment;
+    }
+
+    /**
+     * Reports the metadata cache of every environment without loading anything.
+     * Environments no session has used yet report a null cache.
+     */
+    public status(): { name: string; readOnly: boolean; metadata: Omit<MetadataStatus, 'cacheFile'> | null }[] {
+        return this.getConfigs().map(config => {
+            const metadata = this.environments.get(config.name)?.entityManager.getMetadataStatus() ?? null;
+            return {
+                name: config.name,
+                readOnly: config.readOnly,
+                metadata: metadata && { source: metadata.source, entityCount: metadata.entityCount, schemaCount: metadata.schemaCount },
+            };
+        });
+    }
+
+    private getConfigs(): EnvironmentConfig[] {
+        if (!this.configs) {
+            this.configs = readEnvironmentConfigs();
+        }
+        return this.configs;
+    }
+}
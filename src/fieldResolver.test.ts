@@ -0,0 +1,78 @@
+import { describe, it, expect } from '@jest/globals';
+import { EntitySchema } from './entityManager.js';
+import { FieldResolver, resolveExpand, resolveOrderBy, resolveSelect } from './fieldResolver.js';
+
+const salesOrders = {
+    name: 'SalesOrderHeaderV2',
+    fields: [
+        { name: 'dataAreaId', type: 'Edm.String', isKey: true },
+        { name: 'SalesOrderNumber', type: 'Edm.String', isKey: true },
+        { name: 'CustomerName', type: 'Edm.String', isKey: false },
+        { name: 'CustomerAccount', type: 'Edm.String', isKey: false },
+        { name: 'SalesOrderStatus', type: 'Microsoft.Dynamics.DataEntities.SalesStatus', isKey: false },
+        { name: 'TotalAmount', type: 'Edm.Decimal', isKey: false },
+        { name: 'LineAmount', type: 'Edm.Decimal', isKey: false },
+        { name: 'CreditLimit', type: 'Edm.Decimal', isKey: false },
+        { name: 'RequestedShippingDate', type: 'Edm.DateTimeOffset', isKey: false },
+    ],
+    navigationProperties: [
+        { name: 'SalesOrderLines', targetType: 'Microsoft.Dynamics.DataEntities.SalesOrderLine', isCollection: true },
+        { name: 'Customer', targetType: 'Microsoft.Dynamics.DataEntities.CustomerV3', isCollection: false },
+    ],
+    operations: [],
+} as unknown as EntitySchema;
+
+describe('FieldResolver', () => {
+    it('matches exact names regardless of case without recording a correction', () => {
+        const resolver = new FieldResolver(salesOrders);
+        expect(resolver.resolveField('salesorderstatus').name).toBe('SalesOrderStatus');
+        expect(resolver.corrections).toEqual([]);
+    });
+
+    it('corrects spaced, snake-cased and misspelled names', () => {
+        const resolver = new FieldResolver(salesOrders);
+        expect(resolver.resolveField('credit limit').name).toBe('CreditLimit');
+        expect(resolver.resolveField('customer_account').name).toBe('CustomerAccount');
+        expect(resolver.resolveField('creditlimt').name).toBe('CreditLimit');
+        expect(resolver.resolveField('shipping date').name).toBe('RequestedShippingDate');
+        expect(resolver.corrections).toEqual([
+            { requested: 'credit limit', resolved: 'CreditLimit' },
+            { requested: 'customer_account', resolved: 'CustomerAccount' },
+            { requested: 'creditlimt', resolved: 'CreditLimit' },
+            { requested: 'shipping date', resolved: 'RequestedShippingDate' },
+        ]);
+    });
+
+    it('rejects ambiguous names with the candidates', () => {
+        expect(() => new FieldResolver(salesOrders).resolveField('amount'))
+            .toThrow("Field 'amount' is ambiguous on 'SalesOrderHeaderV2': it could be 'TotalAmount' or 'LineAmount'.");
+    });
+
+    it('rejects unknown names with suggestions when there are close fields', () => {
+        expect(() => new FieldResolver(salesOrders).resolveField('custname'))
+            .toThrow("Field 'custname' does not exist on 'SalesOrderHeaderV2'. Did you mean 'CustomerName' or 'CustomerAccount'?");
+        expect(() => new FieldResolver(salesOrders).resolveField('xyz'))
+            .toThrow("Field 'xyz' does not exist on 'SalesOrderHeaderV2'. Call describeEntity to list its fields.");
+    });
+});
+
+describe('resolveSelect, resolveOrderBy and resolveExpand', () => {
+    it('resolves every item of a $select list', () => {
+        const resolver = new FieldResolver(salesOrders);
+        expect(resolveSelect(resolver, 'salesordernumber, customer name,*')).toBe('SalesOrderNumber,CustomerName,*');
+    });
+
+    it('resolves $orderby fields and normalizes their directions', () => {
+        const resolver = new FieldResolver(salesOrders);
+        expect(resolveOrderBy(resolver, 'requested shipping date DESC, salesordernumber')).toBe('RequestedShippingDate desc,SalesOrderNumber');
+        expect(resolver.corrections).toEqual([{ requested: 'requested shipping date', resolved: 'RequestedShippingDate' }]);
+        expect(() => resolveOrderBy(resolver, 'amount desc')).toThrow("Field 'amount' is ambiguous");
+    });
+
+    it('resolves navigation properties and keeps nested options', () => {
+        const resolver = new FieldResolver(salesOrders);
+        expect(resolveExpand(resolver, 'sales order lines($select=ItemNumber,LineAmount),customer'))
+            .toBe('SalesOrderLines($select=ItemNumber,LineAmount),Customer');
+        expect(() => resolveExpand(resolver, 'Invoices')).toThrow("Navigation property 'Invoices' does not exist on 'SalesOrderHeaderV2'.");
+    });
+});
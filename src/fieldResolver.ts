@@ -0,0 +1,180 @@
+// src/fieldResolver.ts
+
+import Fuse from 'fuse.js';
+import { EntityField, EntitySchema, NavigationProperty } from './entityManager.js';
+
+// A fuzzy match at or below this score is taken as the field the caller meant.
+const MATCH_THRESHOLD = 0.25;
+// When the runner-up scores within this margin of the best match, the name is ambiguous.
+const AMBIGUITY_MARGIN = 0.05;
+// Fields up to this score are offered as suggestions for an unknown name.
+const SUGGESTION_THRESHOLD = 0.5;
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * A field name the caller typed that was matched to a different schema name.
+ */
+export interface FieldCorrection {
+    requested: string;
+    resolved: string;
+}
+
+interface Candidate {
+    name: string;
+    // The name split into lower-case words, e.g. 'credit limit' for CreditLimit.
+    words: string;
+}
+
+function toWords(name: string): string {
+    return name
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+        .replace(/[_\s]+/g, ' ')
+        .trim()
+        .toLowerCase();
+}
+
+function formatList(names: string[]): string {
+    const quoted = names.map(name => `'${name}'`);
+    return quoted.length > 1 ? `${quoted.slice(0, -1).join(', ')} or ${quoted[quoted.length - 1]}` : quoted[0];
+}
+
+/**
+ * Matches the field and navigation property names a caller typed (e.g. 'credit limit' or 'custmer name')
+ * to the names declared in the entity schema, the same way EntityManager matches entity names.
+ * Exact matches ignore case; other matches are recorded as corrections so the query plan can show them.
+ * Ambiguous and unknown names throw with the closest field names as suggestions.
+ */
+export class FieldResolver {
+    public readonly corrections: FieldCorrection[] = [];
+    private fieldFuse: Fuse<Candidate> | null = null;
+    private navigationFuse: Fuse<Candidate> | null = null;
+
+    constructor(private readonly schema: EntitySchema) {}
+
+    /**
+     * @throws If no field matches, or several match equally well.
+     */
+    public resolveField(name: string): EntityField {
+        const resolved = this.resolve(name, this.schema.fields.map(f => f.name), 'Field', () => {
+            this.fieldFuse ??= this.createFuse(this.schema.fields.map(f => f.name));
+            return this.fieldFuse;
+        });
+        return this.schema.fields.find(f => f.name === resolved)!;
+    }
+
+    /**
+     * @throws If no navigation property matches, or several match equally well.
+     */
+    public resolveNavigation(name: string): NavigationProperty {
+        const names = this.schema.navigationProperties.map(n => n.name);
+        const resolved = this.resolve(name, names, 'Navigation property', () => {
+            this.navigationFuse ??= this.createFuse(names);
+            return this.navigationFuse;
+        });
+        return this.schema.navigationProperties.find(n => n.name === resolved)!;
+    }
+
+    private createFuse(names: string[]): Fuse<Candidate> {
+        return new Fuse(names.map(name => ({ name, words: toWords(name) })), {
+            keys: ['name', 'words'],
+            threshold: SUGGESTION_THRESHOLD,
+            ignoreLocation: true,
+            includeScore: true,
+        });
+    }
+
+    private resolve(name: string, names: string[], kind: string, getFuse: () => Fuse<Candidate>): string {
+        const exact = names.find(candidate => candidate.toLowerCase() === name.toLowerCase());
+        if (exact) {
+            return exact;
+        }
+
+        const correct = (resolved: string) => {
+            if (!this.corrections.some(c => c.requested === name)) {
+                this.corrections.push({ requested: name, resolved });
+            }
+            return resolved;
+        };
+
+        // 'credit limit', 'credit_limit' and 'CREDITLIMIT' all mean CreditLimit.
+        const compact = toWords(name).replace(/ /g, '');
+        const spelled = names.filter(candidate => toWords(candidate).replace(/ /g, '') === compact);
+        if (spelled.length === 1) {
+            return correct(spelled[0]);
+        }
+
+        const results = getFuse().search(toWords(name));
+        const [best, runnerUp] = results;
+        if (best && best.score! <= MATCH_THRESHOLD) {
+            if (!runnerUp || runnerUp.score! - best.score! >= AMBIGUITY_MARGIN) {
+                return correct(best.item.name);
+            }
+            const tied = results.filter(r => r.score! - best.score! < AMBIGUITY_MARGIN).map(r => r.item.name);
+            throw new Error(`${kind} '${name}' is ambiguous on '${this.schema.name}': it could be ${formatList(tied.slice(0, MAX_SUGGESTIONS))}.`);
+        }
+
+        const suggestions = results.slice(0, MAX_SUGGESTIONS).map(r => r.item.name);
+        const hint = suggestions.length > 0
+            ? ` Did you mean ${formatList(suggestions)}?`
+            : ' Call describeEntity to list its fields.';
+        throw new Error(`${kind} '${name}' does not exist on '${this.schema.name}'.${hint}`);
+    }
+}
+
+/**
+ * Resolves a comma-separated $select list. '*' and paths into complex fields are passed through.
+ */
+export function resolveSelect(resolver: FieldResolver, select: string): string {
+    return select.split(',').map(item => item.trim()).filter(Boolean).map(item => {
+        if (item === '*') {
+            return item;
+        }
+        const [first, ...rest] = item.split('/');
+        return [resolver.resolveField(first).name, ...rest].join('/');
+    }).join(',');
+}
+
+/**
+ * Resolves a comma-separated $orderby list, e.g. `credit limit desc, CustomerAccount`.
+ * Directions are normalized to lower case; items without one sort ascending.
+ * @throws If a field is unknown or ambiguous.
+ */
+export function resolveOrderBy(resolver: FieldResolver, orderby: string): string {
+    return orderby.split(',').map(item => item.trim()).filter(Boolean).map(item => {
+        const match = /^(.+?)(?:\s+(asc|desc))?$/i.exec(item)!;
+        const field = resolver.resolveField(match[1].trim()).name;
+        return match[2] ? `${field} ${match[2].toLowerCase()}` : field;
+    }).join(',');
+}
+
+/**
+ * Splits a list at the commas that are not inside parentheses, e.g. the items of
+ * `Lines($select=A,B),Customer`.
+ */
+function splitTopLevel(value: string): string[] {
+    const items: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < value.length; i++) {
+        if (value[i] === '(') depth++;
+        else if (value[i] === ')') depth--;
+        else if (value[i] === ',' && depth === 0) {
+            items.push(value.slice(start, i));
+            start = i + 1;
+        }
+    }
+    items.push(value.slice(start));
+    return items.map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Resolves the navigation properties of an $expand list. Nested options such as
+ * `($select=...)` apply to the target entity and are passed through unchanged.
+ */
+export function resolveExpand(resolver: FieldResolver, expand: string): string {
+    return splitTopLevel(expand).map(item => {
+        const match = /^([^(/]+)(.*)$/s.exec(item)!;
+        return item === '*' ? item : `${resolver.resolveNavigation(match[1].trim()).name}${match[2]}`;
+    }).join(',');
+}
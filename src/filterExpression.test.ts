@@ -0,0 +1,75 @@
+import { describe, it, expect } from '@jest/globals';
+import { compileFilter, isFilterExpression } from './filterExpression.js';
+
+const salesOrderSchema = {
+    name: 'SalesOrderHeaderV2',
+    fields: [
+        { name: 'dataAreaId', type: 'Edm.String', isKey: true },
+        { name: 'SalesOrderNumber', type: 'Edm.String', isKey: true },
+        { name: 'CustomerName', type: 'Edm.String', isKey: false },
+        { name: 'OrderCreationDateTime', type: 'Edm.DateTimeOffset', isKey: false },
+        { name: 'TotalAmount', type: 'Edm.Decimal', isKey: false },
+        { name: 'RecId', type: 'Edm.Int64', isKey: false },
+        { name: 'SalesOrderStatus', type: 'Microsoft.Dynamics.DataEntities.SalesStatus', isKey: false },
+    ],
+    navigationProperties: [],
+    operations: [],
+};
+
+describe('compileFilter', () => {
+    it('should format literals according to the field types', () => {
+        const result = compileFilter({
+            type: 'logical',
+            operator: 'and',
+            conditions: [
+                { type: 'comparison', field: 'orderCreationDateTime', operator: 'ge', value: '2024-01-01' },
+                { type: 'comparison', field: 'TotalAmount', operator: 'gt', value: 1000.5 },
+                { type: 'comparison', field: 'RecId', operator: 'ne', value: 5637144576 },
+                { type: 'comparison', field: 'SalesOrderStatus', operator: 'eq', value: 'Backorder' },
+                { type: 'comparison', field: 'CustomerName', operator: 'eq', value: "O'Brien" },
+            ],
+        }, salesOrderSchema);
+
+        expect(result.filter).toBe(
+            "OrderCreationDateTime ge 2024-01-01T00:00:00Z and TotalAmount gt 1000.5 and RecId ne 5637144576"
+            + " and SalesOrderStatus eq Microsoft.Dynamics.DataEntities.SalesStatus'Backorder' and CustomerName eq 'O''Brien'"
+        );
+        expect(result.clauses.map(c => c.field)).toEqual(['OrderCreationDateTime', 'TotalAmount', 'RecId', 'SalesOrderStatus', 'CustomerName']);
+    });
+
+    it('should parenthesize nested groups and expand in lists', () => {
+        const result = compileFilter({
+            type: 'logical',
+            operator: 'or',
+            conditions: [
+                { type: 'comparison', field: 'dataAreaId', operator: 'in', value: ['usmf', 'demf'] },
+                {
+                    type: 'logical',
+                    operator: 'and',
+                    conditions: [
+                        { type: 'function', name: 'startswith', field: 'CustomerName', value: 'Contoso' },
+                        { type: 'logical', operator: 'not', conditions: [{ type: 'function', name: 'contains', field: 'CustomerName', value: 'Retail' }] },
+                    ],
+                },
+            ],
+        }, salesOrderSchema);
+
+        expect(result.filter).toBe(
+            "(dataAreaId eq 'usmf' or dataAreaId eq 'demf') or (startswith(CustomerName,'Contoso') and not (contains(CustomerName,'Retail')))"
+        );
+    });
+
+    it('should reject unknown fields and string functions on non-string fields', () => {
+        expect(() => compileFilter({ type: 'comparison', field: 'Colour', operator: 'eq', value: 'red' }, salesOrderSchema))
+            .toThrow("Field 'Colour' does not exist on 'SalesOrderHeaderV2'.");
+        expect(() => compileFilter({ type: 'function', name: 'contains', field: 'TotalAmount', value: '1' }, salesOrderSchema))
+            .toThrow("'contains' can only be used on string fields");
+    });
+});
+
+describe('isFilterExpression', () => {
+    it('should distinguish expression trees from key-value maps', () => {
+        expect(isFilterExpression({ type: 'comparison', field: 'A', operator: 'eq', value: 'x' })).toBe(true);
+        expect(isFilterExpression({ CustomerAccount: 'PM-001' })).toBe(false);
+    });
+});
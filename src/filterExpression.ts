@@ -0,0 +1,124 @@
+// src/filterExpression.ts
+
+import { z } from 'zod';
+import { EntityField, EntitySchema } from './entityManager.js';
+import { FieldResolver } from './fieldResolver.js';
+import { formatODataLiteral, KeyValue } from './odata.js';
+
+type FilterValue = string | number | boolean | null;
+
+const COMPARISON_OPERATORS = ['eq', 'ne', 'gt', 'ge', 'lt', 'le', 'in'] as const;
+const LOGICAL_OPERATORS = ['and', 'or', 'not'] as const;
+const STRING_FUNCTIONS = ['contains', 'startswith', 'endswith'] as const;
+
+export type FilterExpression =
+    | { type: 'comparison'; field: string; operator: typeof COMPARISON_OPERATORS[number]; value: FilterValue | FilterValue[] }
+    | { type: 'logical'; operator: typeof LOGICAL_OPERATORS[number]; conditions: FilterExpression[] }
+    | { type: 'function'; name: typeof STRING_FUNCTIONS[number]; field: string; value: string };
+
+/**
+ * A single compiled comparison or function call, kept so the query plan can show how each
+ * field was interpreted.
+ */
+export interface CompiledClause {
+    clause: string;
+    field: string;
+    type: string;
+}
+
+export interface CompiledFilter {
+    filter: string;
+    clauses: CompiledClause[];
+}
+
+const filterValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+export const filterExpressionSchema: z.ZodType<FilterExpression> = z.lazy(() => z.union([
+    z.object({
+        type: z.literal('comparison'),
+        field: z.string().describe("The field to compare, e.g. 'CreditLimit'."),
+        operator: z.enum(COMPARISON_OPERATORS).describe("The comparison operator. 'in' expects an array value."),
+        value: z.union([filterValueSchema, z.array(filterValueSchema)]).describe("The value to compare against. Dates are ISO 8601 strings, enums use the member name."),
+    }),
+    z.object({
+        type: z.literal('logical'),
+        operator: z.enum(LOGICAL_OPERATORS).describe("'not' expects exactly one condition."),
+        conditions: z.array(filterExpressionSchema).min(1),
+    }),
+    z.object({
+        type: z.literal('function'),
+        name: z.enum(STRING_FUNCTIONS),
+        field: z.string().describe("A string field, e.g. 'Name'."),
+        value: z.string(),
+    }),
+]));
+
+/**
+ * Checks whether a filter argument is an expression tree rather than a key-value map.
+ */
+export function isFilterExpression(filter: unknown): filter is FilterExpression {
+    const type = (filter as { type?: unknown } | null)?.type;
+    return typeof type === 'string' && ['comparison', 'logical', 'function'].includes(type)
+        && ('operator' in (filter as object) || 'name' in (filter as object));
+}
+
+function formatValue(value: FilterValue, field: EntityField): string {
+    return formatODataLiteral(value as KeyValue | null, field.type);
+}
+
+/**
+ * Compiles an expression tree into an OData $filter string, formatting literals according to
+ * the field types declared in the entity schema.
+ * The `in` operator is expanded into a group of `eq` comparisons joined with `or`, since the
+ * F&O OData endpoint only implements OData v4.0 operators.
+ * @param expression The expression tree supplied by the caller.
+ * @param schema The parsed schema of the entity being queried.
+ * @param resolver Matches the field names in the tree to the schema. Pass one to collect its corrections.
+ * @returns The compiled $filter value and the individual clauses it was built from.
+ */
+export function compileFilter(expression: FilterExpression, schema: EntitySchema, resolver: FieldResolver = new FieldResolver(schema)): CompiledFilter {
+    const clauses: CompiledClause[] = [];
+
+    const compile = (node: FilterExpression, nested: boolean): string => {
+        switch (node.type) {
+            case 'comparison': {
+                const field = resolver.resolveField(node.field);
+                if (node.operator === 'in') {
+                    if (!Array.isArray(node.value) || node.value.length === 0) {
+                        throw new Error(`The 'in' operator on '${field.name}' requires a non-empty array of values.`);
+                    }
+                    const clause = node.value.map(v => `${field.name} eq ${formatValue(v, field)}`).join(' or ');
+                    clauses.push({ clause, field: field.name, type: field.type });
+                    return node.value.length > 1 ? `(${clause})` : clause;
+                }
+                if (Array.isArray(node.value)) {
+                    throw new Error(`The '${node.operator}' operator on '${field.name}' expects a single value, not an array.`);
+                }
+                const clause = `${field.name} ${node.operator} ${formatValue(node.value, field)}`;
+                clauses.push({ clause, field: field.name, type: field.type });
+                return clause;
+            }
+            case 'function': {
+                const field = resolver.resolveField(node.field);
+                if (field.type !== 'Edm.String') {
+                    throw new Error(`'${node.name}' can only be used on string fields, but '${field.name}' is ${field.type}.`);
+                }
+                const clause = `${node.name}(${field.name},${formatValue(node.value, field)})`;
+                clauses.push({ clause, field: field.name, type: field.type });
+                return clause;
+            }
+            case 'logical': {
+                if (node.operator === 'not') {
+                    if (node.conditions.length !== 1) {
+                        throw new Error(`The 'not' operator expects exactly one condition.`);
+                    }
+                    return `not (${compile(node.conditions[0], false)})`;
+                }
+                const joined = node.conditions.map(c => compile(c, true)).join(` ${node.operator} `);
+                return nested && node.conditions.length > 1 ? `(${joined})` : joined;
+            }
+        }
+    };
+
+    return { filter: compile(expression, false), clauses };
+}
@@ -0,0 +1,222 @@
+// src/http.ts
+
+import express from 'express';
+import { randomUUID } from 'node:crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { getServer } from './mcp-server.js';
+import { ConfirmationStore } from './confirmations.js';
+import { createUserContext, readOnBehalfOfTokenOptions, UserContext } from './auth.js';
+import { JwtVerifier } from './jwt.js';
+import { Caller, InboundAuthenticator, readInboundAuthConfig } from './inboundAuth.js';
+import { EnvironmentRegistry } from './environments.js';
+import { SessionStore } from './sessions.js';
+import { loadToolManifest } from './toolManifest.js';
+import { logger } from './logger.js';
+
+function sendAuthError(res: express.Response, status: 401 | 403, message: string): void {
+    if (status === 401) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+    }
+    res.status(status).json({
+        jsonrpc: '2.0',
+        error: { code: -32001, message },
+        id: null,
+    });
+}
+
+/**
+ * Validates the caller's bearer token.
+ * @returns The caller, or null after an error response was sent.
+ */
+async function authenticateUser(verifier: JwtVerifier, req: express.Request, res: express.Response): Promise<UserContext | null> {
+    const token = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '')?.[1];
+    if (!token) {
+        sendAuthError(res, 401, 'Unauthorized: a bearer token is required.');
+        return null;
+    }
+    try {
+        const claims = await verifier.verify(token);
+        return createUserContext(claims, token);
+    } catch (error) {
+        logger.warn('Rejected caller token:', (error as Error).message);
+        sendAuthError(res, 401, `Unauthorized: ${(error as Error).message}`);
+        return null;
+    }
+}
+
+/**
+ * Serves MCP over Streamable HTTP at /mcp, with one server instance per client session.
+ * @throws If the tool manifest does not match the metadata of the default environment.
+ */
+export async function startHttpServer(): Promise<void> {
+    // --- Express Server Setup ---
+    const app = express();
+    app.use(express.json());
+
+    // Open sessions. Idle ones are closed by the sweeper so a long-running server does not grow without bound.
+    const sessions = new SessionStore();
+    sessions.startSweeper();
+
+    // Shared by all sessions, so metadata and tokens are cached once per environment.
+    const environments = new EnvironmentRegistry();
+
+    // Checked before the server listens, so a tool manifest that does not match $metadata stops the server.
+    const declaredTools = await loadToolManifest(environments.get());
+    if (declaredTools.length > 0) {
+        // Building one server up front also reports manifest tools that collide with built-in tools.
+        await getServer({ environments, declaredTools }).close();
+        logger.info(`Loaded ${declaredTools.length} tool(s) from the tool manifest.`);
+    }
+
+    // Who may call /mcp, and which tools they get. Fails at startup when the settings are incomplete.
+    const inboundAuth = new InboundAuthenticator(readInboundAuthConfig());
+
+    // In on-behalf-of mode every request must carry the caller's Entra ID token.
+    const userTokenVerifier = process.env.AUTH_ON_BEHALF_OF === 'true' ? new JwtVerifier(readOnBehalfOfTokenOptions()) : null;
+
+    // Unauthenticated, for load balancer and App Service health probes. Reports counts only, no session details.
+    app.get('/health', (_req, res) => {
+        try {
+            res.json({
+                status: 'ok',
+                sessions: {
+                    active: sessions.size,
+                    max: sessions.limits.maxSessions,
+                    idleTimeoutMinutes: sessions.limits.idleTimeoutMs / 60000,
+                },
+                environments: environments.status(),
+            });
+        } catch (error) {
+            res.status(503).json({ status: 'error', message: (error as Error).message });
+        }
+    });
+
+    app.all('/mcp', async (req, res) => {
+        const sessionId = req.headers['mcp-session-id'] as string | undefined;
+        let transport: StreamableHTTPServerTransport;
+
+        if (!inboundAuth.isOriginAllowed(req.headers.origin)) {
+            sendAuthError(res, 403, `Forbidden: origin '${req.headers.origin}' is not allowed.`);
+            return;
+        }
+
+        let caller: Caller | undefined;
+        try {
+            caller = await inboundAuth.authenticate(req.headers) ?? undefined;
+        } catch (error) {
+            sendAuthError(res, 401, `Unauthorized: ${(error as Error).message}`);
+            return;
+        }
+
+        let user: UserContext | undefined;
+        if (userTokenVerifier) {
+            const authenticatedUser = await authenticateUser(userTokenVerifier, req, res);
+            if (!authenticatedUser) {
+                return;
+            }
+            user = authenticatedUser;
+        }
+
+        const session = sessionId ? sessions.get(sessionId) : undefined;
+        if (session) {
+            if (caller && session.caller?.id !== caller.id) {
+                sendAuthError(res, 403, 'Forbidden: the session belongs to a different caller.');
+                return;
+            }
+            if (user && session.user) {
+                if (session.user.id !== user.id) {
+                    sendAuthError(res, 403, 'Forbidden: the session belongs to a different user.');
+                    return;
+                }
+                // Keep the freshest token for the on-behalf-of exchange.
+                session.user.assertion = user.assertion;
+            }
+            transport = session.transport;
+        } else if (sessionId) {
+            // The session ended or expired; 404 tells the client to start a new one.
+            res.status(404).json({
+                jsonrpc: '2.0',
+                error: { code: -32001, message: 'Session not found.' },
+                id: null,
+            });
+            return;
+        } else if (isInitializeRequest(req.body)) {
+            if (sessions.isFull) {
+                await sessions.sweep();
+            }
+            if (sessions.isFull) {
+                res.status(503).setHeader('Retry-After', '60').json({
+                    jsonrpc: '2.0',
+                    error: { code: -32000, message: `Service Unavailable: the server already has ${sessions.size} open sessions.` },
+                    id: null,
+                });
+                return;
+            }
+
+            // Write plans issued in this session can only be confirmed from this session.
+            // Tools the caller may not use are left out of this session's server.
+            const server = getServer({ confirmations: new ConfirmationStore(), user, caller, environments, declaredTools });
+            const newTransport = new StreamableHTTPServerTransport({
+                sessionIdGenerator: () => randomUUID(),
+                onsessioninitialized: (newSessionId: string) => {
+                    const owner = user?.name ?? user?.id ?? caller?.name ?? caller?.id;
+                    logger.info(`Session initialized with ID: ${newSessionId}${owner ? ` for ${owner}` : ''}`);
+                    sessions.add(newSessionId, { transport: newTransport, server, user, caller });
+                },
+            });
+            // Called when the client sends DELETE, the sweeper expires the session, or the server shuts down.
+            newTransport.onclose = () => {
+                const closedSessionId = newTransport.sessionId;
+                if (closedSessionId) {
+                    logger.info(`Session closed: ${closedSessionId}`);
+                    void sessions.remove(closedSessionId);
+                }
+            };
+            await server.connect(newTransport);
+            transport = newTransport;
+        } else {
+            res.status(400).json({
+                jsonrpc: '2.0',
+                error: { code: -32000, message: 'Bad Request: Missing or invalid session ID.' },
+                id: null,
+            });
+            return;
+        }
+
+        try {
+            await transport.handleRequest(req, res, req.body);
+        } catch (error) {
+            logger.error('Error handling MCP request:', error);
+            if (!res.headersSent) {
+                res.status(500).json({
+                    jsonrpc: '2.0',
+                    error: { code: -32603, message: 'Internal server error.' },
+                    id: null,
+                });
+            }
+        }
+    });
+
+    const PORT = process.env.PORT || 3000;
+    const httpServer = app.listen(PORT, () => {
+        logger.info(`Dynamics 365 F&O MCP Server listening on port ${PORT}`);
+        logger.info('Please ensure you have a .env file with your Dynamics 365 credentials.');
+        if (!inboundAuth.enabled) {
+            logger.warn('Inbound authentication is disabled (INBOUND_AUTH_MODE=none): anyone who can reach /mcp can use every tool.');
+        }
+        if (userTokenVerifier) {
+            logger.info('On-behalf-of mode is enabled: tools run with the permissions of the calling user.');
+        }
+    });
+
+    // Close open sessions before exiting, so clients see the streams end instead of a dropped connection.
+    async function shutdown(signal: string): Promise<void> {
+        logger.info(`${signal} received, closing ${sessions.size} open session(s).`);
+        await sessions.closeAll();
+        httpServer.close(() => process.exit(0));
+        setTimeout(() => process.exit(0), 10_000).unref();
+    }
+    process.once('SIGTERM', () => void shutdown('SIGTERM'));
+    process.once('SIGINT', () => void shutdown('SIGINT'));
+}
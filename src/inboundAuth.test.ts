@@ -0,0 +1,94 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { createSign, generateKeyPairSync } from 'node:crypto';
+import { canUseTool, InboundAuthenticator, readInboundAuthConfig } from './inboundAuth.js';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const jwks = { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'local', use: 'sig' }] };
+
+global.fetch = jest.fn() as unknown as typeof fetch;
+const mockFetch = global.fetch as unknown as jest.Mock<(...args: unknown[]) => Promise<Response>>;
+
+// Signs a token with the locally generated key, the same way the configured issuer would.
+function sign(claims: Record<string, unknown>): string {
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const unsigned = `${encode({ alg: 'RS256', typ: 'JWT', kid: 'local' })}.${encode({
+        iss: 'https://issuer.test/',
+        aud: 'api://fno-mcp',
+        exp: Math.floor(Date.now() / 1000) + 600,
+        ...claims,
+    })}`;
+    const signature = createSign('RSA-SHA256').update(unsigned).sign(privateKey.export({ type: 'pkcs8', format: 'pem' }));
+    return `${unsigned}.${signature.toString('base64url')}`;
+}
+
+describe('InboundAuthenticator', () => {
+    beforeEach(() => {
+        mockFetch.mockReset();
+        mockFetch.mockImplementation(async () => new Response(JSON.stringify(jwks), { status: 200 }));
+    });
+
+    describe('with API keys', () => {
+        const auth = new InboundAuthenticator(readInboundAuthConfig({
+            INBOUND_AUTH_MODE: 'api_key',
+            INBOUND_API_KEYS: JSON.stringify([
+                { name: 'reporting', key: 'read-key', access: 'read' },
+                { name: 'ops', key: 'write-key', access: 'write', tools: ['createSystemUser'] },
+            ]),
+        }));
+
+        it('identifies the caller from X-API-Key or a bearer token', async () => {
+            await expect(auth.authenticate({ 'x-api-key': 'read-key' })).resolves.toMatchObject({ name: 'reporting', access: 'read' });
+            await expect(auth.authenticate({ authorization: 'Bearer write-key' })).resolves.toMatchObject({ name: 'ops', access: 'write' });
+        });
+
+        it('rejects missing and unknown keys', async () => {
+            await expect(auth.authenticate({})).rejects.toThrow('An API key is required.');
+            await expect(auth.authenticate({ 'x-api-key': 'guess' })).rejects.toThrow('The API key is not valid.');
+        });
+
+        it('grants tools by access level and individually', async () => {
+            const reporting = (await auth.authenticate({ 'x-api-key': 'read-key' }))!;
+            const ops = (await auth.authenticate({ 'x-api-key': 'write-key' }))!;
+
+            expect(canUseTool(reporting, 'odataQuery')).toBe(true);
+            expect(canUseTool(reporting, 'createRecord')).toBe(false);
+            expect(canUseTool(ops, 'createRecord')).toBe(true);
+            expect(canUseTool(ops, 'createSystemUser')).toBe(true);
+            expect(canUseTool(ops, 'assignUserRole')).toBe(false);
+        });
+    });
+
+    describe('with JWTs', () => {
+        const auth = new InboundAuthenticator(readInboundAuthConfig({
+            INBOUND_AUTH_MODE: 'jwt',
+            INBOUND_JWT_ISSUER: 'https://issuer.test/',
+            INBOUND_JWT_AUDIENCE: 'api://fno-mcp',
+            INBOUND_JWKS_URI: 'https://issuer.test/keys',
+        }));
+
+        it('maps app roles and scopes to access levels and tools', async () => {
+            const admin = await auth.authenticate({ authorization: `Bearer ${sign({ sub: 'svc', roles: ['Mcp.Read', 'Mcp.Admin'] })}` });
+            expect(admin).toMatchObject({ id: 'svc', access: 'admin' });
+
+            const delegated = await auth.authenticate({ authorization: `Bearer ${sign({ sub: 'u1', scp: 'Mcp.Read Mcp.Tool.createRecord' })}` });
+            expect(delegated).toMatchObject({ access: 'read', tools: ['createRecord'] });
+        });
+
+        it('rejects tokens for another audience', async () => {
+            await expect(auth.authenticate({ authorization: `Bearer ${sign({ sub: 'svc', aud: 'api://other' })}` })).rejects.toThrow('audience');
+        });
+    });
+
+    it('refuses to start with incomplete settings', () => {
+        expect(() => readInboundAuthConfig({ INBOUND_AUTH_MODE: 'jwt' })).toThrow('requires INBOUND_JWT_ISSUER');
+        expect(() => readInboundAuthConfig({ INBOUND_AUTH_MODE: 'api_key' })).toThrow('at least one entry');
+        expect(() => readInboundAuthConfig({ INBOUND_AUTH_MODE: 'basic' })).toThrow("Unknown INBOUND_AUTH_MODE 'basic'");
+    });
+
+    it('only checks the origin when allowed origins are configured', () => {
+        const auth = new InboundAuthenticator(readInboundAuthConfig({ INBOUND_ALLOWED_ORIGINS: 'https://copilot.contoso.com' }));
+        expect(auth.isOriginAllowed(undefined)).toBe(true);
+        expect(auth.isOriginAllowed('https://copilot.contoso.com')).toBe(true);
+        expect(auth.isOriginAllowed('https://evil.example.com')).toBe(false);
+    });
+});
@@ -0,0 +1,255 @@
+// src/inboundAuth.ts
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { JwtVerifier } from './jwt.js';
+
+export type AccessLevel = 'read' | 'write' | 'admin';
+export type InboundAuthMode = 'none' | 'api_key' | 'jwt';
+
+const ACCESS_LEVELS: AccessLevel[] = ['read', 'write', 'admin'];
+
+// App roles (or scopes) in a caller's token that grant an access level or a single tool.
+const ROLE_PREFIX = 'Mcp.';
+const TOOL_ROLE_PREFIX = 'Mcp.Tool.';
+
+/**
+ * The access level each tool requires. Tools that are not listed only read data and need 'read'.
+ * Tools that manage users, security roles or the server itself need 'admin'.
+ */
+export const TOOL_ACCESS: Record<string, AccessLevel> = {
+    createCustomer: 'write',
+    updateCustomer: 'write',
+    updatePositionHierarchy: 'write',
+    createRecord: 'write',
+    updateRecord: 'write',
+    deleteRecord: 'write',
+    invokeAction: 'write',
+    batch: 'write',
+    createSystemUser: 'admin',
+    assignUserRole: 'admin',
+    action_initializeDataManagement: 'admin',
+    refreshMetadataCache: 'admin',
+};
+
+/**
+ * Entity sets and operations that only the admin tools may write, matched on their declared name, with the tool
+ * that covers them. The generic write tools (createRecord, updateRecord, deleteRecord, invokeAction, batch) require
+ * the same access for these targets, so 'write' access cannot reach them another way.
+ */
+const ADMIN_TARGETS: { pattern: RegExp; tool: string }[] = [
+    // Users, user groups and user settings, e.g. SystemUsers, UserGroups, UserInfos.
+    { pattern: /^(SystemUser|User(Group|Info|Role|Setting|Option))/i, tool: 'createSystemUser' },
+    // Security roles, duties, privileges and their assignments, e.g. SecurityUserRoleAssociations, SecurityRoles.
+    { pattern: /^Security/i, tool: 'assignUserRole' },
+    // Data management setup, e.g. InitializeDataManagement and DataManagementDefinitionGroups.
+    { pattern: /DataManagement/i, tool: 'action_initializeDataManagement' },
+];
+
+/**
+ * Finds the admin tool that covers a write target.
+ * @param target An entity set or operation name as declared in $metadata, optionally namespace-qualified.
+ * Resource paths must be resolved first, see resolveResourcePath.
+ * @returns The name of the admin tool, or undefined when the target is not admin-only.
+ */
+export function getAdminToolForTarget(target: string): string | undefined {
+    const name = target.split('.').pop()!;
+    return ADMIN_TARGETS.find(t => t.pattern.test(name))?.tool;
+}
+
+/**
+ * An authenticated client of the /mcp endpoint.
+ */
+export interface Caller {
+    id: string;
+    name?: string;
+    // The highest access level granted, or null if the caller was only granted individual tools.
+    access: AccessLevel | null;
+    // Tools granted individually, on top of the access level.
+    tools: string[];
+}
+
+/**
+ * Checks whether a caller may see and call a tool.
+ * @param required The access level the tool needs. Defaults to its entry in TOOL_ACCESS.
+ */
+export function canUseTool(caller: Caller, toolName: string, required: AccessLevel = TOOL_ACCESS[toolName] ?? 'read'): boolean {
+    if (caller.tools.includes(toolName)) {
+        return true;
+    }
+    return caller.access !== null && ACCESS_LEVELS.indexOf(caller.access) >= ACCESS_LEVELS.indexOf(required);
+}
+
+export interface ApiKeyEntry {
+    name: string;
+    key: string;
+    access?: AccessLevel;
+    tools?: string[];
+}
+
+export interface InboundAuthConfig {
+    mode: InboundAuthMode;
+    apiKeys: ApiKeyEntry[];
+    jwt?: {
+        issuers: string[];
+        audiences: string[];
+        jwksUri: string;
+        // The claims that carry roles or scopes, checked in order.
+        roleClaims: string[];
+    };
+    // Browser origins allowed to call the endpoint. Requests without an Origin header are not affected.
+    allowedOrigins: string[];
+}
+
+function splitList(value: string | undefined): string[] {
+    return (value ?? '').split(',').map(v => v.trim()).filter(Boolean);
+}
+
+/**
+ * Reads the inbound authentication settings from the environment.
+ * API keys are given as a JSON array in INBOUND_API_KEYS, e.g.
+ * `[{"name":"reporting","key":"...","access":"read"}]`.
+ * @throws If the mode is unknown or its settings are incomplete, so a misconfigured server does not start open.
+ */
+export function readInboundAuthConfig(env: NodeJS.ProcessEnv = process.env): InboundAuthConfig {
+    const mode = (env.INBOUND_AUTH_MODE || 'none') as InboundAuthMode;
+    const config: InboundAuthConfig = { mode, apiKeys: [], allowedOrigins: splitList(env.INBOUND_ALLOWED_ORIGINS) };
+
+    switch (mode) {
+        case 'none':
+            return config;
+        case 'api_key': {
+            let entries: ApiKeyEntry[];
+            try {
+                entries = JSON.parse(env.INBOUND_API_KEYS || '[]');
+            } catch {
+                throw new Error('INBOUND_API_KEYS must be a JSON array of { "name", "key", "access", "tools" } entries.');
+            }
+            if (!Array.isArray(entries) || entries.length === 0) {
+                throw new Error('INBOUND_AUTH_MODE=api_key requires at least one entry in INBOUND_API_KEYS.');
+            }
+            for (const entry of entries) {
+                if (!entry.name || !entry.key) {
+                    throw new Error('Every entry in INBOUND_API_KEYS needs a name and a key.');
+                }
+                if (entry.access && !ACCESS_LEVELS.includes(entry.access)) {
+                    throw new Error(`API key '${entry.name}' has an unknown access level '${entry.access}'. Expected one of: ${ACCESS_LEVELS.join(', ')}.`);
+                }
+            }
+            config.apiKeys = entries;
+            return config;
+        }
+        case 'jwt': {
+            const issuers = splitList(env.INBOUND_JWT_ISSUER);
+            const audiences = splitList(env.INBOUND_JWT_AUDIENCE);
+            if (issuers.length === 0 || audiences.length === 0 || !env.INBOUND_JWKS_URI) {
+                throw new Error('INBOUND_AUTH_MODE=jwt requires INBOUND_JWT_ISSUER, INBOUND_JWT_AUDIENCE and INBOUND_JWKS_URI.');
+            }
+            config.jwt = {
+                issuers,
+                audiences,
+                jwksUri: env.INBOUND_JWKS_URI,
+                roleClaims: splitList(env.INBOUND_JWT_ROLE_CLAIMS || 'roles,scp'),
+            };
+            return config;
+        }
+        default:
+            throw new Error(`Unknown INBOUND_AUTH_MODE '${env.INBOUND_AUTH_MODE}'. Expected one of: none, api_key, jwt.`);
+    }
+}
+
+function digest(value: string): Buffer {
+    return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Authenticates requests to the /mcp endpoint with a static API key or a signed JWT, and
+ * works out which tools the caller may use.
+ */
+export class InboundAuthenticator {
+    private readonly verifier: JwtVerifier | null;
+
+    constructor(private readonly config: InboundAuthConfig) {
+        this.verifier = config.jwt ? new JwtVerifier(config.jwt) : null;
+    }
+
+    public get enabled(): boolean {
+        return this.config.mode !== 'none';
+    }
+
+    /**
+     * Checks the Origin header of a browser request against the allowed origins.
+     */
+    public isOriginAllowed(origin: string | undefined): boolean {
+        if (!origin || this.config.allowedOrigins.length === 0) {
+            return true;
+        }
+        return this.config.allowedOrigins.includes(origin);
+    }
+
+    /**
+     * Identifies the caller of a request.
+     * @param headers The request headers. API keys are read from X-API-Key or a bearer token; JWTs from the bearer token.
+     * @returns The caller, or null when inbound authentication is disabled.
+     * @throws If credentials are missing or invalid.
+     */
+    public async authenticate(headers: Record<string, string | string[] | undefined>): Promise<Caller | null> {
+        if (!this.enabled) {
+            return null;
+        }
+
+        const bearer = /^Bearer\s+(.+)$/i.exec(String(headers['authorization'] ?? ''))?.[1];
+        if (this.config.mode === 'api_key') {
+            const key = (headers['x-api-key'] as string | undefined) ?? bearer;
+            if (!key) {
+                throw new Error('An API key is required.');
+            }
+            return this.authenticateApiKey(key);
+        }
+
+        if (!bearer) {
+            throw new Error('A bearer token is required.');
+        }
+        return this.authenticateJwt(bearer);
+    }
+
+    private authenticateApiKey(key: string): Caller {
+        const presented = digest(key);
+        // Every entry is compared, in constant time, so the response time does not reveal which key almost matched.
+        let match: ApiKeyEntry | undefined;
+        for (const entry of this.config.apiKeys) {
+            if (timingSafeEqual(presented, digest(entry.key))) {
+                match = entry;
+            }
+        }
+        if (!match) {
+            throw new Error('The API key is not valid.');
+        }
+        return { id: `key:${match.name}`, name: match.name, access: match.access ?? null, tools: match.tools ?? [] };
+    }
+
+    private async authenticateJwt(token: string): Promise<Caller> {
+        const claims = await this.verifier!.verify(token);
+
+        const roles = new Set<string>();
+        for (const claim of this.config.jwt!.roleClaims) {
+            const value = claims[claim];
+            // 'scp' is a space-separated string; 'roles' is an array.
+            const values = Array.isArray(value) ? value : typeof value === 'string' ? value.split(' ') : [];
+            values.forEach(v => roles.add(String(v)));
+        }
+
+        const access = [...ACCESS_LEVELS].reverse().find(level => roles.has(`${ROLE_PREFIX}${level[0].toUpperCase()}${level.slice(1)}`)) ?? null;
+        const tools = [...roles].filter(r => r.startsWith(TOOL_ROLE_PREFIX)).map(r => r.slice(TOOL_ROLE_PREFIX.length));
+        const subject = (claims.oid ?? claims.sub) as string | undefined;
+        if (!subject) {
+            throw new Error('The token does not identify the caller (no oid or sub claim).');
+        }
+
+        return {
+            id: claims.tid ? `${claims.tid}:${subject}` : subject,
+            name: (claims.preferred_username ?? claims.appid ?? claims.azp ?? claims.name) as string | undefined,
+            access,
+            tools,
+        };
+    }
+}
@@ -1,57 +1,29 @@
-import express from 'express';
-import { randomUUID } from 'node:crypto';
-import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
-import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
-import { getServer } from './mcp-server.js';
-import 'dotenv/config';
-
-// --- Express Server Setup ---
-const app = express();
-app.use(express.json());
+#!/usr/bin/env node
+// src/index.ts
 
-const transports: { [sessionId: string]: StreamableHTTPServerTransport } = {};
+// Loaded first, so the settings are in place before any other module reads them.
+import 'dotenv/config';
+import { parseArgs } from 'node:util';
+import { startHttpServer } from './http.js';
+import { startStdioServer } from './stdio.js';
+import { logger } from './logger.js';
 
-app.all('/mcp', async (req, res) => {
-    const sessionId = req.headers['mcp-session-id'] as string | undefined;
-    let transport: StreamableHTTPServerTransport;
+const { values } = parseArgs({
+    options: {
+        // Serve a single session over stdin/stdout instead of the HTTP endpoint.
+        stdio: { type: 'boolean', default: false },
+        // The default environment of the stdio session.
+        environment: { type: 'string' },
+    },
+});
 
-    if (sessionId && transports[sessionId]) {
-        transport = transports[sessionId];
-    } else if (!sessionId && isInitializeRequest(req.body)) {
-        transport = new StreamableHTTPServerTransport({
-            sessionIdGenerator: () => randomUUID(),
-            onsessioninitialized: (newSessionId: string) => {
-                console.log(`Session initialized with ID: ${newSessionId}`);
-                transports[newSessionId] = transport;
-            },
-        });
-        const server = getServer();
-        await server.connect(transport);
+try {
+    if (values.stdio) {
+        await startStdioServer({ environment: values.environment });
     } else {
-        res.status(400).json({
-            jsonrpc: '2.0',
-            error: { code: -32000, message: 'Bad Request: Missing or invalid session ID.' },
-            id: null,
-        });
-        return;
+        await startHttpServer();
     }
-
-    try {
-        await transport.handleRequest(req, res, req.body);
-    } catch (error) {
-        console.error('Error handling MCP request:', error);
-        if (!res.headersSent) {
-            res.status(500).json({
-                jsonrpc: '2.0',
-                error: { code: -32603, message: 'Internal server error.' },
-                id: null,
-            });
-        }
-    }
-});
-
-const PORT = process.env.PORT || 3000;
-app.listen(PORT, () => {
-    console.log(`Dynamics 365 F&O MCP Server listening on port ${PORT}`);
-    console.log('Please ensure you have a .env file with your Dynamics 365 credentials.');
-});
+} catch (error) {
+    logger.error(`The server could not start: ${(error as Error).message}`);
+    process.exit(1);
+}
@@ -0,0 +1,54 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { createSign, generateKeyPairSync } from 'node:crypto';
+import { JwtVerifier } from './jwt.js';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const jwks = { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1', use: 'sig' }] };
+
+global.fetch = jest.fn() as unknown as typeof fetch;
+const mockFetch = global.fetch as unknown as jest.Mock<(...args: unknown[]) => Promise<Response>>;
+
+function sign(claims: Record<string, unknown>, kid = 'key-1'): string {
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const unsigned = `${encode({ alg: 'RS256', typ: 'JWT', kid })}.${encode(claims)}`;
+    const signature = createSign('RSA-SHA256').update(unsigned).sign(privateKey.export({ type: 'pkcs8', format: 'pem' }));
+    return `${unsigned}.${signature.toString('base64url')}`;
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+const validClaims = () => ({ iss: 'https://issuer.test/', aud: 'api://mcp', sub: 'user-1', exp: now() + 600 });
+
+describe('JwtVerifier', () => {
+    let verifier: JwtVerifier;
+
+    beforeEach(() => {
+        mockFetch.mockReset();
+        mockFetch.mockImplementation(async () => new Response(JSON.stringify(jwks), { status: 200 }));
+        verifier = new JwtVerifier({ issuers: ['https://issuer.test/'], audiences: ['api://mcp'], jwksUri: 'https://issuer.test/keys' });
+    });
+
+    it('accepts a token signed with a published key and caches the keys', async () => {
+        await expect(verifier.verify(sign(validClaims()))).resolves.toMatchObject({ sub: 'user-1' });
+        await verifier.verify(sign(validClaims()));
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects an expired token', async () => {
+        await expect(verifier.verify(sign({ ...validClaims(), exp: now() - 3600 }))).rejects.toThrow('expired');
+    });
+
+    it('rejects a token for another audience or issuer', async () => {
+        await expect(verifier.verify(sign({ ...validClaims(), aud: 'api://other' }))).rejects.toThrow('audience');
+        await expect(verifier.verify(sign({ ...validClaims(), iss: 'https://evil.test/' }))).rejects.toThrow('issuer');
+    });
+
+    it('rejects a tampered token', async () => {
+        const [header, , signature] = sign(validClaims()).split('.');
+        const forged = Buffer.from(JSON.stringify({ ...validClaims(), sub: 'admin' })).toString('base64url');
+        await expect(verifier.verify(`${header}.${forged}.${signature}`)).rejects.toThrow('signature is invalid');
+    });
+
+    it('rejects a token signed with an unknown key', async () => {
+        await expect(verifier.verify(sign(validClaims(), 'key-2'))).rejects.toThrow("unknown key 'key-2'");
+    });
+});
@@ -0,0 +1,145 @@
+// src/jwt.ts
+
+import { createPublicKey, createVerify, JsonWebKey, KeyObject } from 'node:crypto';
+import { logger } from './logger.js';
+
+// Seconds of clock skew tolerated when checking exp and nbf.
+const CLOCK_TOLERANCE_SECONDS = 300;
+// An unknown key ID triggers a JWKS refresh at most this often, so forged kids cannot flood the endpoint.
+const JWKS_MIN_REFRESH_MS = 60 * 1000;
+
+const SIGNATURE_ALGORITHMS: Record<string, { hash: string; dsaEncoding?: 'ieee-p1363' }> = {
+    RS256: { hash: 'RSA-SHA256' },
+    RS384: { hash: 'RSA-SHA384' },
+    RS512: { hash: 'RSA-SHA512' },
+    ES256: { hash: 'SHA256', dsaEncoding: 'ieee-p1363' },
+    ES384: { hash: 'SHA384', dsaEncoding: 'ieee-p1363' },
+};
+
+export interface JwtClaims {
+    iss?: string;
+    aud?: string | string[];
+    sub?: string;
+    exp?: number;
+    nbf?: number;
+    [claim: string]: unknown;
+}
+
+export interface JwtVerifierOptions {
+    // Accepted values of the iss claim.
+    issuers: string[];
+    // Accepted values of the aud claim.
+    audiences: string[];
+    jwksUri: string;
+}
+
+function decodeSegment(segment: string): Record<string, unknown> {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
+
+/**
+ * Validates signed JWTs against the keys published at a JWKS endpoint.
+ * Keys are cached and only re-downloaded when a token names a key ID that is not in the cache.
+ */
+export class JwtVerifier {
+    private keys = new Map<string, KeyObject>();
+    private lastRefresh = 0;
+
+    constructor(private readonly options: JwtVerifierOptions) {}
+
+    /**
+     * Checks the signature, issuer, audience and lifetime of a token.
+     * @returns The token's claims.
+     * @throws If the token is malformed, not signed by a published key, or any claim check fails.
+     */
+    public async verify(token: string): Promise<JwtClaims> {
+        const segments = token.split('.');
+        if (segments.length !== 3) {
+            throw new Error('The token is not a JWT.');
+        }
+
+        let header: Record<string, unknown>;
+        let claims: JwtClaims;
+        try {
+            header = decodeSegment(segments[0]);
+            claims = decodeSegment(segments[1]) as JwtClaims;
+        } catch {
+            throw new Error('The token is not a JWT.');
+        }
+
+        const algorithm = SIGNATURE_ALGORITHMS[header.alg as string];
+        if (!algorithm) {
+            throw new Error(`Unsupported token signing algorithm '${header.alg}'.`);
+        }
+
+        const key = await this.getKey(header.kid as string | undefined);
+        const valid = createVerify(algorithm.hash)
+            .update(`${segments[0]}.${segments[1]}`)
+            .verify({ key, dsaEncoding: algorithm.dsaEncoding }, Buffer.from(segments[2], 'base64url'));
+        if (!valid) {
+            throw new Error('The token signature is invalid.');
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        if (typeof claims.exp !== 'number' || claims.exp + CLOCK_TOLERANCE_SECONDS < now) {
+            throw new Error('The token has expired.');
+        }
+        if (typeof claims.nbf === 'number' && claims.nbf - CLOCK_TOLERANCE_SECONDS > now) {
+            throw new Error('The token is not valid yet.');
+        }
+        if (!claims.iss || !this.options.issuers.includes(claims.iss)) {
+            throw new Error(`The token issuer '${claims.iss}' is not accepted.`);
+        }
+        const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+        if (!audiences.some(aud => aud && this.options.audiences.includes(aud))) {
+            throw new Error(`The token audience '${claims.aud}' is not accepted.`);
+        }
+
+        return claims;
+    }
+
+    private async getKey(kid: string | undefined): Promise<KeyObject> {
+        const cached = this.findKey(kid);
+        if (cached) {
+            return cached;
+        }
+        if (Date.now() - this.lastRefresh >= JWKS_MIN_REFRESH_MS) {
+            await this.refreshKeys();
+        }
+        const refreshed = this.findKey(kid);
+        if (!refreshed) {
+            throw new Error(`The token was signed with an unknown key '${kid}'.`);
+        }
+        return refreshed;
+    }
+
+    private findKey(kid: string | undefined): KeyObject | undefined {
+        if (kid) {
+            return this.keys.get(kid);
+        }
+        // Tokens without a kid are only accepted when the issuer publishes a single key.
+        return this.keys.size === 1 ? this.keys.values().next().value : undefined;
+    }
+
+    private async refreshKeys(): Promise<void> {
+        this.lastRefresh = Date.now();
+        const response = await fetch(this.options.jwksUri, { headers: { 'Accept': 'application/json' } });
+        if (!response.ok) {
+            throw new Error(`Failed to download signing keys from ${this.options.jwksUri}: ${response.status}`);
+        }
+
+        const { keys } = await response.json() as { keys?: (JsonWebKey & { kid?: string; use?: string })[] };
+        const loaded = new Map<string, KeyObject>();
+        for (const jwk of keys ?? []) {
+            if (jwk.use && jwk.use !== 'sig') {
+                continue;
+            }
+            try {
+                loaded.set(jwk.kid ?? String(loaded.size), createPublicKey({ key: jwk, format: 'jwk' }));
+            } catch (error) {
+                logger.warn(`Skipping unreadable signing key '${jwk.kid}':`, error);
+            }
+        }
+        this.keys = loaded;
+    }
+}
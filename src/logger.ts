@@ -0,0 +1,30 @@
+// src/logger.ts
+
+import { format } from 'node:util';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+function minimumLevel(): number {
+    const configured = LOG_LEVELS.indexOf((process.env.LOG_LEVEL || 'info').toLowerCase() as LogLevel);
+    return configured === -1 ? 1 : configured;
+}
+
+function write(level: LogLevel, args: unknown[]): void {
+    if (LOG_LEVELS.indexOf(level) < minimumLevel()) {
+        return;
+    }
+    process.stderr.write(`${format(...args)}\n`);
+}
+
+/**
+ * The server's diagnostic log. Every level goes to stderr, because in stdio mode stdout carries
+ * the JSON-RPC stream and a stray line would corrupt it. LOG_LEVEL sets the minimum level (default info).
+ */
+export const logger = {
+    debug: (...args: unknown[]) => write('debug', args),
+    info: (...args: unknown[]) => write('info', args),
+    warn: (...args: unknown[]) => write('warn', args),
+    error: (...args: unknown[]) => write('error', args),
+};
@@ -5,27 +5,57 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
 import { ListToolsResultSchema, TextContent, CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { AuthConfig } from './auth.js';
 
 // Create mock functions
 const mockMakeApiCall = jest.fn();
+const mockFetchJson = jest.fn();
+const mockFetchCount = jest.fn();
+const mockSendBatch = jest.fn();
+const mockSendConditionalPatch = jest.fn();
+const mockFetchAllPages = jest.fn();
 const mockFindBestMatch = jest.fn();
 const mockGetEntitySchema = jest.fn();
+const mockRefreshMetadata = jest.fn();
+const mockGetEnumType = jest.fn();
+const mockGetEntitySetForType = jest.fn();
+const mockGetOperations = jest.fn();
+const mockGetEntities = jest.fn();
+
+class MockODataError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+    }
+}
 
 
 // Mock modules BEFORE importing the module that uses them
 jest.unstable_mockModule('./api.js', () => ({
-    makeApiCall: mockMakeApiCall
+    makeApiCall: mockMakeApiCall,
+    fetchJson: mockFetchJson,
+    fetchCount: mockFetchCount,
+    sendBatch: mockSendBatch,
+    sendConditionalPatch: mockSendConditionalPatch,
+    fetchAllPages: mockFetchAllPages,
+    MAX_SERVER_PAGE_SIZE: 100,
+    ODataError: MockODataError
 }));
 
 jest.unstable_mockModule('./entityManager.js', () => ({
     EntityManager: jest.fn().mockImplementation(() => ({
         findBestMatch: mockFindBestMatch,
-        getEntitySchema: mockGetEntitySchema
+        getEntitySchema: mockGetEntitySchema,
+        refreshMetadata: mockRefreshMetadata,
+        getEnumType: mockGetEnumType,
+        getEntitySetForType: mockGetEntitySetForType,
+        getOperations: mockGetOperations,
+        getEntities: mockGetEntities
     }))
 }));
 
 // Import after mocking
 const { getServer } = await import('./mcp-server.js');
+const { EnvironmentRegistry } = await import('./environments.js');
 
 // --- TEST SUITE ---
 
@@ -47,13 +77,18 @@ describe('MCP Server Integration Tests', () => {
         mockMakeApiCall.mockResolvedValue({
             content: [{ type: 'text', text: '{"value": []}' }]
         });
+        mockFetchJson.mockResolvedValue({ value: [] });
+        mockGetEntities.mockResolvedValue([{ name: 'CustomersV3', url: 'CustomersV3' }]);
+        mockGetOperations.mockResolvedValue([]);
         mockGetEntitySchema.mockResolvedValue({
             name: 'CustomersV3',
             fields: [
                 { name: 'dataAreaId', type: 'Edm.String' },
                 { name: 'CustomerAccount', type: 'Edm.String' },
                 { name: 'PurchaseOrderStatus', type: 'Microsoft.Dynamics.DataEntities.PurchStatus' }
-            ]
+            ],
+            navigationProperties: [],
+            operations: []
         });
 
 
@@ -102,7 +137,8 @@ describe('MCP Server Integration Tests', () => {
             'GET',
             expect.stringContaining('/data/$metadata'),
             null,
-            expect.any(Function)
+            expect.any(Function),
+            expect.objectContaining({ user: undefined })
         );
 
         const textContent = result.content?.[0] as TextContent;
@@ -134,10 +170,8 @@ describe('MCP Server Integration Tests', () => {
     });
 
     // --- MODIFIED TEST: Verify the "execution" mode ---
-    it('should call makeApiCall when odataQuery is called with planOnly=false', async () => {
-        mockMakeApiCall.mockResolvedValue({
-            content: [{ type: 'text', text: '{"value": [{"id": 1}]}' }],
-        });
+    it('should fetch the rows and return them as text and structured content when odataQuery is called with planOnly=false', async () => {
+        mockFetchJson.mockResolvedValue({ value: [{ '@odata.etag': 'W/"1"', dataAreaId: 'usmf', CustomerAccount: 'C1' }] });
 
         const result = await client.callTool({
             name: 'odataQuery',
@@ -153,15 +187,796 @@ describe('MCP Server Integration Tests', () => {
         expect(mockGetEntitySchema).toHaveBeenCalledWith('CustomersV3');
 
         // Verify the mock WAS called correctly
-        expect(mockMakeApiCall).toHaveBeenCalledWith(
-            'GET',
-            expect.stringContaining('/data/CustomersV3'),
-            null,
-            expect.any(Function)
-        );
+        expect(mockFetchJson).toHaveBeenCalledWith(expect.stringContaining('/data/CustomersV3'), expect.objectContaining({ user: undefined }));
 
         // Verify the result
         const textContent = result.content?.[0] as TextContent;
-        expect(textContent.text).toContain('"id": 1');
+        expect(textContent.text).toContain('"CustomerAccount": "C1"');
+        expect(result.structuredContent).toEqual({
+            entity: 'CustomersV3',
+            url: 'https://test.dynamics.com/data/CustomersV3?%24top=5',
+            planOnly: false,
+            columns: [{ name: 'dataAreaId', type: 'Edm.String' }, { name: 'CustomerAccount', type: 'Edm.String' }],
+            rows: [{ '@odata.etag': 'W/"1"', dataAreaId: 'usmf', CustomerAccount: 'C1' }],
+            rowCount: 1
+        });
+
+        const plan = await client.callTool({ name: 'odataQuery', arguments: { entity: 'customer' } }) as CallToolResult;
+        expect(plan.structuredContent).toEqual({ entity: 'CustomersV3', url: 'https://test.dynamics.com/data/CustomersV3?%24top=5', planOnly: true });
+    });
+
+    it('should project large entities to default fields and render rows as a markdown table', async () => {
+        const fields = [
+            { name: 'dataAreaId', type: 'Edm.String', isKey: true },
+            { name: 'CustomerAccount', type: 'Edm.String', isKey: true },
+            { name: 'OrganizationName', type: 'Edm.String', isKey: false },
+            ...Array.from({ length: 12 }, (_, i) => ({ name: `Field${i}`, type: 'Edm.String', isKey: false }))
+        ];
+        mockGetEntitySchema.mockResolvedValue({ name: 'CustomersV3', fields, navigationProperties: [], operations: [] });
+        mockFetchJson.mockResolvedValue({
+            value: [{ '@odata.etag': 'W/"1"', dataAreaId: 'usmf', CustomerAccount: 'C1', OrganizationName: 'Contoso' }],
+            '@odata.nextLink': 'https://test.dynamics.com/data/CustomersV3?$skiptoken=abc'
+        });
+
+        const plan = await client.callTool({ name: 'odataQuery', arguments: { entity: 'customer', format: 'markdown' } }) as CallToolResult;
+        expect((plan.content?.[0] as TextContent).text).toContain('**Default $select:** 3 of 15 fields');
+
+        const result = await client.callTool({ name: 'odataQuery', arguments: { entity: 'customer', format: 'markdown', planOnly: false } }) as CallToolResult;
+        const text = (result.content?.[0] as TextContent).text;
+
+        const [url] = mockFetchJson.mock.calls[0] as [string];
+        expect(new URL(url).searchParams.get('$select')).toBe('dataAreaId,CustomerAccount,OrganizationName');
+        expect(text).toContain('| dataAreaId | CustomerAccount | OrganizationName |\n|---|---|---|\n| usmf | C1 | Contoso |');
+        expect(text).not.toContain('@odata.etag');
+        expect(text).toContain('"cursor": "');
+        expect(text).toContain("12 of the entity's 15 fields were left out.");
+
+        expect((result.structuredContent as { nextCursor: string }).nextCursor).toBe(/"cursor": "([^"]+)"/.exec(text)![1]);
+
+        await client.callTool({ name: 'odataQuery', arguments: { entity: 'customer', select: '*', planOnly: false } });
+        expect(mockFetchJson).toHaveBeenLastCalledWith('https://test.dynamics.com/data/CustomersV3?%24top=5', expect.anything());
+    });
+
+    it('should correct close field names in filter and select and reject unknown ones', async () => {
+        const plan = await client.callTool({
+            name: 'odataQuery',
+            arguments: { entity: 'customer', filter: { 'purchase order status': 'Received' }, select: 'customer account,dataAreaId' }
+        }) as CallToolResult;
+        const text = (plan.content?.[0] as TextContent).text;
+
+        expect(text).toContain('**Field Corrections:**');
+        expect(text).toContain('| `purchase order status` | `PurchaseOrderStatus` |');
+        expect(text).toContain('| `customer account` | `CustomerAccount` |');
+        expect(text).toContain('%24select=CustomerAccount%2CdataAreaId');
+        expect((plan.structuredContent as { corrections: unknown[] }).corrections).toHaveLength(2);
+
+        const unknown = await client.callTool({ name: 'odataQuery', arguments: { entity: 'customer', filter: { Colour: 'red' } } }) as CallToolResult;
+        expect(unknown.isError).toBe(true);
+        expect((unknown.content?.[0] as TextContent).text).toContain("Invalid filter: Field 'Colour' does not exist on 'CustomersV3'.");
+    });
+
+    it('should sort by the requested fields, default to the key when paging and explain a rejected $search', async () => {
+        mockGetEntitySchema.mockResolvedValue({
+            name: 'CustomersV3',
+            fields: [
+                { name: 'dataAreaId', type: 'Edm.String', isKey: true },
+                { name: 'CustomerAccount', type: 'Edm.String', isKey: true },
+                { name: 'CreditLimit', type: 'Edm.Decimal', isKey: false }
+            ],
+            navigationProperties: [],
+            operations: []
+        });
+
+        await client.callTool({ name: 'odataQuery', arguments: { entity: 'customer', orderby: 'credit limit desc', top: 5, planOnly: false } });
+        expect(new URL(mockFetchJson.mock.calls[0][0] as string).searchParams.get('$orderby')).toBe('CreditLimit desc');
+
+        const paged = await client.callTool({ name: 'odataQuery', arguments: { entity: 'customer', skip: 5 } }) as CallToolResult;
+        const planText = (paged.content?.[0] as TextContent).text;
+        expect(planText).toContain('**Default $orderby:** `dataAreaId,CustomerAccount`');
+        expect(planText).toContain('%24orderby=dataAreaId%2CCustomerAccount');
+
+        const serverPaged = await client.callTool({ name: 'odataQuery', arguments: { entity: 'customer', top: 500 } }) as CallToolResult;
+        expect((serverPaged.content?.[0] as TextContent).text).toContain('%24orderby=dataAreaId%2CCustomerAccount');
+
+        const unpaged = await client.callTool({ name: 'odataQuery', arguments: { entity: 'customer' } }) as CallToolResult;
+        expect((unpaged.content?.[0] as TextContent).text).not.toContain('%24orderby');
+
+        mockFetchJson.mockRejectedValueOnce(new MockODataError('GET failed with status 501', 501));
+        const search = await client.callTool({ name: 'odataQuery', arguments: { entity: 'customer', search: 'contoso', planOnly: false } }) as CallToolResult;
+        expect(new URL(mockFetchJson.mock.calls[1][0] as string).searchParams.get('$search')).toBe('contoso');
+        expect(search.isError).toBe(true);
+        expect((search.content?.[0] as TextContent).text).toContain("The service rejected $search for 'CustomersV3'");
+
+        mockFetchJson.mockResolvedValueOnce({ value: [], '@odata.nextLink': 'https://test.dynamics.com/data/CustomersV3?$skiptoken=abc' });
+        const unordered = await client.callTool({ name: 'odataQuery', arguments: { entity: 'customer', top: 50, planOnly: false } }) as CallToolResult;
+        expect((unordered.content?.[0] as TextContent).text).toContain('This query has no $orderby, so later pages may repeat or miss rows.');
+    });
+
+    it('should return a write plan with a diff instead of writing when updateRecord is called without a token', async () => {
+        mockGetEntitySchema.mockResolvedValue({
+            name: 'CustomerV3',
+            fields: [
+                { name: 'dataAreaId', type: 'Edm.String', isKey: true },
+                { name: 'CustomerAccount', type: 'Edm.String', isKey: true },
+                { name: 'CreditLimit', type: 'Edm.Decimal', isKey: false }
+            ],
+            navigationProperties: [],
+            operations: []
+        });
+        mockFetchJson.mockResolvedValue({ dataAreaId: 'usmf', CustomerAccount: 'PM-001', CreditLimit: 1000 });
+
+        const result = await client.callTool({
+            name: 'updateRecord',
+            arguments: {
+                entity: 'customers',
+                key: { CustomerAccount: 'PM-001', dataAreaId: 'usmf' },
+                updateData: { CreditLimit: 5000 }
+            }
+        }) as CallToolResult;
+
+        expect(mockMakeApiCall).not.toHaveBeenCalled();
+        expect(mockFetchJson).toHaveBeenCalledWith("https://test.dynamics.com/data/CustomersV3(dataAreaId='usmf',CustomerAccount='PM-001')", expect.objectContaining({ user: undefined }));
+
+        const text = (result.content?.[0] as TextContent).text;
+        expect(text).toContain('## Write Plan');
+        expect(text).toContain('**Method:** `PATCH`');
+        expect(text).toContain('| `CreditLimit` | `1000` | `5000` | yes |');
+        expect(text).toMatch(/\*\*Confirmation Token:\*\* `[0-9a-f-]{36}`/);
+    });
+
+    it('should send the ETag read for the plan as If-Match and report a 412 as a conflict with a field diff', async () => {
+        mockGetEntitySchema.mockResolvedValue({
+            name: 'CustomerV3',
+            fields: [
+                { name: 'dataAreaId', type: 'Edm.String', isKey: true },
+                { name: 'CustomerAccount', type: 'Edm.String', isKey: true },
+                { name: 'CreditLimit', type: 'Edm.Decimal', isKey: false }
+            ],
+            navigationProperties: [],
+            operations: []
+        });
+        mockFetchJson.mockResolvedValueOnce({ '@odata.etag': 'W/"111"', dataAreaId: 'usmf', CustomerAccount: 'PM-001', CreditLimit: 1000 });
+        const args = { entity: 'customers', key: { CustomerAccount: 'PM-001', dataAreaId: 'usmf' }, updateData: { CreditLimit: 5000 } };
+
+        const plan = await client.callTool({ name: 'updateRecord', arguments: args }) as CallToolResult;
+        const planText = (plan.content?.[0] as TextContent).text;
+        expect(planText).toContain('**Concurrency:** sent with `If-Match: W/"111"`');
+        const token = planText.match(/\*\*Confirmation Token:\*\* `([0-9a-f-]{36})`/)![1];
+
+        mockSendConditionalPatch.mockResolvedValue({ status: 412, body: '' });
+        mockFetchJson.mockResolvedValueOnce({ '@odata.etag': 'W/"222"', dataAreaId: 'usmf', CustomerAccount: 'PM-001', CreditLimit: 2500 });
+        const result = await client.callTool({ name: 'updateRecord', arguments: { ...args, confirmationToken: token } }) as CallToolResult;
+
+        const url = "https://test.dynamics.com/data/CustomersV3(dataAreaId='usmf',CustomerAccount='PM-001')";
+        expect(mockSendConditionalPatch).toHaveBeenCalledWith(url, { CreditLimit: 5000 }, 'W/"111"', expect.objectContaining({ user: undefined }));
+        expect(mockMakeApiCall).not.toHaveBeenCalled();
+        expect(result.isError).toBe(true);
+        const text = (result.content?.[0] as TextContent).text;
+        expect(text).toContain('## Write Conflict');
+        expect(text).toContain('| `CreditLimit` | `5000` | `2500` | yes |');
+        expect(text).toContain('**Current ETag:** `W/"222"`');
+    });
+
+    it('should prefer an ETag from an earlier read and warn in the plan when the record has changed since', async () => {
+        mockGetEntitySchema.mockResolvedValue({
+            name: 'CustomerV3',
+            fields: [
+                { name: 'dataAreaId', type: 'Edm.String', isKey: true },
+                { name: 'CustomerAccount', type: 'Edm.String', isKey: true },
+                { name: 'CreditLimit', type: 'Edm.Decimal', isKey: false }
+            ],
+            navigationProperties: [],
+            operations: []
+        });
+        mockFetchJson.mockResolvedValue({ '@odata.etag': 'W/"222"', dataAreaId: 'usmf', CustomerAccount: 'PM-001', CreditLimit: 2500 });
+        const args = { entity: 'customers', key: { CustomerAccount: 'PM-001', dataAreaId: 'usmf' }, updateData: { CreditLimit: 5000 }, etag: 'W/"111"' };
+
+        const plan = await client.callTool({ name: 'updateRecord', arguments: args }) as CallToolResult;
+        const planText = (plan.content?.[0] as TextContent).text;
+        expect(planText).toContain('[WARNING] The record has changed since then');
+        const token = planText.match(/\*\*Confirmation Token:\*\* `([0-9a-f-]{36})`/)![1];
+
+        mockSendConditionalPatch.mockResolvedValue({ status: 204, body: '' });
+        const result = await client.callTool({ name: 'updateRecord', arguments: { ...args, confirmationToken: token } }) as CallToolResult;
+
+        expect(mockSendConditionalPatch).toHaveBeenCalledWith(expect.any(String), { CreditLimit: 5000 }, 'W/"111"', expect.anything());
+        expect((result.content?.[0] as TextContent).text).toBe('Operation successful (No Content).');
+    });
+
+    it('should execute the write only when the plan token is sent back with the same arguments', async () => {
+        const args = { customerData: { dataAreaId: 'usmf', CustomerAccount: 'PM-001' } };
+
+        const plan = await client.callTool({ name: 'createCustomer', arguments: args }) as CallToolResult;
+        const token = (plan.content?.[0] as TextContent).text.match(/"confirmationToken": "([0-9a-f-]{36})"/)![1];
+        expect(mockMakeApiCall).not.toHaveBeenCalled();
+
+        const changed = await client.callTool({
+            name: 'createCustomer',
+            arguments: { customerData: { dataAreaId: 'usmf', CustomerAccount: 'PM-002' }, confirmationToken: token }
+        }) as CallToolResult;
+        expect(changed.isError).toBe(true);
+        expect(mockMakeApiCall).not.toHaveBeenCalled();
+
+        const secondPlan = await client.callTool({ name: 'createCustomer', arguments: args }) as CallToolResult;
+        const secondToken = (secondPlan.content?.[0] as TextContent).text.match(/"confirmationToken": "([0-9a-f-]{36})"/)![1];
+        await client.callTool({ name: 'createCustomer', arguments: { ...args, confirmationToken: secondToken } });
+
+        expect(mockMakeApiCall).toHaveBeenCalledWith(
+            'POST',
+            'https://test.dynamics.com/data/CustomersV3',
+            { dataAreaId: 'usmf', CustomerAccount: 'PM-001' },
+            expect.any(Function),
+            expect.objectContaining({ user: undefined, idempotencyKey: undefined })
+        );
+    });
+
+    it('should reject unknown fields in createRecord without calling the API', async () => {
+        const result = await client.callTool({
+            name: 'createRecord',
+            arguments: {
+                entity: 'customers',
+                record: { CustomerAccount: 'PM-001', Colour: 'red' }
+            }
+        }) as CallToolResult;
+
+        expect(result.isError).toBe(true);
+        expect((result.content?.[0] as TextContent).text).toContain("Unknown field 'Colour'");
+        expect(mockMakeApiCall).not.toHaveBeenCalled();
+    });
+
+    it('should show each compiled clause in the plan when odataQuery gets an expression tree', async () => {
+        mockGetEntitySchema.mockResolvedValue({
+            name: 'CustomerV3',
+            fields: [
+                { name: 'dataAreaId', type: 'Edm.String', isKey: true },
+                { name: 'CreditLimit', type: 'Edm.Decimal', isKey: false }
+            ],
+            navigationProperties: [],
+            operations: []
+        });
+
+        const result = await client.callTool({
+            name: 'odataQuery',
+            arguments: {
+                entity: 'customer',
+                filter: {
+                    type: 'logical',
+                    operator: 'and',
+                    conditions: [
+                        { type: 'comparison', field: 'dataAreaId', operator: 'eq', value: 'usmf' },
+                        { type: 'comparison', field: 'CreditLimit', operator: 'ge', value: 1000 }
+                    ]
+                }
+            }
+        }) as CallToolResult;
+
+        const text = (result.content?.[0] as TextContent).text;
+        expect(text).toContain("| `CreditLimit ge 1000` | `CreditLimit` | `Edm.Decimal` |");
+        expect(text).toContain("**Compiled $filter:** `dataAreaId eq 'usmf' and CreditLimit ge 1000`");
+        expect(text).toContain('cross-company=true');
+    });
+
+    it('should describe enum values, navigation properties and bound actions with describeEntity', async () => {
+        mockFindBestMatch.mockResolvedValue('PurchaseOrderHeadersV2');
+        mockGetEntitySchema.mockResolvedValue({
+            name: 'PurchaseOrderHeaderV2',
+            fields: [
+                { name: 'dataAreaId', type: 'Edm.String', isKey: true, nullable: false, maxLength: 4 },
+                { name: 'PurchaseOrderNumber', type: 'Edm.String', isKey: true, nullable: false, maxLength: 20 },
+                { name: 'OrderVendorAccountNumber', type: 'Edm.String', isKey: false, nullable: false },
+                { name: 'PurchaseOrderStatus', type: 'Microsoft.Dynamics.DataEntities.PurchStatus', isKey: false, nullable: false }
+            ],
+            navigationProperties: [
+                { name: 'PurchaseOrderLines', targetType: 'Microsoft.Dynamics.DataEntities.PurchaseOrderLineV2', isCollection: true }
+            ],
+            operations: [
+                { name: 'Confirm', qualifiedName: 'Microsoft.Dynamics.DataEntities.Confirm', kind: 'Action', isBound: true, bindingType: 'Microsoft.Dynamics.DataEntities.PurchaseOrderHeaderV2', bindingIsCollection: false, parameters: [] }
+            ]
+        });
+        mockGetEnumType.mockResolvedValue({
+            name: 'Microsoft.Dynamics.DataEntities.PurchStatus',
+            isFlags: false,
+            members: [{ name: 'None', value: 0 }, { name: 'Backorder', value: 1 }, { name: 'Received', value: 2 }]
+        });
+        mockGetEntitySetForType.mockResolvedValue('PurchaseOrderLinesV2');
+
+        const result = await client.callTool({ name: 'describeEntity', arguments: { entity: 'purchase orders' } }) as CallToolResult;
+        const text = (result.content?.[0] as TextContent).text;
+
+        expect(text).toContain('**Key Fields:** `dataAreaId`, `PurchaseOrderNumber`');
+        expect(text).toContain('**Required Fields:** `OrderVendorAccountNumber`, `PurchaseOrderStatus`');
+        expect(text).toContain('- `PurchaseOrderStatus` (`Microsoft.Dynamics.DataEntities.PurchStatus`): None, Backorder, Received');
+        expect(text).toContain('| `PurchaseOrderLines` | `Microsoft.Dynamics.DataEntities.PurchaseOrderLineV2` | `PurchaseOrderLinesV2` | yes |');
+        expect(text).toContain('- `Confirm` (Action, bound to a single record)');
+    });
+
+    it('should plan a collection-bound action discovered from metadata with invokeAction', async () => {
+        const initialize = {
+            name: 'InitializeDataManagement',
+            qualifiedName: 'Microsoft.Dynamics.DataEntities.InitializeDataManagement',
+            kind: 'Action',
+            isBound: true,
+            bindingType: 'Microsoft.Dynamics.DataEntities.DataManagementDefinitionGroup',
+            bindingIsCollection: true,
+            parameters: []
+        };
+        mockFindBestMatch.mockResolvedValue('DataManagementDefinitionGroups');
+        mockGetEntitySchema.mockResolvedValue({
+            name: 'DataManagementDefinitionGroup',
+            fields: [{ name: 'DefinitionGroupId', type: 'Edm.String', isKey: true }],
+            navigationProperties: [],
+            operations: [initialize]
+        });
+        mockGetOperations.mockResolvedValue([initialize]);
+
+        const unbound = await client.callTool({ name: 'invokeAction', arguments: { action: 'initializeDataManagement' } }) as CallToolResult;
+        expect(unbound.isError).toBe(true);
+        expect((unbound.content?.[0] as TextContent).text).toContain("Call again with 'entity'");
+
+        const plan = await client.callTool({
+            name: 'invokeAction',
+            arguments: { action: 'InitializeDataManagement', entity: 'DataManagementDefinitionGroups' }
+        }) as CallToolResult;
+        const text = (plan.content?.[0] as TextContent).text;
+
+        expect(text).toContain('## Write Plan');
+        expect(text).toContain('https://test.dynamics.com/data/DataManagementDefinitionGroups/Microsoft.Dynamics.DataEntities.InitializeDataManagement');
+        expect(mockMakeApiCall).not.toHaveBeenCalled();
+    });
+
+    it('should send a confirmed batch and report per-operation results', async () => {
+        mockFindBestMatch.mockResolvedValue('SystemUsers');
+        mockGetEntitySchema.mockResolvedValue({
+            name: 'SystemUser',
+            fields: [
+                { name: 'UserID', type: 'Edm.String', isKey: true },
+                { name: 'UserId', type: 'Edm.String', isKey: true },
+                { name: 'SecurityRoleIdentifier', type: 'Edm.String', isKey: true }
+            ],
+            navigationProperties: [],
+            operations: []
+        });
+        mockSendBatch.mockImplementation(async () => ({
+            status: 200,
+            contentType: 'multipart/mixed; boundary=batchresponse_1',
+            body: [
+                '--batchresponse_1',
+                'Content-Type: application/http',
+                'Content-Transfer-Encoding: binary',
+                '',
+                'HTTP/1.1 400 Bad Request',
+                '',
+                '{"error":{"message":"Role does not exist."}}',
+                '--batchresponse_1--'
+            ].join('\r\n')
+        }));
+
+        mockGetEntities.mockResolvedValue([
+            { name: 'SystemUsers', url: 'SystemUsers' },
+            { name: 'SecurityUserRoleAssociations', url: 'SecurityUserRoleAssociations' }
+        ]);
+
+        const args = {
+            operations: [
+                { method: 'POST', url: 'SystemUsers', body: { UserID: 'jdoe' } },
+                { method: 'POST', url: 'SecurityUserRoleAssociations', body: { UserId: 'jdoe', SecurityRoleIdentifier: 'NOPE' } }
+            ],
+            idempotencyKey: 'onboard-jdoe'
+        };
+        const plan = await client.callTool({ name: 'batch', arguments: args }) as CallToolResult;
+        const planText = (plan.content?.[0] as TextContent).text;
+        expect(planText).toContain('"url": "SecurityUserRoleAssociations"');
+        expect(planText).toContain('"SecurityRoleIdentifier": "NOPE"');
+        const token = planText.match(/"confirmationToken": "([0-9a-f-]{36})"/)![1];
+        expect(mockSendBatch).not.toHaveBeenCalled();
+
+        const result = await client.callTool({ name: 'batch', arguments: { ...args, confirmationToken: token } }) as CallToolResult;
+        const text = (result.content?.[0] as TextContent).text;
+
+        expect(mockSendBatch).toHaveBeenCalledWith('https://test.dynamics.com/data/$batch', expect.stringMatching(/^batch_/), expect.stringContaining('Content-ID: 2'), expect.objectContaining({ user: undefined, idempotencyKey: 'onboard-jdoe' }));
+        expect(result.isError).toBe(true);
+        expect(text).toContain('2 of 2 operations failed or were rolled back.');
+        expect(text).toContain('"rolledBack": true');
+    });
+
+    it('should refuse batch URLs with line breaks, whitespace or a scheme', async () => {
+        for (const url of ["CustomersV3('x') HTTP/1.1\r\nX-Injected: 1", "CustomersV3('a b')", 'https://evil.example.com/data/CustomersV3']) {
+            const result = await client.callTool({ name: 'batch', arguments: { operations: [{ method: 'DELETE', url }] } }) as CallToolResult;
+            expect(result.isError).toBe(true);
+            expect((result.content?.[0] as TextContent).text).toContain('Must be a path relative to /data');
+        }
+        expect(mockSendBatch).not.toHaveBeenCalled();
+    });
+
+    it('should merge pages up to maxRows and return a cursor for the rest', async () => {
+        mockFetchAllPages.mockImplementation(async () => ({
+            rows: [{ CustomerAccount: 'C1' }, { CustomerAccount: 'C2' }],
+            pages: 2,
+            bytes: 512,
+            nextLink: 'https://test.dynamics.com/data/CustomersV3?$skiptoken=abc',
+            droppedRows: 0,
+            stoppedBy: 'maxRows',
+        }));
+
+        const result = await client.callTool({
+            name: 'odataQuery',
+            arguments: { entity: 'customer', maxRows: 2, planOnly: false }
+        }) as CallToolResult;
+        const text = (result.content?.[0] as TextContent).text;
+
+        const [url, limits] = mockFetchAllPages.mock.calls[0] as [string, unknown];
+        expect(url).not.toContain('%24top');
+        expect(limits).toEqual({ maxRows: 2, maxBytes: 1_000_000 });
+        expect(text).toContain('Returned 2 rows from 2 page(s)');
+        const cursor = /"cursor": "([^"]+)"/.exec(text)![1];
+
+        await client.callTool({
+            name: 'odataQuery',
+            arguments: { entity: 'customer', cursor, planOnly: false }
+        });
+        expect(mockFetchJson).toHaveBeenCalledWith('https://test.dynamics.com/data/CustomersV3?$skiptoken=abc', expect.objectContaining({ user: undefined }));
+    });
+
+    it('should say how many rows were dropped when the last page was cut short', async () => {
+        mockFetchAllPages.mockImplementation(async () => ({
+            rows: [{ CustomerAccount: 'C1' }, { CustomerAccount: 'C2' }],
+            pages: 1,
+            bytes: 256,
+            nextLink: null,
+            droppedRows: 3,
+            stoppedBy: 'maxRows',
+        }));
+
+        const result = await client.callTool({
+            name: 'odataQuery',
+            arguments: { entity: 'customer', maxRows: 2, planOnly: false }
+        }) as CallToolResult;
+        const text = (result.content?.[0] as TextContent).text;
+
+        expect(text).toContain('The service returned 3 more row(s) than requested on the last page; they were dropped, and there is no cursor to continue from.');
+        expect(text).not.toContain('"cursor"');
+    });
+
+    it('should resolve the entity and count filtered records per company with getEntityCount', async () => {
+        const args = { entity: 'customers', filter: { PurchaseOrderStatus: 'Backorder' }, companies: ['usmf', 'demf'] };
+
+        const plan = await client.callTool({ name: 'getEntityCount', arguments: args }) as CallToolResult;
+        const planText = (plan.content?.[0] as TextContent).text;
+        expect(mockFindBestMatch).toHaveBeenCalledWith('customers');
+        expect(planText).toContain('## Count Plan');
+        expect(planText).toContain("| `PurchaseOrderStatus eq Microsoft.Dynamics.DataEntities.PurchStatus'Backorder'` |");
+        expect(mockFetchCount).not.toHaveBeenCalled();
+
+        mockFetchCount.mockResolvedValueOnce(12).mockResolvedValueOnce(3);
+        const result = await client.callTool({ name: 'getEntityCount', arguments: { ...args, planOnly: false } }) as CallToolResult;
+
+        const urls = mockFetchCount.mock.calls.map(([url]) => new URL(url as string));
+        expect(urls.map(url => url.pathname)).toEqual(['/data/CustomersV3/$count', '/data/CustomersV3/$count']);
+        expect(urls.map(url => url.searchParams.get('$filter'))).toEqual([
+            "PurchaseOrderStatus eq Microsoft.Dynamics.DataEntities.PurchStatus'Backorder' and dataAreaId eq 'usmf'",
+            "PurchaseOrderStatus eq Microsoft.Dynamics.DataEntities.PurchStatus'Backorder' and dataAreaId eq 'demf'"
+        ]);
+        expect(urls.every(url => url.searchParams.get('cross-company') === 'true')).toBe(true);
+        expect(JSON.parse((result.content?.[0] as TextContent).text)).toEqual({
+            entity: 'CustomersV3',
+            count: 15,
+            counts: [{ dataAreaId: 'usmf', count: 12 }, { dataAreaId: 'demf', count: 3 }]
+        });
+        expect(result.structuredContent).toEqual(expect.objectContaining({ planOnly: false, count: 15, urls: urls.map(url => url.toString()) }));
+
+        mockFetchCount.mockResolvedValueOnce(42);
+        const total = await client.callTool({ name: 'getEntityCount', arguments: { entity: 'customers', planOnly: false } }) as CallToolResult;
+        expect(mockFetchCount).toHaveBeenLastCalledWith('https://test.dynamics.com/data/CustomersV3/$count', expect.anything());
+        expect(total.structuredContent).toEqual({ entity: 'CustomersV3', urls: ['https://test.dynamics.com/data/CustomersV3/$count'], planOnly: false, count: 42 });
+    });
+
+    it('should aggregate with $apply and fall back to aggregating rows when the service rejects it', async () => {
+        mockGetEntitySchema.mockResolvedValue({
+            name: 'SalesOrderLine',
+            fields: [
+                { name: 'dataAreaId', type: 'Edm.String' },
+                { name: 'CustomerGroupId', type: 'Edm.String' },
+                { name: 'LineAmount', type: 'Edm.Decimal' }
+            ],
+            navigationProperties: [],
+            operations: []
+        });
+        mockFindBestMatch.mockResolvedValue('SalesOrderLines');
+        const args = {
+            entity: 'sales lines',
+            filter: { dataAreaId: 'usmf' },
+            groupBy: ['customergroupid'],
+            aggregates: [{ function: 'sum', field: 'LineAmount', alias: 'Total' }, { function: 'count' }]
+        };
+
+        const plan = await client.callTool({ name: 'aggregate', arguments: args }) as CallToolResult;
+        expect((plan.content?.[0] as TextContent).text).toContain("**$apply:** `filter(dataAreaId eq 'usmf')/groupby((CustomerGroupId),aggregate(LineAmount with sum as Total,$count as Count))`");
+        expect(mockFetchJson).not.toHaveBeenCalled();
+
+        mockFetchJson.mockResolvedValueOnce({ value: [{ CustomerGroupId: 'Retail', Total: 150, Count: 2 }] });
+        const served = await client.callTool({ name: 'aggregate', arguments: { ...args, planOnly: false } }) as CallToolResult;
+        const [applyUrl] = mockFetchJson.mock.calls[0] as [string];
+        expect(new URL(applyUrl).searchParams.get('cross-company')).toBe('true');
+        expect((served.content?.[0] as TextContent).text).toContain('[INFO] Aggregated by the service with $apply.');
+
+        mockFetchJson.mockRejectedValueOnce(new MockODataError('GET failed with status 400', 400));
+        mockFetchAllPages.mockImplementation(async () => ({
+            rows: [{ CustomerGroupId: 'Retail', LineAmount: 100 }, { CustomerGroupId: 'Retail', LineAmount: 50 }],
+            pages: 1,
+            bytes: 256,
+            nextLink: 'https://test.dynamics.com/data/SalesOrderLines?$skiptoken=abc',
+            droppedRows: 0,
+            stoppedBy: 'maxRows',
+        }));
+        const fallback = await client.callTool({ name: 'aggregate', arguments: { ...args, maxRows: 2, planOnly: false } }) as CallToolResult;
+        const text = (fallback.content?.[0] as TextContent).text;
+
+        const [rowsUrl, limits] = mockFetchAllPages.mock.calls[0] as [string, unknown];
+        expect(new URL(rowsUrl).searchParams.get('$select')).toBe('CustomerGroupId,LineAmount');
+        expect(limits).toEqual({ maxRows: 2, maxBytes: 20_000_000 });
+        expect(JSON.parse(text.split('\n\n---')[0])).toEqual({ value: [{ CustomerGroupId: 'Retail', Total: 150, Count: 2 }] });
+        expect(text).toContain('2 rows were aggregated by the MCP server');
+        expect(text).toContain('[WARNING] The row budget was reached');
+        expect(fallback.structuredContent).toEqual(expect.objectContaining({
+            url: rowsUrl,
+            source: 'server',
+            complete: false,
+            columns: [{ name: 'CustomerGroupId', type: 'Edm.String' }, { name: 'Total', type: 'Edm.Decimal' }, { name: 'Count', type: 'Edm.Int64' }]
+        }));
+
+        mockFetchJson.mockRejectedValueOnce(new MockODataError('GET failed with status 401', 401));
+        const failed = await client.callTool({ name: 'aggregate', arguments: { ...args, planOnly: false } }) as CallToolResult;
+        expect(failed.isError).toBe(true);
+        expect(mockFetchAllPages).toHaveBeenCalledTimes(1);
+    });
+
+    it('should show corrected field names in the count and aggregation plans', async () => {
+        const count = await client.callTool({ name: 'getEntityCount', arguments: { entity: 'customer', filter: { 'data area id': 'usmf' } } }) as CallToolResult;
+        expect((count.content?.[0] as TextContent).text).toContain('| `data area id` | `dataAreaId` |');
+        expect(count.structuredContent).toEqual(expect.objectContaining({ corrections: [{ requested: 'data area id', resolved: 'dataAreaId' }] }));
+
+        const aggregate = await client.callTool({
+            name: 'aggregate',
+            arguments: { entity: 'customer', filter: { 'data area id': 'usmf' }, groupBy: ['customer_account'], aggregates: [{ function: 'count' }] }
+        }) as CallToolResult;
+        const text = (aggregate.content?.[0] as TextContent).text;
+        expect(text).toContain('**Field Corrections:**');
+        expect(text).toContain('| `customer_account` | `CustomerAccount` |');
+        expect(text).toContain('| `data area id` | `dataAreaId` |');
+    });
+
+    it('should count with $count instead of reading rows when a plain count falls back', async () => {
+        mockFindBestMatch.mockResolvedValue('SalesOrderLines');
+        const args = { entity: 'sales lines', aggregates: [{ function: 'count', alias: 'Lines' }] };
+
+        const plan = await client.callTool({ name: 'aggregate', arguments: args }) as CallToolResult;
+        expect((plan.content?.[0] as TextContent).text).toContain('the rows are counted with\n```\nhttps://test.dynamics.com/data/SalesOrderLines/$count\n```');
+
+        mockFetchJson.mockRejectedValueOnce(new MockODataError('GET failed with status 501', 501));
+        mockFetchCount.mockResolvedValueOnce(42);
+        const result = await client.callTool({ name: 'aggregate', arguments: { ...args, planOnly: false } }) as CallToolResult;
+
+        expect(mockFetchCount).toHaveBeenCalledWith('https://test.dynamics.com/data/SalesOrderLines/$count', expect.anything());
+        expect(mockFetchAllPages).not.toHaveBeenCalled();
+        expect(result.structuredContent).toEqual(expect.objectContaining({ url: 'https://test.dynamics.com/data/SalesOrderLines/$count', source: 'service', rows: [{ Lines: 42 }], complete: true }));
+    });
+
+    it('should send requests on behalf of the session user', async () => {
+        const user = { id: 'tenant:alice-oid', name: 'alice@contoso.com', assertion: 'alice-jwt' };
+        const userServer = getServer({ user });
+        const [userClientTransport, userServerTransport] = InMemoryTransport.createLinkedPair();
+        const userClient = new Client({ name: 'user-client', version: '1.0.0' });
+        await Promise.all([userClient.connect(userClientTransport), userServer.connect(userServerTransport)]);
+
+        await userClient.callTool({ name: 'odataQuery', arguments: { entity: 'customer', planOnly: false } });
+
+        expect(mockFetchJson).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({ user }));
+        await userClient.close();
+        await userServer.close();
+    });
+
+    it('should hide write and admin tools from a read-only caller', async () => {
+        const readOnlyServer = getServer({ caller: { id: 'key:reporting', access: 'read', tools: [] } });
+        const [readOnlyClientTransport, readOnlyServerTransport] = InMemoryTransport.createLinkedPair();
+        const readOnlyClient = new Client({ name: 'read-only-client', version: '1.0.0' });
+        await Promise.all([readOnlyClient.connect(readOnlyClientTransport), readOnlyServer.connect(readOnlyServerTransport)]);
+
+        const { tools } = await readOnlyClient.listTools();
+        const names = tools.map(t => t.name);
+        expect(names).toContain('odataQuery');
+        expect(names).toContain('describeEntity');
+        expect(names).not.toContain('createSystemUser');
+        expect(names).not.toContain('assignUserRole');
+        expect(names).not.toContain('createRecord');
+
+        const result = await readOnlyClient.callTool({ name: 'createSystemUser', arguments: { UserID: 'x', UserName: 'x', Email: 'x@x' } }) as CallToolResult;
+        expect(result.isError).toBe(true);
+        expect(mockMakeApiCall).not.toHaveBeenCalled();
+        await readOnlyClient.close();
+        await readOnlyServer.close();
+    });
+
+    it('should refuse a write caller that reaches admin-only sets and actions through the generic write tools', async () => {
+        const writeServer = getServer({ caller: { id: 'key:ops', access: 'write', tools: [] } });
+        const [writeClientTransport, writeServerTransport] = InMemoryTransport.createLinkedPair();
+        const writeClient = new Client({ name: 'write-client', version: '1.0.0' });
+        await Promise.all([writeClient.connect(writeClientTransport), writeServer.connect(writeServerTransport)]);
+
+        mockFindBestMatch.mockResolvedValue('SystemUsers');
+        mockGetEntities.mockResolvedValue([
+            { name: 'SystemUsers', url: 'SystemUsers' },
+            { name: 'SecurityUserRoleAssociations', url: 'SecurityUserRoleAssociations' },
+            { name: 'SecurityRoles', url: 'SecurityRoles' }
+        ]);
+        const created = await writeClient.callTool({ name: 'createRecord', arguments: { entity: 'system users', record: { UserID: 'jdoe' } } }) as CallToolResult;
+        expect(created.isError).toBe(true);
+        expect((created.content?.[0] as TextContent).text).toContain("needs the same access as 'createSystemUser'");
+
+        const batched = await writeClient.callTool({
+            name: 'batch',
+            arguments: { operations: [{ method: 'POST', url: 'SecurityUserRoleAssociations', body: { UserId: 'jdoe', SecurityRoleIdentifier: '-SYSADMIN-' } }] }
+        }) as CallToolResult;
+        expect(batched.isError).toBe(true);
+        expect((batched.content?.[0] as TextContent).text).toContain("needs the same access as 'assignUserRole'");
+
+        // Percent-encoded and re-cased paths resolve to the declared entity set, with or without a body.
+        for (const [url, adminTool] of [["%53ystemUsers('x')", 'createSystemUser'], ["systemusers('x')", 'createSystemUser'], ["SECURITYROLES('r')", 'assignUserRole']]) {
+            const disguised = await writeClient.callTool({ name: 'batch', arguments: { operations: [{ method: 'DELETE', url }] } }) as CallToolResult;
+            expect(disguised.isError).toBe(true);
+            expect((disguised.content?.[0] as TextContent).text).toContain(`needs the same access as '${adminTool}'`);
+        }
+
+        const unresolved = await writeClient.callTool({ name: 'batch', arguments: { operations: [{ method: 'DELETE', url: "NotAnEntity('x')" }] } }) as CallToolResult;
+        expect(unresolved.isError).toBe(true);
+        expect((unresolved.content?.[0] as TextContent).text).toContain("Operation 1: 'NotAnEntity' in 'NotAnEntity('x')' is not declared in $metadata.");
+
+        const initialize = { name: 'InitializeDataManagement', kind: 'Action', isBound: false, parameters: [] };
+        mockGetOperations.mockResolvedValue([initialize]);
+        const invoked = await writeClient.callTool({ name: 'invokeAction', arguments: { action: 'InitializeDataManagement' } }) as CallToolResult;
+        expect(invoked.isError).toBe(true);
+        expect((invoked.content?.[0] as TextContent).text).toContain("needs the same access as 'action_initializeDataManagement'");
+
+        expect(mockFetchJson).not.toHaveBeenCalled();
+        expect(mockMakeApiCall).not.toHaveBeenCalled();
+        expect(mockSendBatch).not.toHaveBeenCalled();
+        await writeClient.close();
+        await writeServer.close();
+    });
+
+    it('should target the environment selected for the session and refuse writes to a read-only one', async () => {
+        const auth = { mode: 'client_secret', tenantId: 't', clientId: 'c', clientSecret: 's', endpointVersion: 'v1' } as AuthConfig;
+        const environments = new EnvironmentRegistry([
+            { name: 'dev', resourceUrl: 'https://dev.dynamics.com', readOnly: false, auth: { ...auth, resourceUrl: 'https://dev.dynamics.com' } },
+            { name: 'prod', resourceUrl: 'https://prod.dynamics.com', readOnly: true, auth: { ...auth, resourceUrl: 'https://prod.dynamics.com' } },
+        ]);
+        const envServer = getServer({ environments });
+        const [envClientTransport, envServerTransport] = InMemoryTransport.createLinkedPair();
+        const envClient = new Client({ name: 'env-client', version: '1.0.0' });
+        await Promise.all([envClient.connect(envClientTransport), envServer.connect(envServerTransport)]);
+
+        await envClient.callTool({ name: 'odataQuery', arguments: { entity: 'customer', planOnly: false } });
+        expect(mockFetchJson).toHaveBeenLastCalledWith(expect.stringMatching(/^https:\/\/dev\.dynamics\.com\/data\//), expect.objectContaining({ authManager: expect.anything() }));
+
+        await envClient.callTool({ name: 'selectEnvironment', arguments: { name: 'PROD' } });
+        await envClient.callTool({ name: 'odataQuery', arguments: { entity: 'customer', planOnly: false } });
+        expect(mockFetchJson).toHaveBeenLastCalledWith(expect.stringMatching(/^https:\/\/prod\.dynamics\.com\/data\//), expect.anything());
+
+        mockMakeApiCall.mockClear();
+        const write = await envClient.callTool({ name: 'createRecord', arguments: { entity: 'customers', record: { CustomerAccount: 'PM-001' } } }) as CallToolResult;
+        expect(write.isError).toBe(true);
+        expect((write.content?.[0] as TextContent).text).toContain('read-only');
+
+        const unknown = await envClient.callTool({ name: 'odataQuery', arguments: { entity: 'customer', environment: 'test' } }) as CallToolResult;
+        expect(unknown.isError).toBe(true);
+        expect((unknown.content?.[0] as TextContent).text).toContain("Unknown environment 'test'");
+        expect(mockMakeApiCall).not.toHaveBeenCalled();
+        await envClient.close();
+        await envServer.close();
+    });
+
+    it('should expose the entity list and single entity schemas as resources', async () => {
+        mockGetEntities.mockResolvedValue([
+            { name: 'CustomersV3', url: 'CustomersV3' },
+            { name: 'CustomerGroups', url: 'CustomerGroups' },
+            { name: 'VendorsV2', url: 'VendorsV2' }
+        ]);
+
+        const { resources } = await client.listResources();
+        expect(resources.map(r => r.uri)).toEqual(expect.arrayContaining(['d365://entities', 'd365://entity/CustomersV3/schema']));
+        const { resourceTemplates } = await client.listResourceTemplates();
+        expect(resourceTemplates.map(t => t.uriTemplate)).toContain('d365://entity/{name}/schema');
+
+        const list = await client.readResource({ uri: 'd365://entities' });
+        expect(JSON.parse(list.contents[0].text as string).entitySets).toContainEqual({ name: 'VendorsV2', schemaUri: 'd365://entity/VendorsV2/schema' });
+
+        const schema = await client.readResource({ uri: 'd365://entity/CustomersV3/schema' });
+        expect(schema.contents[0].mimeType).toBe('application/json');
+        expect(JSON.parse(schema.contents[0].text as string).fields).toContainEqual({ name: 'CustomerAccount', type: 'Edm.String' });
+
+        const completion = await client.complete({ ref: { type: 'ref/resource', uri: 'd365://entity/{name}/schema' }, argument: { name: 'name', value: 'cust' } });
+        expect(completion.completion.values).toEqual(['CustomersV3', 'CustomerGroups']);
+
+        mockFindBestMatch.mockResolvedValue(null);
+        await expect(client.readResource({ uri: 'd365://entity/Nothing/schema' })).rejects.toThrow("Could not find a matching entity for 'Nothing'");
+    });
+
+    it('should offer workflow prompts and hide those that need tools the caller may not use', async () => {
+        const { prompts } = await client.listPrompts();
+        expect(prompts.map(p => p.name)).toEqual(expect.arrayContaining(['onboardUser', 'customerOpenOrders', 'vendorStatus', 'updateCustomerDetails']));
+
+        const prompt = await client.getPrompt({ name: 'customerOpenOrders', arguments: { customerAccount: 'US-001', company: 'usmf' } });
+        expect((prompt.messages[0].content as TextContent).text).toContain('Look up customer US-001 in company usmf');
+
+        const readOnlyServer = getServer({ caller: { id: 'key:reporting', access: 'read', tools: [] } });
+        const [readOnlyClientTransport, readOnlyServerTransport] = InMemoryTransport.createLinkedPair();
+        const readOnlyClient = new Client({ name: 'read-only-client', version: '1.0.0' });
+        await Promise.all([readOnlyClient.connect(readOnlyClientTransport), readOnlyServer.connect(readOnlyServerTransport)]);
+
+        const readOnlyPrompts = (await readOnlyClient.listPrompts()).prompts.map(p => p.name);
+        expect(readOnlyPrompts).toContain('vendorStatus');
+        expect(readOnlyPrompts).not.toContain('onboardUser');
+        await readOnlyClient.close();
+        await readOnlyServer.close();
+    });
+
+    it('should register manifest tools with typed key arguments and the write plan flow', async () => {
+        const keys = [
+            { name: 'dataAreaId', type: 'Edm.String', isKey: true },
+            { name: 'VendorGroupId', type: 'Edm.String', isKey: true }
+        ];
+        const description = { name: 'Description', type: 'Edm.String', isKey: false };
+        mockGetEntitySchema.mockResolvedValue({ name: 'VendorGroup', fields: [...keys, description], navigationProperties: [], operations: [] });
+        const declaredTools = [
+            { name: 'getVendorGroups', description: 'Lists vendor groups.', entitySet: 'VendorGroups', method: 'GET' as const, keys, fields: [description], readOnly: true, environment: 'default' },
+            { name: 'updateVendorGroup', description: 'Updates a vendor group.', entitySet: 'VendorGroups', method: 'PATCH' as const, keys, fields: [description], readOnly: false, environment: 'default' }
+        ];
+        const manifestServer = getServer({ declaredTools, caller: { id: 'key:reporting', access: 'read', tools: ['updateVendorGroup'] } });
+        const [manifestClientTransport, manifestServerTransport] = InMemoryTransport.createLinkedPair();
+        const manifestClient = new Client({ name: 'manifest-client', version: '1.0.0' });
+        await Promise.all([manifestClient.connect(manifestClientTransport), manifestServer.connect(manifestServerTransport)]);
+
+        const tools = (await manifestClient.listTools()).tools;
+        expect(tools.map(t => t.name)).toEqual(expect.arrayContaining(['getVendorGroups', 'updateVendorGroup']));
+        const rowSchema = (tools.find(t => t.name === 'getVendorGroups')!.outputSchema!.properties!.rows as { items: { properties: Record<string, unknown> } }).items;
+        expect(Object.keys(rowSchema.properties)).toEqual(['dataAreaId', 'VendorGroupId', 'Description']);
+        expect(tools.find(t => t.name === 'updateVendorGroup')!.outputSchema).toBeUndefined();
+
+        mockFetchJson.mockResolvedValueOnce({ value: [{ Description: 'Domestic' }] });
+        const groups = await manifestClient.callTool({ name: 'getVendorGroups', arguments: { dataAreaId: 'usmf' } }) as CallToolResult;
+        expect(mockFetchJson).toHaveBeenCalledWith(
+            "https://test.dynamics.com/data/VendorGroups?%24top=5&cross-company=true&%24select=Description&%24filter=dataAreaId+eq+%27usmf%27",
+            expect.anything()
+        );
+        expect(groups.structuredContent).toEqual(expect.objectContaining({ entity: 'VendorGroups', rows: [{ Description: 'Domestic' }], rowCount: 1 }));
+
+        const rejected = await manifestClient.callTool({ name: 'updateVendorGroup', arguments: { dataAreaId: 'usmf', VendorGroupId: '10', data: { PaymentTermId: 'Net30' } } }) as CallToolResult;
+        expect(rejected.isError).toBe(true);
+
+        mockFetchJson.mockResolvedValue({ Description: 'Old' });
+        const args = { dataAreaId: 'usmf', VendorGroupId: '10', data: { Description: 'New' } };
+        const plan = await manifestClient.callTool({ name: 'updateVendorGroup', arguments: args }) as CallToolResult;
+        const planText = (plan.content?.[0] as TextContent).text;
+        expect(planText).toContain("VendorGroups(dataAreaId='usmf',VendorGroupId='10')");
+        const token = /"confirmationToken": "([0-9a-f-]{36})"/.exec(planText)![1];
+
+        await manifestClient.callTool({ name: 'updateVendorGroup', arguments: { ...args, confirmationToken: token } });
+        expect(mockMakeApiCall).toHaveBeenLastCalledWith('PATCH', "https://test.dynamics.com/data/VendorGroups(dataAreaId='usmf',VendorGroupId='10')", { Description: 'New' }, expect.any(Function), expect.anything());
+        await manifestClient.close();
+        await manifestServer.close();
+
+        expect(() => getServer({ declaredTools: [{ ...declaredTools[0], name: 'odataQuery' }] })).toThrow("'odataQuery' is already the name of a built-in tool.");
+
+        // A tool checked against another environment's metadata does not run in this one.
+        const pinnedServer = getServer({ declaredTools: [{ ...declaredTools[1], environment: 'dev' }] });
+        const [pinnedClientTransport, pinnedServerTransport] = InMemoryTransport.createLinkedPair();
+        const pinnedClient = new Client({ name: 'pinned-client', version: '1.0.0' });
+        await Promise.all([pinnedClient.connect(pinnedClientTransport), pinnedServer.connect(pinnedServerTransport)]);
+        mockFetchJson.mockClear();
+        const elsewhere = await pinnedClient.callTool({ name: 'updateVendorGroup', arguments: args }) as CallToolResult;
+        expect(elsewhere.isError).toBe(true);
+        expect((elsewhere.content?.[0] as TextContent).text).toContain("'updateVendorGroup' was checked against the metadata of environment 'dev' and only runs there, not in 'default'.");
+        expect(mockFetchJson).not.toHaveBeenCalled();
+        await pinnedClient.close();
+        await pinnedServer.close();
     });
-});
\ No newline at end of file
+});
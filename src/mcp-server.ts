@@ -1,78 +1,484 @@
 // src/mcp-server.ts
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, RegisteredResource, RegisteredResourceTemplate, RegisteredTool, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { makeApiCall } from './api.js';
-import { EntityManager } from './entityManager.js';
+import { ApiCallOptions, fetchAllPages, fetchCount, fetchJson, makeApiCall, MAX_SERVER_PAGE_SIZE, ODataError, sendBatch, sendConditionalPatch } from './api.js';
+import { aggregateMeasureSchema, aggregateRows, AggregateSpec, buildApplyExpression, getAggregateColumns, getAggregateFields, isCountOnly, resolveAggregateSpec } from './aggregate.js';
+import { UserContext } from './auth.js';
+import { AccessLevel, Caller, canUseTool, getAdminToolForTarget } from './inboundAuth.js';
+import { buildBatchRequest, parseBatchResponse, RELATIVE_PATH_PATTERN } from './batch.js';
+import { decodeCursor, encodeCursor } from './paging.js';
+import { ConfirmationStore, PlanState } from './confirmations.js';
+import { logger } from './logger.js';
+import { EntityField, EntitySchema, EnumType } from './entityManager.js';
+import { Environment, EnvironmentRegistry } from './environments.js';
+import { loadPromptTemplates, renderPrompt } from './prompts.js';
+import { buildKeySegment, diffRecord, formatODataLiteral, getKeyFields, KeyValue, NUMERIC_TYPES, validateRecord } from './odata.js';
+import { FieldCorrection, FieldResolver, resolveExpand, resolveOrderBy, resolveSelect } from './fieldResolver.js';
+import { resolveResourcePath, ResolvedPath } from './resourcePath.js';
+import { formatRows, MAX_RESULT_CHARS, OUTPUT_FORMATS, selectDefaultFields } from './resultFormat.js';
+import { DeclaredTool, getDeclaredToolAccess } from './toolManifest.js';
+import { buildOperationSegment, describeBinding, validateOperationParameters } from './operations.js';
+import { CompiledClause, CompiledFilter, compileFilter, FilterExpression, filterExpressionSchema, isFilterExpression } from './filterExpression.js';
 import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
-import { ServerRequest, ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+import { CallToolResult, ServerRequest, ServerNotification, TextContent } from '@modelcontextprotocol/sdk/types.js';
 
-const entityManager = new EntityManager();
+// Shared by every session, so each environment's metadata and tokens are cached once per process.
+const sharedEnvironments = new EnvironmentRegistry();
 const DEFAULT_PAGE_SIZE = 5;
+const DEFAULT_MAX_BYTES = 1_000_000;
+// Limits of the client-side fallback of the aggregate tool. The rows are not returned, so the byte budget is larger.
+const DEFAULT_AGGREGATE_MAX_ROWS = 5000;
+const AGGREGATE_MAX_BYTES = 20_000_000;
+const ENTITY_SCHEMA_URI_TEMPLATE = 'd365://entity/{name}/schema';
+// Completion suggestions returned for a partially typed entity name.
+const MAX_COMPLETIONS = 100;
 
 async function safeNotification(context: RequestHandlerExtra<ServerRequest, ServerNotification>, notification: any): Promise<void> {
     try {
         await context.sendNotification(notification);
     } catch (error) {
-        console.log('Notification failed (this is normal in test environments):', error);
+        logger.debug('Notification failed (this is normal in test environments):', error);
     }
 }
 
-function buildSmartFilterString(filterObject?: Record<string, string>, schema?: any | null): string | null {
-    if (!filterObject || !schema || Object.keys(filterObject).length === 0) {
-        return null;
+/**
+ * Resolves a (possibly inexact) entity name to its entity set and parsed schema.
+ * Returns an error result that can be handed straight back to the client when either lookup fails.
+ */
+async function resolveEntity(environment: Environment, entity: string): Promise<{ entitySet: string; schema: EntitySchema } | { error: CallToolResult }> {
+    const entitySet = await environment.entityManager.findBestMatch(entity);
+
+    if (!entitySet) {
+        return { error: { isError: true, content: [{ type: 'text', text: `Could not find a matching entity for '${entity}'.` }] } };
     }
 
-    const filterClauses = Object.entries(filterObject).map(([key, value]) => {
-        const schemaField = schema.fields.find((f: any) => f.name.toLowerCase() === key.toLowerCase());
+    return loadEntity(environment, entitySet);
+}
 
-        if (!schemaField) {
-            console.warn(`Field '${key}' not found in schema for '${schema.name}'. Defaulting to string filter.`);
-            return `${key} eq '${value}'`;
+/**
+ * Loads the parsed schema for an exact entity set name.
+ */
+async function loadEntity(environment: Environment, entitySet: string): Promise<{ entitySet: string; schema: EntitySchema } | { error: CallToolResult }> {
+    const schema = await environment.entityManager.getEntitySchema(entitySet);
+
+    if (!schema) {
+        const errorMsg = `Could not find a schema for entity '${entitySet}'. This can happen if the entity set name differs from its type name. Please check the server logs for a list of all available schema keys that were successfully parsed.`;
+        return { error: { isError: true, content: [{ type: 'text', text: errorMsg }] } };
+    }
+
+    return { entitySet, schema };
+}
+
+/**
+ * Builds the URL of a single record from the entity set and its key values.
+ */
+function buildRecordUrl(environment: Environment, entitySet: string, schema: EntitySchema, key: Record<string, KeyValue>): string {
+    return `${environment.resourceUrl}/data/${entitySet}${buildKeySegment(schema, key)}`;
+}
+
+function entitySchemaUri(entitySet: string): string {
+    return ENTITY_SCHEMA_URI_TEMPLATE.replace('{name}', encodeURIComponent(entitySet));
+}
+
+interface WriteRequest {
+    method: 'POST' | 'PATCH' | 'DELETE';
+    url: string;
+    body: Record<string, unknown> | null;
+    // When present, the body is validated against this schema before the plan is issued.
+    schema?: EntitySchema;
+    // Sends the request once confirmed. Defaults to a JSON call through makeApiCall.
+    execute?: () => Promise<CallToolResult>;
+}
+
+function formatPlanValue(value: unknown): string {
+    return value === undefined ? '_(not set)_' : `\`${JSON.stringify(value)}\``;
+}
+
+/**
+ * Sends a confirmed update with If-Match. When the record changed since the ETag was read (412), the
+ * current server values are read again and compared field by field with the intended change, so the
+ * caller can decide whether to re-plan.
+ */
+async function executeConditionalPatch(
+    environment: Environment,
+    apiOptions: ApiCallOptions,
+    toolName: string,
+    url: string,
+    body: Record<string, unknown>,
+    etag: string,
+    idempotencyKey: string | undefined
+): Promise<CallToolResult> {
+    let response: { status: number; body: string };
+    try {
+        response = await sendConditionalPatch(url, body, etag, { ...apiOptions, idempotencyKey });
+    } catch (error) {
+        return { isError: true, content: [{ type: 'text', text: `An unexpected error occurred: ${(error as Error).message}` }] };
+    }
+
+    if (response.status === 204) {
+        return { content: [{ type: 'text', text: 'Operation successful (No Content).' }] };
+    }
+    if (response.status >= 200 && response.status < 300) {
+        return { content: [{ type: 'text', text: response.body || 'Operation successful.' }] };
+    }
+    if (response.status !== 412) {
+        let details = response.body;
+        try {
+            details = JSON.stringify(JSON.parse(response.body), null, 2);
+        } catch {
+            // Not JSON; show the body as is.
+        }
+        return { isError: true, content: [{ type: 'text', text: `API Error: ${response.status}\n${details}` }] };
+    }
+
+    let conflictOutput = '## Write Conflict\n\n';
+    conflictOutput += `The record at \`${url}\` in \`${environment.name}\` was changed by someone else after ETag \`${etag}\` was read, so the update was not applied.\n\n`;
+    try {
+        const current = await fetchJson(url, apiOptions);
+        conflictOutput += '| Field | Intended Value | Current Server Value | Differs |\n';
+        conflictOutput += '|-------|----------------|----------------------|---------|\n';
+        for (const change of diffRecord(current, body)) {
+            conflictOutput += `| \`${change.field}\` | ${formatPlanValue(change.newValue)} | ${formatPlanValue(change.currentValue)} | ${change.changed ? 'yes' : 'no'} |\n`;
+        }
+        conflictOutput += `\n**Current ETag:** \`${current['@odata.etag'] ?? '(none)'}\`\n\n`;
+    } catch (error) {
+        conflictOutput += `_Could not read the current record: ${(error as Error).message}_\n\n`;
+    }
+    conflictOutput += `To apply the change to the current version, call \`${toolName}\` again without a confirmationToken (and without etag) to get a new plan.`;
+    return { isError: true, content: [{ type: 'text', text: conflictOutput }] };
+}
+
+/**
+ * Runs the two-phase plan/confirm flow shared by every mutating tool.
+ * Without a confirmation token, the request is validated and described in a plan, and a token
+ * bound to these exact arguments and the target environment is issued. With a valid token, the request is sent.
+ */
+async function planOrExecuteWrite(
+    confirmations: ConfirmationStore,
+    environment: Environment,
+    apiOptions: ApiCallOptions,
+    toolName: string,
+    toolArgs: Record<string, unknown>,
+    context: RequestHandlerExtra<ServerRequest, ServerNotification>,
+    buildRequest: () => WriteRequest
+): Promise<CallToolResult> {
+    if (environment.readOnly) {
+        return { isError: true, content: [{ type: 'text', text: `Environment '${environment.name}' is read-only. Write tools are disabled for it.` }] };
+    }
+    // The resolved environment is part of the token, so changing the session default between plan and confirmation cannot redirect the write.
+    const args: Record<string, unknown> = { ...toolArgs, environment: environment.name };
+
+    let request: WriteRequest;
+    try {
+        request = buildRequest();
+    } catch (error) {
+        return { isError: true, content: [{ type: 'text', text: (error as Error).message }] };
+    }
+
+    if (request.schema && request.body) {
+        const errors = validateRecord(request.schema, request.body);
+        if (errors.length > 0) {
+            return { isError: true, content: [{ type: 'text', text: `Record validation failed:\n- ${errors.join('\n- ')}` }] };
         }
+    }
 
-        if (schemaField.type.startsWith('Edm.')) {
-            return `${schemaField.name} eq '${value}'`;
+    const confirmationToken = args.confirmationToken as string | undefined;
+    if (confirmationToken) {
+        const planState = confirmations.consume(confirmationToken, toolName, args);
+        if (!planState) {
+            return { isError: true, content: [{ type: 'text', text: 'The confirmation token is invalid, has expired, or was issued for different arguments. Call the tool again without a confirmationToken to get a new plan.' }] };
+        }
+        if (request.execute) {
+            return request.execute();
+        }
+        // An ETag from the caller wins over the one read for the plan.
+        const etag = (args.etag as string | undefined) ?? planState.etag;
+        if (request.method === 'PATCH' && request.body && etag) {
+            return executeConditionalPatch(environment, apiOptions, toolName, request.url, request.body, etag, args.idempotencyKey as string | undefined);
+        }
+        return makeApiCall(request.method, request.url, request.body, async (notification) => {
+            await safeNotification(context, notification);
+        }, { ...apiOptions, idempotencyKey: args.idempotencyKey as string | undefined });
+    }
+
+    let planOutput = '## Write Plan\n\n';
+    planOutput += `**Environment:** \`${environment.name}\` (${environment.resourceUrl})\n\n`;
+    planOutput += `**Method:** \`${request.method}\`\n\n`;
+    planOutput += `**Target URL:**\n\`\`\`\n${request.url}\n\`\`\`\n\n`;
+    if (request.body) {
+        planOutput += `**Request Body:**\n\`\`\`json\n${JSON.stringify(request.body, null, 2)}\n\`\`\`\n\n`;
+    }
+
+    const planState: PlanState = {};
+    if (request.method === 'PATCH' && request.body) {
+        planOutput += '**Changes Against Current Record:**\n';
+        let currentEtag: string | undefined;
+        try {
+            const current = await fetchJson(request.url, apiOptions);
+            currentEtag = typeof current['@odata.etag'] === 'string' ? current['@odata.etag'] : undefined;
+            planOutput += '| Field | Current Value | New Value | Changed |\n';
+            planOutput += '|-------|---------------|-----------|---------|\n';
+            for (const change of diffRecord(current, request.body)) {
+                planOutput += `| \`${change.field}\` | ${formatPlanValue(change.currentValue)} | ${formatPlanValue(change.newValue)} | ${change.changed ? 'yes' : 'no'} |\n`;
+            }
+        } catch (error) {
+            planOutput += `_Could not read the current record: ${(error as Error).message}_\n`;
+        }
+        planOutput += '\n';
+
+        const callerEtag = args.etag as string | undefined;
+        if (callerEtag) {
+            planOutput += `**Concurrency:** sent with \`If-Match: ${callerEtag}\` from your earlier read.`;
+            if (currentEtag && currentEtag !== callerEtag) {
+                planOutput += ` [WARNING] The record has changed since then (its ETag is now \`${currentEtag}\`), so this write will be rejected. Read the record again, or leave out etag to write against the current version shown above.`;
+            }
+            planOutput += '\n\n';
+        } else if (currentEtag) {
+            planState.etag = currentEtag;
+            planOutput += `**Concurrency:** sent with \`If-Match: ${currentEtag}\`. If the record changes before you confirm, the write is rejected instead of overwriting the other change.\n\n`;
         } else {
-            return `${schemaField.name} eq ${schemaField.type}'${value}'`;
+            planOutput += '**Concurrency:** the current record has no ETag, so the write is sent without If-Match.\n\n';
         }
+    }
+
+    const { token, expiresAt } = confirmations.issue(toolName, args, planState);
+    planOutput += `**Confirmation Token:** \`${token}\` (expires at ${expiresAt.toISOString()})\n\n`;
+    planOutput += `To execute this write, call \`${toolName}\` again with the same parameters and \`"confirmationToken": "${token}"\`.`;
+
+    return { content: [{ type: 'text', text: planOutput }] };
+}
+
+/**
+ * Compiles the `filter` argument of odataQuery, which is either a legacy key-value map of
+ * equality checks or a typed expression tree. Field names are matched to the schema by the resolver.
+ * @throws If a field name is unknown or ambiguous.
+ */
+function buildSmartFilterString(filter: Record<string, string> | FilterExpression | undefined, schema: EntitySchema, resolver: FieldResolver = new FieldResolver(schema)): CompiledFilter | null {
+    if (!filter || Object.keys(filter).length === 0) {
+        return null;
+    }
+
+    if (isFilterExpression(filter)) {
+        return compileFilter(filter, schema, resolver);
+    }
+
+    const clauses: CompiledClause[] = Object.entries(filter).map(([key, value]) => {
+        const schemaField = resolver.resolveField(key);
+        return { clause: `${schemaField.name} eq ${formatODataLiteral(value, schemaField.type)}`, field: schemaField.name, type: schemaField.type };
     });
 
-    return filterClauses.join(' and ');
+    return { filter: clauses.map(c => c.clause).join(' and '), clauses };
+}
+
+/**
+ * Renders the field names that were matched to differently spelled schema names, for a query plan.
+ */
+function describeCorrections(corrections: FieldCorrection[]): string {
+    if (corrections.length === 0) {
+        return '';
+    }
+    let output = '**Field Corrections:**\n';
+    output += '| Requested | Resolved |\n';
+    output += '|-----------|----------|\n';
+    for (const { requested, resolved } of corrections) {
+        output += `| \`${requested.replace(/\|/g, '\\|')}\` | \`${resolved}\` |\n`;
+    }
+    return output + '\n';
+}
+
+/**
+ * Renders the "Filter Analysis" section of a query plan: each compiled clause with the field and type it was mapped to.
+ */
+function describeFilter(compiledFilter: CompiledFilter | null): string {
+    let output = '**Filter Analysis:**\n';
+    if (!compiledFilter) {
+        return output + '_No filters were provided._\n';
+    }
+
+    output += '| Compiled Clause | Mapped to Field | Detected Type |\n';
+    output += '|-----------------|-----------------|---------------|\n';
+    for (const { clause, field, type } of compiledFilter.clauses) {
+        output += `| \`${clause.replace(/\|/g, '\\|')}\` | \`${field}\` | \`${type}\` |\n`;
+    }
+    return output + `\n**Compiled $filter:** \`${compiledFilter.filter}\`\n`;
 }
 
+const environmentSchema = z.string().optional()
+    .describe("The Dynamics 365 environment to use, as listed by selectEnvironment. Defaults to the session's environment.");
+
 const odataQuerySchema = z.object({
     entity: z.string().describe("The OData entity set to query (e.g., CustomersV3, ReleasedProductsV2)."),
-    select: z.string().optional().describe("OData $select query parameter to limit the fields returned."),
-    filter: z.record(z.string()).optional().describe("Key-value pairs for filtering. e.g., { ProductNumber: 'D0001', PurchaseOrderStatus: 'Received' }."),
+    select: z.string().optional().describe("OData $select query parameter to limit the fields returned. Without it, large entities return their key and descriptive fields; pass '*' for every field."),
+    filter: z.union([filterExpressionSchema, z.record(z.string())]).optional().describe("Either key-value pairs for equality filtering, e.g., { ProductNumber: 'D0001', PurchaseOrderStatus: 'Received' }, or an expression tree of comparison, logical and function nodes, e.g., { type: 'logical', operator: 'and', conditions: [{ type: 'comparison', field: 'CreditLimit', operator: 'gt', value: 1000 }, { type: 'function', name: 'startswith', field: 'Name', value: 'Contoso' }] }."),
     expand: z.string().optional().describe("OData $expand query parameter."),
+    orderby: z.string().optional().describe("Fields to sort by, each optionally followed by asc or desc, e.g. 'OrderCreationDateTime desc,SalesOrderNumber'. Without it, paged queries (skip or maxRows) are sorted by the entity's key fields."),
+    search: z.string().optional().describe("Free-text OData $search. Only some entities support it; otherwise use a filter with contains."),
     top: z.number().optional().describe(`The number of records to return per page. Defaults to ${DEFAULT_PAGE_SIZE}.`),
     skip: z.number().optional().describe("The number of records to skip. Used for pagination to get the next set of results."),
     crossCompany: z.boolean().optional().describe("Set to true to query across all companies."),
+    maxRows: z.number().int().positive().optional().describe("Follow @odata.nextLink on the server until this many rows are collected, and return them as one merged result. Without it, a single page is returned."),
+    maxBytes: z.number().int().positive().optional().describe(`Only with maxRows: stop following pages once this many response bytes were read. Defaults to ${DEFAULT_MAX_BYTES}.`),
+    cursor: z.string().optional().describe("The continuation cursor from a previous result. Continues exactly where that result stopped; the filter, select, expand and order of the original query are carried in the cursor."),
+    format: z.enum(OUTPUT_FORMATS).optional().describe("How to return the rows: 'json' (default, the full service response), 'compact' (one-line JSON without OData annotations), 'markdown' (a table), 'csv', or 'summary' (per-field counts, ranges and most common values instead of rows)."),
     planOnly: z.boolean().optional().default(true).describe("Default is true. If true, returns the execution plan without running the query. Set to false to execute the query."),
+    environment: environmentSchema,
 });
 
+const confirmationTokenSchema = z.string().optional()
+    .describe("Leave empty on the first call to receive a write plan. To execute the write, call again with the same arguments and the token from the plan.");
+
+const idempotencyKeySchema = z.string().optional()
+    .describe("Optional. A unique value for this write, e.g. a GUID. With it, the write is retried automatically when the service throttles the request.");
+
+const etagSchema = z.string().optional()
+    .describe("Optional. The @odata.etag of the record from an earlier odataQuery result. The update is rejected if the record has changed since. Without it, the ETag read for the write plan is used.");
+
 const createCustomerSchema = z.object({
     customerData: z.record(z.unknown()).describe("A JSON object for the new customer. Must include dataAreaId, CustomerAccount, etc."),
+    environment: environmentSchema,
+    confirmationToken: confirmationTokenSchema,
 });
 
 const updateCustomerSchema = z.object({
     dataAreaId: z.string().describe("The dataAreaId of the customer (e.g., 'usmf')."),
     customerAccount: z.string().describe("The customer account ID to update (e.g., 'PM-001')."),
     updateData: z.record(z.unknown()).describe("A JSON object with the fields to update."),
+    etag: etagSchema,
+    environment: environmentSchema,
+    confirmationToken: confirmationTokenSchema,
+});
+
+const describeEntitySchema = z.object({
+    entity: z.string().describe("The OData entity set to describe (e.g., PurchaseOrderHeadersV2). Inexact names are resolved automatically."),
+    environment: environmentSchema,
 });
 
 const getEntityCountSchema = z.object({
-    entity: z.string().describe("The OData entity set to count (e.g., CustomersV3)."),
+    entity: z.string().describe("The OData entity set to count (e.g., CustomersV3). The name does not need to be exact."),
+    filter: odataQuerySchema.shape.filter,
     crossCompany: z.boolean().optional().describe("Set to true to count across all companies."),
+    companies: z.array(z.string()).optional().describe("Legal entities (dataAreaId) to count separately, e.g. ['usmf', 'demf']. Returns one count per company in a single call."),
+    planOnly: z.boolean().optional().default(true).describe("Default is true. If true, returns the count URLs without running them. Set to false to execute."),
+    environment: environmentSchema,
+});
+
+const aggregateSchema = z.object({
+    entity: z.string().describe("The OData entity set to aggregate (e.g., SalesOrderLines)."),
+    filter: odataQuerySchema.shape.filter,
+    groupBy: z.array(z.string()).optional().describe("Fields to group by, e.g. ['CustomerGroupId']. Without aggregates, returns the distinct combinations of these fields."),
+    aggregates: z.array(aggregateMeasureSchema).optional().describe("The aggregations to compute per group, e.g. [{ function: 'sum', field: 'LineAmount', alias: 'TotalAmount' }, { function: 'count' }]."),
+    crossCompany: z.boolean().optional().describe("Set to true to aggregate across all companies."),
+    maxRows: z.number().int().positive().optional().describe(`If the entity does not support $apply, at most this many rows are read and aggregated by this server. Defaults to ${DEFAULT_AGGREGATE_MAX_ROWS}.`),
+    planOnly: z.boolean().optional().default(true).describe("Default is true. If true, returns the $apply pipeline without running it. Set to false to execute."),
+    environment: environmentSchema,
+});
+
+// --- Output Schemas ---
+// Read tools also return their data as structuredContent, so clients can chain results without parsing the text.
+
+const columnSchema = z.object({
+    name: z.string(),
+    type: z.string().describe("The type from $metadata, e.g. Edm.Decimal, or 'Unknown' for columns the schema does not declare."),
+});
+
+const correctionsSchema = z.array(z.object({ requested: z.string(), resolved: z.string() })).optional()
+    .describe('Field names that were matched to differently spelled schema fields.');
+
+const queryOutputSchema = z.object({
+    entity: z.string().describe('The entity set that was queried.'),
+    url: z.string().describe('The request URL.'),
+    planOnly: z.boolean().describe('True when only the plan was returned and nothing was sent.'),
+    columns: z.array(columnSchema).optional().describe('The columns of the rows, with their types.'),
+    rows: z.array(z.record(z.unknown())).optional(),
+    rowCount: z.number().int().optional(),
+    nextCursor: z.string().optional().describe('Pass as cursor to odataQuery to continue where these rows stopped.'),
+    corrections: correctionsSchema,
+});
+
+const countOutputSchema = z.object({
+    entity: z.string(),
+    urls: z.array(z.string()).describe('The $count URLs, one per company when companies were given.'),
+    planOnly: z.boolean(),
+    count: z.number().int().optional().describe('The number of matching records, summed over the companies.'),
+    counts: z.array(z.object({ dataAreaId: z.string(), count: z.number().int() })).optional().describe('The count of each company.'),
+    corrections: correctionsSchema,
+});
+
+const aggregateOutputSchema = z.object({
+    entity: z.string(),
+    url: z.string().describe('The $apply URL.'),
+    planOnly: z.boolean(),
+    source: z.enum(['service', 'server']).optional().describe("'service' when the service computed the result ($apply, or $count for a plain count), 'server' when rows were aggregated by this server."),
+    columns: z.array(columnSchema).optional(),
+    rows: z.array(z.record(z.unknown())).optional(),
+    complete: z.boolean().optional().describe('False when the row budget of the server-side aggregation cut the data short.'),
+    corrections: correctionsSchema,
 });
 
 const createSystemUserSchema = z.object({
      userData: z.record(z.unknown()).describe("A JSON object for the new system user. Must include UserID, Alias, Company, etc."),
+     environment: environmentSchema,
+     confirmationToken: confirmationTokenSchema,
 });
 
 const assignUserRoleSchema = z.object({
     associationData: z.record(z.unknown()).describe("JSON object for the role association. Must include UserId and SecurityRoleIdentifier."),
+    environment: environmentSchema,
+    confirmationToken: confirmationTokenSchema,
+});
+
+const recordKeySchema = z.record(z.union([z.string(), z.number(), z.boolean()]))
+    .describe("The key fields of the record, e.g., { dataAreaId: 'usmf', CustomerAccount: 'PM-001' }. Every key field declared in $metadata must be provided.");
+
+const createRecordSchema = z.object({
+    entity: z.string().describe("The OData entity set to create the record in (e.g., CustomersV3). Inexact names are resolved automatically."),
+    record: z.record(z.unknown()).describe("A JSON object with the fields of the new record. Fields are checked against the entity schema."),
+    idempotencyKey: idempotencyKeySchema,
+    environment: environmentSchema,
+    confirmationToken: confirmationTokenSchema,
+});
+
+const updateRecordSchema = z.object({
+    entity: z.string().describe("The OData entity set of the record to update (e.g., CustomersV3)."),
+    key: recordKeySchema,
+    updateData: z.record(z.unknown()).describe("A JSON object with the fields to update. Fields are checked against the entity schema."),
+    etag: etagSchema,
+    idempotencyKey: idempotencyKeySchema,
+    environment: environmentSchema,
+    confirmationToken: confirmationTokenSchema,
+});
+
+const deleteRecordSchema = z.object({
+    entity: z.string().describe("The OData entity set of the record to delete (e.g., CustomersV3)."),
+    key: recordKeySchema,
+    environment: environmentSchema,
+    confirmationToken: confirmationTokenSchema,
+});
+
+const invokeActionSchema = z.object({
+    action: z.string().optional().describe("The name of the action or function to call, e.g. 'InitializeDataManagement'. Omit to list the operations declared in $metadata."),
+    entity: z.string().optional().describe("The entity set a bound operation belongs to (e.g., DataManagementDefinitionGroups). Also narrows the listing to that entity."),
+    key: recordKeySchema.optional().describe("The key of the record, for operations bound to a single entity. Omit for operations bound to the entity set."),
+    parameters: z.record(z.unknown()).optional().describe("The operation parameters by name. They are checked against the declared signature."),
+    idempotencyKey: idempotencyKeySchema,
+    environment: environmentSchema,
+    confirmationToken: confirmationTokenSchema,
+});
+
+const batchOperationSchema = z.object({
+    id: z.string().optional().describe("Content-ID of the operation. Later operations in the same change set can address the record it creates as `$<id>`, e.g. `$1/SalesOrderLines`. Defaults to the 1-based position."),
+    method: z.enum(['GET', 'POST', 'PATCH', 'DELETE']),
+    url: z.string().regex(RELATIVE_PATH_PATTERN, "Must be a path relative to /data, without a scheme, whitespace or control characters. Percent-encode spaces in key values.").describe("Path relative to /data, e.g. 'SalesOrderHeadersV2', \"CustomersV3(dataAreaId='usmf',CustomerAccount='C-001')\", or a Content-ID reference such as '$1/SalesOrderLines'."),
+    body: z.record(z.unknown()).optional().describe("The JSON body for POST and PATCH operations. Validated against the entity schema when the URL addresses an entity set."),
+    changeSet: z.string().optional().describe("Name of the change set. Consecutive writes in the same change set succeed or fail together. Writes default to one shared change set; GET operations cannot be in a change set."),
+});
+
+const batchSchema = z.object({
+    operations: z.array(batchOperationSchema).min(1).describe("The operations to send in one $batch request, in execution order."),
+    idempotencyKey: idempotencyKeySchema,
+    environment: environmentSchema,
+    confirmationToken: confirmationTokenSchema,
 });
 
 const updatePositionHierarchySchema = z.object({
@@ -81,75 +487,254 @@ const updatePositionHierarchySchema = z.object({
     validFrom: z.string().datetime().describe("The start validity date in ISO 8601 format."),
     validTo: z.string().datetime().describe("The end validity date in ISO 8601 format."),
     updateData: z.record(z.unknown()).describe("A JSON object with the fields to update (e.g., ParentPositionId)."),
+    etag: etagSchema,
+    environment: environmentSchema,
+    confirmationToken: confirmationTokenSchema,
+});
+
+const environmentOnlySchema = z.object({
+    environment: environmentSchema,
+});
+
+const selectEnvironmentSchema = z.object({
+    name: z.string().optional().describe("The environment to use for the rest of this session. Omit to list the configured environments."),
+});
+
+const initializeDataManagementSchema = z.object({
+    environment: environmentSchema,
+    confirmationToken: confirmationTokenSchema,
 });
 
+/**
+ * The argument schema of a single field value, by its Edm type.
+ */
+function fieldValueSchema(field: EntityField): z.ZodTypeAny {
+    if (field.type === 'Edm.Boolean') {
+        return z.boolean();
+    }
+    return NUMERIC_TYPES.includes(field.type) ? z.number() : z.string();
+}
+
+/**
+ * Builds the row schema of a manifest GET tool from the fields it returns. Values may be null,
+ * and OData annotations such as `@odata.etag` pass through.
+ */
+function buildDeclaredRowSchema(tool: DeclaredTool): z.ZodTypeAny {
+    const fields = [...tool.keys.filter(key => tool.fields.every(f => f.name !== key.name)), ...tool.fields];
+    return z.object(Object.fromEntries(fields.map(field => [field.name, fieldValueSchema(field).nullable().optional()]))).passthrough();
+}
+
+/**
+ * Lists the columns of query rows with their types from $metadata. Without rows, the selected
+ * fields are listed instead.
+ */
+function describeColumns(schema: EntitySchema, rows: Record<string, unknown>[], selected?: string[]): z.infer<typeof columnSchema>[] {
+    const names = rows.length > 0
+        ? [...new Set(rows.flatMap(row => Object.keys(row)))].filter(name => !name.includes('@'))
+        : selected ?? schema.fields.map(f => f.name);
+    return names.map(name => {
+        const field = schema.fields.find(f => f.name === name);
+        const navigation = schema.navigationProperties.find(n => n.name === name);
+        const type = field?.type ?? (navigation ? (navigation.isCollection ? `Collection(${navigation.targetType})` : navigation.targetType) : 'Unknown');
+        return { name, type };
+    });
+}
+
+/**
+ * Builds the argument schema of a manifest tool: one argument per key field, plus the fields
+ * it may write as `data`, paging options for GET and a confirmation token for writes.
+ */
+function buildDeclaredToolSchema(tool: DeclaredTool): z.ZodObject<z.ZodRawShape> {
+    const shape: z.ZodRawShape = {};
+    for (const key of tool.keys) {
+        const keySchema = fieldValueSchema(key).describe(tool.method === 'GET' ? `Only return records with this ${key.name}.` : `The ${key.name} of the record.`);
+        shape[key.name] = tool.method === 'GET' ? keySchema.optional() : keySchema;
+    }
+    if (tool.method === 'GET') {
+        shape.top = z.number().int().positive().optional().describe(`The number of records to return. Defaults to ${DEFAULT_PAGE_SIZE}.`);
+        shape.crossCompany = z.boolean().optional().describe('Set to true to query across all companies.');
+    }
+    if (tool.method === 'POST' || tool.method === 'PATCH') {
+        const fields = Object.fromEntries(tool.fields.map(field => [field.name, fieldValueSchema(field).nullable().optional()]));
+        shape.data = z.object(fields).strict().describe(`The fields to write. Allowed: ${tool.fields.map(f => f.name).join(', ')}.`);
+    }
+    if (tool.method === 'PATCH') {
+        shape.etag = etagSchema;
+    }
+    shape.environment = z.string().optional().describe(`The Dynamics 365 environment to use. This tool only runs in '${tool.environment}', whose $metadata it was checked against.`);
+    if (tool.method !== 'GET') {
+        shape.confirmationToken = confirmationTokenSchema;
+    }
+    return z.object(shape);
+}
+
+/**
+ * Per-session state handed to the server by the transport layer.
+ */
+export interface SessionOptions {
+    // Confirmation tokens issued with write plans. Defaults to a store private to this server instance.
+    confirmations?: ConfirmationStore;
+    // The caller to act for with on-behalf-of tokens. Without it, requests use the app's own token.
+    // The transport layer may replace the assertion when the caller sends a refreshed token.
+    user?: UserContext;
+    // The authenticated client. Without it, every tool is available.
+    caller?: Caller;
+    // The configured environments. Defaults to the registry shared by all sessions.
+    environments?: EnvironmentRegistry;
+    // The environment used when a tool call does not name one. Defaults to the registry's default.
+    environment?: string;
+    // Tools from the tool manifest, already validated against $metadata.
+    declaredTools?: DeclaredTool[];
+}
+
 /**
  * Creates and configures the MCP server with all the tools for the D365 API.
  */
-export const getServer = (): McpServer => {
+export const getServer = (options: SessionOptions = {}): McpServer => {
+    const confirmations = options.confirmations ?? new ConfirmationStore();
+    const environments = options.environments ?? sharedEnvironments;
+    let sessionEnvironment = options.environment;
+
+    /**
+     * Looks up the environment a tool call targets, falling back to the session default.
+     */
+    const useEnvironment = (name: string | undefined): { environment: Environment; apiOptions: ApiCallOptions } | { error: CallToolResult } => {
+        try {
+            const environment = environments.get(name ?? sessionEnvironment);
+            return { environment, apiOptions: { user: options.user, authManager: environment.authManager } };
+        } catch (error) {
+            return { error: { isError: true, content: [{ type: 'text', text: (error as Error).message }] } };
+        }
+    };
+
+    // The generic write tools may not reach what the admin tools manage unless the caller may use those tools.
+    const checkAdminTarget = (target: string): { error: CallToolResult } | null => {
+        const adminTool = getAdminToolForTarget(target);
+        if (!adminTool || !options.caller || canUseTool(options.caller, adminTool)) {
+            return null;
+        }
+        return { error: { isError: true, content: [{ type: 'text', text: `Writing to '${target}' needs the same access as '${adminTool}', which you have not been granted.` }] } };
+    };
+
     const server = new McpServer({
         name: 'd365-fno-mcp-server',
         version: '1.0.0',
     });
 
     // --- Tool Definitions ---
+    const registeredTools: Record<string, RegisteredTool> = {};
 
-    server.tool(
+    registeredTools.odataQuery = server.registerTool(
         'odataQuery',
-        'Executes a generic GET request against a Dynamics 365 OData entity. By default, it returns a plan; set planOnly=false to execute.',
-        odataQuerySchema.shape,
+        {
+            description: 'Executes a generic GET request against a Dynamics 365 OData entity. By default, it returns a plan; set planOnly=false to execute.',
+            inputSchema: odataQuerySchema.shape,
+            outputSchema: queryOutputSchema.shape,
+        },
         async (args: z.infer<typeof odataQuerySchema>, context: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
+            const target = useEnvironment(args.environment);
+            if ('error' in target) {
+                return target.error;
+            }
+            const { environment, apiOptions } = target;
 
-            const correctedEntity = await entityManager.findBestMatch(args.entity);
-
-            if (!correctedEntity) {
-                return { isError: true, content: [{ type: 'text', text: `Could not find a matching entity for '${args.entity}'.` }] };
+            const resolved = await resolveEntity(environment, args.entity);
+            if ('error' in resolved) {
+                return resolved.error;
             }
+            const { entitySet: correctedEntity, schema: entitySchema } = resolved;
 
-            const entitySchema = await entityManager.getEntitySchema(correctedEntity);
-            
-            if (!entitySchema) {
-                const errorMsg = `Could not find a schema for entity '${correctedEntity}'. This can happen if the entity set name differs from its type name. Please check the server logs for a list of all available schema keys that were successfully parsed.`;
-                return { isError: true, content: [{ type: 'text', text: errorMsg }] };
+            const fieldResolver = new FieldResolver(entitySchema);
+            let compiledFilter: CompiledFilter | null;
+            try {
+                compiledFilter = buildSmartFilterString(args.filter, entitySchema, fieldResolver);
+            } catch (error) {
+                return { isError: true, content: [{ type: 'text', text: `Invalid filter: ${(error as Error).message}` }] };
             }
+            const filterString = compiledFilter?.filter;
 
             const effectiveArgs = { ...args };
-            if (effectiveArgs.filter?.dataAreaId && effectiveArgs.crossCompany !== false) {
+            try {
+                if (args.select) effectiveArgs.select = resolveSelect(fieldResolver, args.select);
+            } catch (error) {
+                return { isError: true, content: [{ type: 'text', text: `Invalid select: ${(error as Error).message}` }] };
+            }
+            try {
+                if (args.expand) effectiveArgs.expand = resolveExpand(fieldResolver, args.expand);
+            } catch (error) {
+                return { isError: true, content: [{ type: 'text', text: `Invalid expand: ${(error as Error).message}` }] };
+            }
+            try {
+                if (args.orderby) effectiveArgs.orderby = resolveOrderBy(fieldResolver, args.orderby);
+            } catch (error) {
+                return { isError: true, content: [{ type: 'text', text: `Invalid orderby: ${(error as Error).message}` }] };
+            }
+
+            if (compiledFilter?.clauses.some(c => c.field === 'dataAreaId') && effectiveArgs.crossCompany !== false) {
                 effectiveArgs.crossCompany = true;
             }
 
-            const { entity, planOnly, ...queryParams } = effectiveArgs;
-            const filterString = buildSmartFilterString(queryParams.filter, entitySchema);
-            const url = new URL(`${process.env.DYNAMICS_RESOURCE_URL}/data/${correctedEntity}`);
-            const topValue = queryParams.top || DEFAULT_PAGE_SIZE;
-            url.searchParams.append('$top', topValue.toString());
-            if (queryParams.skip) url.searchParams.append('$skip', queryParams.skip.toString());
-            if (queryParams.crossCompany) url.searchParams.append('cross-company', 'true');
-            if (queryParams.select) url.searchParams.append('$select', queryParams.select);
-            if (filterString) url.searchParams.append('$filter', filterString);
-            if (queryParams.expand) url.searchParams.append('$expand', queryParams.expand);
+            const { entity, planOnly, environment: _environment, format = 'json', ...queryParams } = effectiveArgs;
+            // Large entities return their keys and descriptive fields unless the caller picks the columns.
+            const defaultFields = queryParams.select || queryParams.cursor ? null : selectDefaultFields(entitySchema);
+            const select = queryParams.select === '*' ? undefined : queryParams.select ?? defaultFields?.join(',');
+            // Pages are only stable in a fixed order, so paged queries without one are sorted by the key. That covers
+            // $skip, following nextLinks up to maxRows, and a $top large enough for the service to page and return a cursor.
+            const pages = Boolean(queryParams.skip || queryParams.maxRows || (queryParams.top ?? 0) > MAX_SERVER_PAGE_SIZE);
+            const defaultOrder = !queryParams.orderby && !queryParams.cursor && pages ? getKeyFields(entitySchema).map(f => f.name) : [];
+            const orderby = queryParams.orderby || defaultOrder.join(',') || undefined;
 
-            let planOutput = '## OData Query Plan\n\n';
-            planOutput += `**Full URL:**\n\`\`\`\n${url.toString()}\n\`\`\`\n\n`;
-            planOutput += '**Filter Analysis:**\n';
-
-            if (args.filter && Object.keys(args.filter).length > 0) {
-                planOutput += '| Value Provided | Mapped to Field | Detected Type |\n';
-                planOutput += '|----------------|-----------------|---------------|\n';
-                for (const [key, value] of Object.entries(args.filter)) {
-                    const schemaField = entitySchema.fields.find(f => f.name.toLowerCase() === key.toLowerCase());
-                    const fieldName = schemaField?.name || key;
-                    const fieldType = schemaField?.type || 'Unknown';
-                    planOutput += `| \`${value}\` | \`${fieldName}\` | \`${fieldType}\` |\n`;
+            let url = new URL(`${environment.resourceUrl}/data/${correctedEntity}`);
+            if (queryParams.cursor) {
+                try {
+                    url = new URL(decodeCursor(queryParams.cursor, environment.resourceUrl));
+                } catch (error) {
+                    return { isError: true, content: [{ type: 'text', text: (error as Error).message }] };
                 }
             } else {
-                planOutput += '_No filters were provided._\n';
+                // With server-side paging, $top is only added when the caller asked for an overall limit.
+                if (queryParams.top || !queryParams.maxRows) {
+                    const topValue = queryParams.top || DEFAULT_PAGE_SIZE;
+                    url.searchParams.append('$top', topValue.toString());
+                }
+                if (queryParams.skip) url.searchParams.append('$skip', queryParams.skip.toString());
+                if (queryParams.crossCompany) url.searchParams.append('cross-company', 'true');
+                if (select) url.searchParams.append('$select', select);
+                if (filterString) url.searchParams.append('$filter', filterString);
+                if (queryParams.expand) url.searchParams.append('$expand', queryParams.expand);
+                if (orderby) url.searchParams.append('$orderby', orderby);
+                if (queryParams.search) url.searchParams.append('$search', queryParams.search);
+            }
+
+            let planOutput = '## OData Query Plan\n\n';
+            planOutput += `**Full URL:**\n\`\`\`\n${url.toString()}\n\`\`\`\n\n`;
+            if (queryParams.cursor) {
+                planOutput += '_Continuing from a cursor: the filter, select, expand and order of the original query apply._\n\n';
+            }
+            if (defaultFields) {
+                planOutput += `**Default $select:** ${defaultFields.length} of ${entitySchema.fields.length} fields (keys and descriptive fields). Pass \`select\` to choose others, or \`"select": "*"\` for every field.\n\n`;
+            }
+            if (defaultOrder.length > 0) {
+                planOutput += `**Default $orderby:** \`${orderby}\` (the key fields, so pages do not overlap or skip rows). Pass \`orderby\` to sort differently.\n\n`;
+            }
+            if (queryParams.search) {
+                planOutput += `**$search:** \`${queryParams.search}\`. Not every entity supports free-text search; if the service rejects it, filter with \`contains\` instead.\n\n`;
+            }
+            if (queryParams.maxRows) {
+                planOutput += `**Paging:** follow nextLinks on the server until ${queryParams.maxRows} rows or ${queryParams.maxBytes ?? DEFAULT_MAX_BYTES} bytes are read.\n\n`;
             }
-            
+            planOutput += `**Output Format:** ${format}\n\n`;
+            planOutput += describeCorrections(fieldResolver.corrections);
+            planOutput += describeFilter(compiledFilter);
+
             planOutput += "\nTo execute this query, call the tool again with the same parameters and `\"planOnly\": false`.";
 
             if (planOnly) {
-                return { content: [{ type: 'text', text: planOutput }] };
+                const planContent: z.infer<typeof queryOutputSchema> = { entity: correctedEntity, url: url.toString(), planOnly: true };
+                if (fieldResolver.corrections.length > 0) {
+                    planContent.corrections = fieldResolver.corrections;
+                }
+                return { content: [{ type: 'text', text: planOutput }], structuredContent: planContent };
             }
 
             await safeNotification(context, {
@@ -157,111 +742,1000 @@ export const getServer = (): McpServer => {
                 params: { level: "info", data: `Executing query against: ${url.toString()}` }
             });
 
-            return makeApiCall('GET', url.toString(), null, async (notification) => {
-                await safeNotification(context, notification);
-            });
+            let rows: Record<string, unknown>[];
+            let nextLink: string | null = null;
+            const notes: string[] = [];
+            try {
+                if (queryParams.maxRows) {
+                    const result = await fetchAllPages(url.toString(), { maxRows: queryParams.maxRows, maxBytes: queryParams.maxBytes ?? DEFAULT_MAX_BYTES }, async (notification) => {
+                        await safeNotification(context, notification);
+                    }, apiOptions);
+
+                    rows = result.rows as Record<string, unknown>[];
+                    nextLink = result.nextLink;
+                    let info = `[INFO] Returned ${result.rows.length} rows from ${result.pages} page(s) (${result.bytes} bytes).`;
+                    if (result.nextLink) {
+                        const reason = result.stoppedBy === 'maxRows' ? `the ${queryParams.maxRows} row limit` : 'the byte budget';
+                        info += ` Stopped at ${reason}; more data is available. To continue, call the 'odataQuery' tool again with the parameter: "cursor": "${encodeCursor(result.nextLink)}".`;
+                    } else if (result.stoppedBy !== 'complete') {
+                        info += ` [WARNING] Stopped at the ${queryParams.maxRows} row limit. The service returned ${result.droppedRows} more row(s) than requested on the last page; they were dropped, and there is no cursor to continue from. Raise maxRows or narrow the filter to get them.`;
+                    }
+                    notes.push(info);
+                } else {
+                    const page = await fetchJson(url.toString(), apiOptions);
+                    rows = (page.value ?? []) as Record<string, unknown>[];
+                    if (typeof page['@odata.nextLink'] === 'string') {
+                        nextLink = page['@odata.nextLink'];
+                        let info = `[INFO] More data is available. To get the next page, call the 'odataQuery' tool again with the parameter: "cursor": "${encodeCursor(nextLink)}".`;
+                        if (!url.searchParams.has('$orderby')) {
+                            info += ` [WARNING] This query has no $orderby, so later pages may repeat or miss rows. Pass \`orderby\` or \`maxRows\` to page in a stable order.`;
+                        }
+                        notes.push(info);
+                    }
+                }
+            } catch (error) {
+                let message = (error as Error).message;
+                if (queryParams.search && error instanceof ODataError && (error.status === 400 || error.status === 501)) {
+                    message = `The service rejected $search for '${correctedEntity}', which usually means the entity does not support free-text search. Use a filter with contains instead.\n\n${message}`;
+                }
+                return { isError: true, content: [{ type: 'text', text: message }] };
+            }
+
+            const formatted = formatRows(rows, format, entitySchema);
+            if (formatted.rowsShown < rows.length) {
+                notes.push(`[INFO] Showing ${formatted.rowsShown} of ${rows.length} rows; ${rows.length - formatted.rowsShown} rows were left out to keep the result under ${MAX_RESULT_CHARS} characters. Use a narrower select, the summary format or a smaller page.`);
+            }
+            if (defaultFields) {
+                notes.push(`[INFO] ${entitySchema.fields.length - defaultFields.length} of the entity's ${entitySchema.fields.length} fields were left out. Pass select to choose them, or "select": "*" for every field.`);
+            }
+            const resultText = notes.length > 0 ? `${formatted.text}\n\n---\n${notes.join('\n')}` : formatted.text;
+
+            // The structured rows are never cut short: the character budget only applies to the text.
+            const structuredContent: z.infer<typeof queryOutputSchema> = {
+                entity: correctedEntity,
+                url: url.toString(),
+                planOnly: false,
+                columns: describeColumns(entitySchema, rows, select?.split(',').map(name => name.trim())),
+                rows,
+                rowCount: rows.length,
+            };
+            if (nextLink) {
+                structuredContent.nextCursor = encodeCursor(nextLink);
+            }
+            if (fieldResolver.corrections.length > 0) {
+                structuredContent.corrections = fieldResolver.corrections;
+            }
+            return { content: [{ type: 'text', text: resultText }], structuredContent };
         }
     );
 
     // --- All other tools must be defined BEFORE the final return statement ---
 
-    server.tool(
+    registeredTools.createCustomer = server.tool(
         'createCustomer',
-        'Creates a new customer record in CustomersV3.',
+        'Creates a new customer record in CustomersV3. The first call returns a write plan and a confirmation token.',
         createCustomerSchema.shape,
-        async ({ customerData }: z.infer<typeof createCustomerSchema>, context: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
-            const url = `${process.env.DYNAMICS_RESOURCE_URL}/data/CustomersV3`;
-            return makeApiCall('POST', url, customerData as Record<string, unknown>, async (notification) => {
-                await safeNotification(context, notification);
-            });
+        async (args: z.infer<typeof createCustomerSchema>, context: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
+            const target = useEnvironment(args.environment);
+            if ('error' in target) {
+                return target.error;
+            }
+            const { environment, apiOptions } = target;
+
+            const loaded = await loadEntity(environment, 'CustomersV3');
+            if ('error' in loaded) {
+                return loaded.error;
+            }
+            return planOrExecuteWrite(confirmations, environment, apiOptions, 'createCustomer', args, context, () => ({
+                method: 'POST',
+                url: `${environment.resourceUrl}/data/CustomersV3`,
+                body: args.customerData,
+                schema: loaded.schema,
+            }));
         }
     );
 
-    server.tool(
+    registeredTools.updateCustomer = server.tool(
         'updateCustomer',
-        'Updates an existing customer record in CustomersV3 using a PATCH request.',
+        'Updates an existing customer record in CustomersV3 using a PATCH request. The first call returns a write plan and a confirmation token.',
         updateCustomerSchema.shape,
-        async ({ dataAreaId, customerAccount, updateData }: z.infer<typeof updateCustomerSchema>, context: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
-            const url = `${process.env.DYNAMICS_RESOURCE_URL}/data/CustomersV3(dataAreaId='${dataAreaId}',CustomerAccount='${customerAccount}')`;
-            return makeApiCall('PATCH', url, updateData as Record<string, unknown>, async (notification) => {
-                await safeNotification(context, notification);
-            });
+        async (args: z.infer<typeof updateCustomerSchema>, context: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
+            const target = useEnvironment(args.environment);
+            if ('error' in target) {
+                return target.error;
+            }
+            const { environment, apiOptions } = target;
+
+            const loaded = await loadEntity(environment, 'CustomersV3');
+            if ('error' in loaded) {
+                return loaded.error;
+            }
+            return planOrExecuteWrite(confirmations, environment, apiOptions, 'updateCustomer', args, context, () => ({
+                method: 'PATCH',
+                url: buildRecordUrl(environment, loaded.entitySet, loaded.schema, { dataAreaId: args.dataAreaId, CustomerAccount: args.customerAccount }),
+                body: args.updateData,
+                schema: loaded.schema,
+            }));
         }
     );
 
-    server.tool(
+    registeredTools.getEntityCount = server.registerTool(
         'getEntityCount',
-        'Gets the total count of records for a given OData entity.',
-        getEntityCountSchema.shape,
-        async ({ entity, crossCompany }: z.infer<typeof getEntityCountSchema>, context: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
-             const url = new URL(`${process.env.DYNAMICS_RESOURCE_URL}/data/${entity}/$count`);
-             if (crossCompany) url.searchParams.append('cross-company', 'true');
-             return makeApiCall('GET', url.toString(), null, async (notification) => {
-                await safeNotification(context, notification);
+        {
+            description: 'Counts the records of an OData entity, optionally filtered. Pass companies to get one count per dataAreaId. By default, it returns a plan; set planOnly=false to execute.',
+            inputSchema: getEntityCountSchema.shape,
+            outputSchema: countOutputSchema.shape,
+        },
+        async (args: z.infer<typeof getEntityCountSchema>, context: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
+            const target = useEnvironment(args.environment);
+            if ('error' in target) {
+                return target.error;
+            }
+            const { environment, apiOptions } = target;
+
+            const resolved = await resolveEntity(environment, args.entity);
+            if ('error' in resolved) {
+                return resolved.error;
+            }
+            const { entitySet } = resolved;
+
+            const fieldResolver = new FieldResolver(resolved.schema);
+            const corrections = fieldResolver.corrections;
+            let compiledFilter: CompiledFilter | null;
+            try {
+                compiledFilter = buildSmartFilterString(args.filter, resolved.schema, fieldResolver);
+            } catch (error) {
+                return { isError: true, content: [{ type: 'text', text: `Invalid filter: ${(error as Error).message}` }] };
+            }
+
+            const buildCountUrl = (company?: string) => {
+                const url = new URL(`${environment.resourceUrl}/data/${entitySet}/$count`);
+                const clauses = compiledFilter ? [compiledFilter.clauses.length > 1 ? `(${compiledFilter.filter})` : compiledFilter.filter] : [];
+                if (company !== undefined) clauses.push(`dataAreaId eq ${formatODataLiteral(company, 'Edm.String')}`);
+                // Company filters only see other companies' rows with cross-company, as in odataQuery.
+                const crossCompany = company !== undefined || (args.crossCompany ?? compiledFilter?.clauses.some(c => c.field === 'dataAreaId'));
+                if (crossCompany) url.searchParams.append('cross-company', 'true');
+                if (clauses.length > 0) url.searchParams.append('$filter', clauses.join(' and '));
+                return url;
+            };
+            const companies = [...new Set(args.companies ?? [])];
+            const urls = companies.length > 0 ? companies.map(company => buildCountUrl(company).toString()) : [buildCountUrl().toString()];
+
+            if (args.planOnly) {
+                let planOutput = '## Count Plan\n\n';
+                if (companies.length > 0) {
+                    planOutput += '**Count URLs:**\n';
+                    planOutput += '| Company | URL |\n';
+                    planOutput += '|---------|-----|\n';
+                    companies.forEach((company, index) => {
+                        planOutput += `| \`${company}\` | \`${urls[index]}\` |\n`;
+                    });
+                    planOutput += '\n';
+                } else {
+                    planOutput += `**Full URL:**\n\`\`\`\n${urls[0]}\n\`\`\`\n\n`;
+                }
+                planOutput += describeCorrections(corrections);
+                planOutput += describeFilter(compiledFilter);
+                planOutput += "\nTo execute this count, call the tool again with the same parameters and `\"planOnly\": false`.";
+                return { content: [{ type: 'text', text: planOutput }], structuredContent: { entity: entitySet, urls, planOnly: true, ...(corrections.length > 0 && { corrections }) } };
+            }
+
+            await safeNotification(context, {
+                method: "notifications/message",
+                params: { level: "info", data: `Counting ${entitySet} with ${urls.length} request(s).` }
             });
+
+            // One $count per company, sent one after the other so a long company list does not trip throttling.
+            const counts: number[] = [];
+            try {
+                for (const url of urls) {
+                    counts.push(await fetchCount(url, apiOptions));
+                }
+            } catch (error) {
+                return { isError: true, content: [{ type: 'text', text: (error as Error).message }] };
+            }
+
+            const structuredContent: z.infer<typeof countOutputSchema> = {
+                entity: entitySet,
+                urls,
+                planOnly: false,
+                count: counts.reduce((sum, count) => sum + count, 0),
+                ...(corrections.length > 0 && { corrections }),
+            };
+            if (companies.length > 0) {
+                structuredContent.counts = companies.map((dataAreaId, index) => ({ dataAreaId, count: counts[index] }));
+            }
+            const { urls: _urls, planOnly: _planOnly, ...summary } = structuredContent;
+            return { content: [{ type: 'text', text: JSON.stringify(summary, null, 2) }], structuredContent };
         }
     );
 
-    server.tool(
+    registeredTools.aggregate = server.registerTool(
+        'aggregate',
+        {
+            description: 'Groups and aggregates the records of an entity with OData $apply (sum, avg, min, max, countdistinct, count), e.g. total open sales amount per customer group. Without aggregates it returns distinct values. Entities that do not support $apply are aggregated by this server over a row budget. By default, it returns a plan; set planOnly=false to execute.',
+            inputSchema: aggregateSchema.shape,
+            outputSchema: aggregateOutputSchema.shape,
+        },
+        async (args: z.infer<typeof aggregateSchema>, context: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
+            const target = useEnvironment(args.environment);
+            if ('error' in target) {
+                return target.error;
+            }
+            const { environment, apiOptions } = target;
+
+            const resolved = await resolveEntity(environment, args.entity);
+            if ('error' in resolved) {
+                return resolved.error;
+            }
+            const { entitySet, schema } = resolved;
+
+            const fieldResolver = new FieldResolver(schema);
+            const corrections = fieldResolver.corrections;
+            let spec: AggregateSpec;
+            let compiledFilter: CompiledFilter | null;
+            try {
+                spec = resolveAggregateSpec(schema, args.groupBy, args.aggregates, fieldResolver);
+                compiledFilter = buildSmartFilterString(args.filter, schema, fieldResolver);
+            } catch (error) {
+                return { isError: true, content: [{ type: 'text', text: `Invalid aggregation: ${(error as Error).message}` }] };
+            }
+            const crossCompany = args.crossCompany ?? compiledFilter?.clauses.some(c => c.field === 'dataAreaId');
+            const maxRows = args.maxRows ?? DEFAULT_AGGREGATE_MAX_ROWS;
+
+            const applyUrl = new URL(`${environment.resourceUrl}/data/${entitySet}`);
+            applyUrl.searchParams.append('$apply', buildApplyExpression(spec, compiledFilter?.filter));
+            if (crossCompany) applyUrl.searchParams.append('cross-company', 'true');
+
+            // Reads only the fields the aggregation needs when the rows have to be aggregated here.
+            // A plain row count reads no rows at all: /$count answers it.
+            const countOnly = isCountOnly(spec);
+            const fallbackUrl = new URL(`${environment.resourceUrl}/data/${entitySet}${countOnly ? '/$count' : ''}`);
+            const fallbackFields = getAggregateFields(spec);
+            if (fallbackFields.length > 0) fallbackUrl.searchParams.append('$select', fallbackFields.join(','));
+            if (compiledFilter) fallbackUrl.searchParams.append('$filter', compiledFilter.filter);
+            if (crossCompany) fallbackUrl.searchParams.append('cross-company', 'true');
+
+            if (args.planOnly) {
+                let planOutput = '## Aggregation Plan\n\n';
+                planOutput += `**$apply:** \`${applyUrl.searchParams.get('$apply')}\`\n\n`;
+                planOutput += `**Full URL:**\n\`\`\`\n${applyUrl.toString()}\n\`\`\`\n\n`;
+                planOutput += countOnly
+                    ? `**Fallback:** if the service does not support $apply for \`${entitySet}\`, the rows are counted with\n\`\`\`\n${fallbackUrl.toString()}\n\`\`\`\n\n`
+                    : `**Fallback:** if the service does not support $apply for \`${entitySet}\`, up to ${maxRows} rows are read from\n\`\`\`\n${fallbackUrl.toString()}\n\`\`\`\nand aggregated by this server.\n\n`;
+                planOutput += describeCorrections(corrections);
+                planOutput += "To execute this aggregation, call the tool again with the same parameters and `\"planOnly\": false`.";
+                return { content: [{ type: 'text', text: planOutput }], structuredContent: { entity: entitySet, url: applyUrl.toString(), planOnly: true, ...(corrections.length > 0 && { corrections }) } };
+            }
+
+            const columns = getAggregateColumns(spec, schema);
+            try {
+                const result = await fetchJson(applyUrl.toString(), apiOptions);
+                const rows = (result.value ?? []) as Record<string, unknown>[];
+                const resultText = `${JSON.stringify({ value: rows }, null, 2)}\n\n---\n[INFO] Aggregated by the service with $apply.`;
+                const structuredContent: z.infer<typeof aggregateOutputSchema> = { entity: entitySet, url: applyUrl.toString(), planOnly: false, source: 'service', columns, rows, complete: true, ...(corrections.length > 0 && { corrections }) };
+                return { content: [{ type: 'text', text: resultText }], structuredContent };
+            } catch (error) {
+                // 400 and 501 mean the endpoint rejected the query, which is how unsupported $apply shows up.
+                if (!(error instanceof ODataError) || (error.status !== 400 && error.status !== 501)) {
+                    return { isError: true, content: [{ type: 'text', text: (error as Error).message }] };
+                }
+                await safeNotification(context, {
+                    method: "notifications/message",
+                    params: { level: "info", data: `The service rejected $apply for '${entitySet}' (status ${error.status}). ${countOnly ? 'Counting with $count' : `Aggregating up to ${maxRows} rows on the MCP server`} instead.` }
+                });
+            }
+
+            if (countOnly) {
+                try {
+                    const count = await fetchCount(fallbackUrl.toString(), apiOptions);
+                    const value = [Object.fromEntries(spec.measures.map(m => [m.alias, count]))];
+                    const resultText = `${JSON.stringify({ value }, null, 2)}\n\n---\n[INFO] The service does not support $apply for '${entitySet}', so the rows were counted with $count.`;
+                    const structuredContent: z.infer<typeof aggregateOutputSchema> = { entity: entitySet, url: fallbackUrl.toString(), planOnly: false, source: 'service', columns, rows: value, complete: true, ...(corrections.length > 0 && { corrections }) };
+                    return { content: [{ type: 'text', text: resultText }], structuredContent };
+                } catch (error) {
+                    return { isError: true, content: [{ type: 'text', text: (error as Error).message }] };
+                }
+            }
+
+            try {
+                const paged = await fetchAllPages(fallbackUrl.toString(), { maxRows, maxBytes: AGGREGATE_MAX_BYTES }, async (notification) => {
+                    await safeNotification(context, notification);
+                }, apiOptions);
+
+                const value = aggregateRows(paged.rows as Record<string, unknown>[], spec);
+                let resultText = JSON.stringify({ value }, null, 2);
+                resultText += `\n\n---\n[INFO] The service does not support $apply for '${entitySet}', so ${paged.rows.length} rows were aggregated by the MCP server.`;
+                if (paged.stoppedBy !== 'complete') {
+                    const dropped = paged.droppedRows > 0 ? ` ${paged.droppedRows} row(s) the service returned beyond the budget were dropped.` : '';
+                    resultText += ` [WARNING] The row budget was reached before every row was read, so these results only cover part of the data.${dropped} Narrow the filter or raise maxRows.`;
+                }
+                const structuredContent: z.infer<typeof aggregateOutputSchema> = { entity: entitySet, url: fallbackUrl.toString(), planOnly: false, source: 'server', columns, rows: value, complete: paged.stoppedBy === 'complete', ...(corrections.length > 0 && { corrections }) };
+                return { content: [{ type: 'text', text: resultText }], structuredContent };
+            } catch (error) {
+                return { isError: true, content: [{ type: 'text', text: (error as Error).message }] };
+            }
+        }
+    );
+
+    registeredTools.createSystemUser = server.tool(
         'createSystemUser',
-        'Creates a new user in SystemUsers.',
+        'Creates a new user in SystemUsers. The first call returns a write plan and a confirmation token.',
         createSystemUserSchema.shape,
-        async ({ userData }: z.infer<typeof createSystemUserSchema>, context: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
-            const url = `${process.env.DYNAMICS_RESOURCE_URL}/data/SystemUsers`;
-            return makeApiCall('POST', url, userData as Record<string, unknown>, async (notification) => {
-                await safeNotification(context, notification);
-            });
+        async (args: z.infer<typeof createSystemUserSchema>, context: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
+            const target = useEnvironment(args.environment);
+            if ('error' in target) {
+                return target.error;
+            }
+            const { environment, apiOptions } = target;
+
+            const loaded = await loadEntity(environment, 'SystemUsers');
+            if ('error' in loaded) {
+                return loaded.error;
+            }
+            return planOrExecuteWrite(confirmations, environment, apiOptions, 'createSystemUser', args, context, () => ({
+                method: 'POST',
+                url: `${environment.resourceUrl}/data/SystemUsers`,
+                body: args.userData,
+                schema: loaded.schema,
+            }));
         }
     );
 
-    server.tool(
+    registeredTools.assignUserRole = server.tool(
         'assignUserRole',
-        'Assigns a security role to a user in SecurityUserRoleAssociations.',
+        'Assigns a security role to a user in SecurityUserRoleAssociations. The first call returns a write plan and a confirmation token.',
         assignUserRoleSchema.shape,
-        async ({ associationData }: z.infer<typeof assignUserRoleSchema>, context: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
-            const url = `${process.env.DYNAMICS_RESOURCE_URL}/data/SecurityUserRoleAssociations`;
-            return makeApiCall('POST', url, associationData as Record<string, unknown>, async (notification) => {
-                await safeNotification(context, notification);
-            });
+        async (args: z.infer<typeof assignUserRoleSchema>, context: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
+            const target = useEnvironment(args.environment);
+            if ('error' in target) {
+                return target.error;
+            }
+            const { environment, apiOptions } = target;
+
+            const loaded = await loadEntity(environment, 'SecurityUserRoleAssociations');
+            if ('error' in loaded) {
+                return loaded.error;
+            }
+            return planOrExecuteWrite(confirmations, environment, apiOptions, 'assignUserRole', args, context, () => ({
+                method: 'POST',
+                url: `${environment.resourceUrl}/data/SecurityUserRoleAssociations`,
+                body: args.associationData,
+                schema: loaded.schema,
+            }));
         }
     );
 
-    server.tool(
+    registeredTools.updatePositionHierarchy = server.tool(
         'updatePositionHierarchy',
-        'Updates a position in PositionHierarchies.',
+        'Updates a position in PositionHierarchies. The first call returns a write plan and a confirmation token.',
         updatePositionHierarchySchema.shape,
-        async ({ positionId, hierarchyTypeName, validFrom, validTo, updateData }: z.infer<typeof updatePositionHierarchySchema>, context: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
-            const url = `${process.env.DYNAMICS_RESOURCE_URL}/data/PositionHierarchies(PositionId='${positionId}',HierarchyTypeName='${hierarchyTypeName}',ValidFrom=${validFrom},ValidTo=${validTo})`;
-            return makeApiCall('PATCH', url, updateData as Record<string, unknown>, async (notification) => {
-                await safeNotification(context, notification);
+        async (args: z.infer<typeof updatePositionHierarchySchema>, context: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
+            const target = useEnvironment(args.environment);
+            if ('error' in target) {
+                return target.error;
+            }
+            const { environment, apiOptions } = target;
+
+            const loaded = await loadEntity(environment, 'PositionHierarchies');
+            if ('error' in loaded) {
+                return loaded.error;
+            }
+            const key = {
+                PositionId: args.positionId,
+                HierarchyTypeName: args.hierarchyTypeName,
+                ValidFrom: args.validFrom,
+                ValidTo: args.validTo,
+            };
+            return planOrExecuteWrite(confirmations, environment, apiOptions, 'updatePositionHierarchy', args, context, () => ({
+                method: 'PATCH',
+                url: buildRecordUrl(environment, loaded.entitySet, loaded.schema, key),
+                body: args.updateData,
+                schema: loaded.schema,
+            }));
+        }
+    );
+
+    registeredTools.createRecord = server.tool(
+        'createRecord',
+        'Creates a new record in any OData entity set. The record is validated against the entity schema, and the first call returns a write plan and a confirmation token.',
+        createRecordSchema.shape,
+        async (args: z.infer<typeof createRecordSchema>, context: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
+            const target = useEnvironment(args.environment);
+            if ('error' in target) {
+                return target.error;
+            }
+            const { environment, apiOptions } = target;
+
+            const resolved = await resolveEntity(environment, args.entity);
+            if ('error' in resolved) {
+                return resolved.error;
+            }
+            const denied = checkAdminTarget(resolved.entitySet);
+            if (denied) {
+                return denied.error;
+            }
+            return planOrExecuteWrite(confirmations, environment, apiOptions, 'createRecord', args, context, () => ({
+                method: 'POST',
+                url: `${environment.resourceUrl}/data/${resolved.entitySet}`,
+                body: args.record,
+                schema: resolved.schema,
+            }));
+        }
+    );
+
+    registeredTools.updateRecord = server.tool(
+        'updateRecord',
+        'Updates a record in any OData entity set using a PATCH request. The key segment is built from the key fields declared in $metadata, and the first call returns a write plan and a confirmation token.',
+        updateRecordSchema.shape,
+        async (args: z.infer<typeof updateRecordSchema>, context: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
+            const target = useEnvironment(args.environment);
+            if ('error' in target) {
+                return target.error;
+            }
+            const { environment, apiOptions } = target;
+
+            const resolved = await resolveEntity(environment, args.entity);
+            if ('error' in resolved) {
+                return resolved.error;
+            }
+            const denied = checkAdminTarget(resolved.entitySet);
+            if (denied) {
+                return denied.error;
+            }
+            return planOrExecuteWrite(confirmations, environment, apiOptions, 'updateRecord', args, context, () => ({
+                method: 'PATCH',
+                url: buildRecordUrl(environment, resolved.entitySet, resolved.schema, args.key),
+                body: args.updateData,
+                schema: resolved.schema,
+            }));
+        }
+    );
+
+    registeredTools.deleteRecord = server.tool(
+        'deleteRecord',
+        'Deletes a record from any OData entity set. The key segment is built from the key fields declared in $metadata, and the first call returns a write plan and a confirmation token.',
+        deleteRecordSchema.shape,
+        async (args: z.infer<typeof deleteRecordSchema>, context: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
+            const target = useEnvironment(args.environment);
+            if ('error' in target) {
+                return target.error;
+            }
+            const { environment, apiOptions } = target;
+
+            const resolved = await resolveEntity(environment, args.entity);
+            if ('error' in resolved) {
+                return resolved.error;
+            }
+            const denied = checkAdminTarget(resolved.entitySet);
+            if (denied) {
+                return denied.error;
+            }
+            return planOrExecuteWrite(confirmations, environment, apiOptions, 'deleteRecord', args, context, () => ({
+                method: 'DELETE',
+                url: buildRecordUrl(environment, resolved.entitySet, resolved.schema, args.key),
+                body: null,
+                schema: resolved.schema,
+            }));
+        }
+    );
+
+    registeredTools.invokeAction = server.tool(
+        'invokeAction',
+        'Lists or invokes any OData action or function declared in $metadata. Call without `action` to list operations. Functions run immediately; actions return a plan and a confirmation token first.',
+        invokeActionSchema.shape,
+        async (args: z.infer<typeof invokeActionSchema>, context: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
+            const target = useEnvironment(args.environment);
+            if ('error' in target) {
+                return target.error;
+            }
+            const { environment, apiOptions } = target;
+
+            let entitySet: string | undefined;
+            let schema: EntitySchema | undefined;
+            if (args.entity) {
+                const resolved = await resolveEntity(environment, args.entity);
+                if ('error' in resolved) {
+                    return resolved.error;
+                }
+                ({ entitySet, schema } = resolved);
+            }
+
+            const candidates = schema ? schema.operations : await environment.entityManager.getOperations();
+
+            if (!args.action) {
+                if (candidates.length === 0) {
+                    return { content: [{ type: 'text', text: entitySet ? `No actions or functions are bound to '${entitySet}'.` : 'No actions or functions are declared in $metadata.' }] };
+                }
+                let listing = `## Available Operations${entitySet ? ` for ${entitySet}` : ''}\n\n`;
+                listing += '| Name | Kind | Binding | Parameters |\n';
+                listing += '|------|------|---------|------------|\n';
+                for (const operation of candidates) {
+                    const parameters = operation.parameters.map(p => `${p.name}: ${p.type}${p.nullable ? '?' : ''}`).join(', ');
+                    listing += `| \`${operation.name}\` | ${operation.kind} | ${describeBinding(operation)} | ${parameters} |\n`;
+                }
+                return { content: [{ type: 'text', text: listing }] };
+            }
+
+            const matches = candidates.filter(o => o.name.toLowerCase() === args.action!.toLowerCase());
+            if (matches.length === 0) {
+                return { isError: true, content: [{ type: 'text', text: `No action or function named '${args.action}' was found${entitySet ? ` for '${entitySet}'` : ''}. Call invokeAction without 'action' to list the available operations.` }] };
+            }
+
+            // Prefer the overload that matches how the caller addressed it: a key means a single record.
+            const operation = matches.find(o => !o.isBound || (args.key ? !o.bindingIsCollection : o.bindingIsCollection)) ?? matches[0];
+
+            if (operation.isBound && !entitySet) {
+                const bindingSet = operation.bindingType ? await environment.entityManager.getEntitySetForType(operation.bindingType) : null;
+                return { isError: true, content: [{ type: 'text', text: `'${operation.name}' is ${describeBinding(operation)}. Call again with 'entity'${bindingSet ? ` set to '${bindingSet}'` : ''}.` }] };
+            }
+            if (operation.isBound && !operation.bindingIsCollection && !args.key) {
+                return { isError: true, content: [{ type: 'text', text: `'${operation.name}' is bound to a single record. Provide the record 'key'.` }] };
+            }
+            if ((!operation.isBound || operation.bindingIsCollection) && args.key) {
+                return { isError: true, content: [{ type: 'text', text: `'${operation.name}' is ${describeBinding(operation)} and does not take a 'key'.` }] };
+            }
+
+            const parameters = args.parameters ?? {};
+            const enumTypes: Record<string, EnumType> = {};
+            for (const parameter of operation.parameters) {
+                const enumType = await environment.entityManager.getEnumType(parameter.type);
+                if (enumType) {
+                    enumTypes[parameter.type] = enumType;
+                }
+            }
+            const errors = validateOperationParameters(operation, parameters, enumTypes);
+            if (errors.length > 0) {
+                return { isError: true, content: [{ type: 'text', text: `Parameter validation failed for '${operation.name}':\n- ${errors.join('\n- ')}` }] };
+            }
+
+            const buildUrl = (): string => {
+                let target = `${environment.resourceUrl}/data`;
+                if (operation.isBound) {
+                    target += `/${entitySet}`;
+                    if (!operation.bindingIsCollection) {
+                        target += buildKeySegment(schema!, args.key!);
+                    }
+                }
+                return `${target}/${buildOperationSegment(operation, parameters)}`;
+            };
+
+            if (operation.kind === 'Function') {
+                let url: string;
+                try {
+                    url = buildUrl();
+                } catch (error) {
+                    return { isError: true, content: [{ type: 'text', text: (error as Error).message }] };
+                }
+                return makeApiCall('GET', url, null, async (notification) => {
+                    await safeNotification(context, notification);
+                }, apiOptions);
+            }
+
+            for (const adminTarget of [entitySet, operation.name]) {
+                const denied = adminTarget ? checkAdminTarget(adminTarget) : null;
+                if (denied) {
+                    return denied.error;
+                }
+            }
+            return planOrExecuteWrite(confirmations, environment, apiOptions, 'invokeAction', args, context, () => ({
+                method: 'POST',
+                url: buildUrl(),
+                body: parameters,
+            }));
+        }
+    );
+
+    registeredTools.batch = server.tool(
+        'batch',
+        'Sends several operations in one OData $batch request. Writes are grouped into change sets that succeed or fail as a unit, and later operations can reference records created earlier via Content-ID. The first call returns a plan and a confirmation token.',
+        batchSchema.shape,
+        async (args: z.infer<typeof batchSchema>, context: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
+            const target = useEnvironment(args.environment);
+            if ('error' in target) {
+                return target.error;
+            }
+            const { environment, apiOptions } = target;
+
+            // Resolve every operation against $metadata, so a write cannot reach an admin-only target by encoding
+            // or re-casing its path, and validate the bodies of operations that address records.
+            const errors: string[] = [];
+            const references = new Map<string, ResolvedPath>();
+            for (const [index, operation] of args.operations.entries()) {
+                let resolved: ResolvedPath;
+                try {
+                    resolved = await resolveResourcePath(environment.entityManager, operation.url, references);
+                } catch (error) {
+                    errors.push(`Operation ${index + 1}: ${(error as Error).message}`);
+                    continue;
+                }
+                references.set(operation.id ?? String(index + 1), resolved);
+                if (operation.method !== 'GET') {
+                    for (const adminTarget of resolved.targets) {
+                        const denied = checkAdminTarget(adminTarget);
+                        if (denied) {
+                            return denied.error;
+                        }
+                    }
+                }
+                if (operation.body && resolved.addressesRecords && resolved.schema) {
+                    errors.push(...validateRecord(resolved.schema, operation.body).map(e => `Operation ${index + 1}: ${e}`));
+                }
+            }
+            if (errors.length > 0) {
+                return { isError: true, content: [{ type: 'text', text: `Batch validation failed:\n- ${errors.join('\n- ')}` }] };
+            }
+
+            const serviceRoot = `${environment.resourceUrl}/data`;
+            return planOrExecuteWrite(confirmations, environment, apiOptions, 'batch', args, context, () => {
+                const batchRequest = buildBatchRequest(serviceRoot, args.operations);
+                return {
+                    method: 'POST',
+                    url: `${serviceRoot}/$batch`,
+                    body: {
+                        // The plan shows every payload that will be sent, as validated above.
+                        changeSets: batchRequest.groups.map(g => ({
+                            changeSet: g.changeSet,
+                            operations: g.operations.map(o => ({
+                                contentId: o.contentId,
+                                method: o.operation.method,
+                                url: o.operation.url,
+                                ...(o.operation.body && { body: o.operation.body }),
+                            })),
+                        })),
+                    },
+                    execute: async () => {
+                        await safeNotification(context, {
+                            method: "notifications/message",
+                            params: { level: "info", data: `Sending $batch with ${args.operations.length} operations to ${serviceRoot}/$batch` }
+                        });
+                        try {
+                            const response = await sendBatch(`${serviceRoot}/$batch`, batchRequest.boundary, batchRequest.body, { ...apiOptions, idempotencyKey: args.idempotencyKey });
+                            if (response.status >= 400 && !response.contentType.startsWith('multipart/')) {
+                                return { isError: true, content: [{ type: 'text', text: `API Error: ${response.status}\n${response.body}` }] };
+                            }
+                            const results = parseBatchResponse(response.contentType, response.body, batchRequest.groups);
+                            const failed = results.filter(r => !r.ok).length;
+                            const summary = failed === 0
+                                ? `All ${results.length} operations succeeded.`
+                                : `${failed} of ${results.length} operations failed or were rolled back.`;
+                            return {
+                                ...(failed > 0 && { isError: true }),
+                                content: [{ type: 'text', text: `${summary}\n\n${JSON.stringify(results, null, 2)}` }]
+                            };
+                        } catch (error) {
+                            return { isError: true, content: [{ type: 'text', text: `An unexpected error occurred: ${(error as Error).message}` }] };
+                        }
+                    },
+                };
             });
         }
     );
 
-    server.tool(
+    registeredTools.action_initializeDataManagement = server.tool(
         'action_initializeDataManagement',
-        'Executes the InitializeDataManagement action on the DataManagementDefinitionGroups entity.',
-        z.object({}).shape,
-        async (_args: {}, context: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
-            const url = `${process.env.DYNAMICS_RESOURCE_URL}/data/DataManagementDefinitionGroups/Microsoft.Dynamics.DataEntities.InitializeDataManagement`;
-            return makeApiCall('POST', url, {}, async (notification) => {
-                await safeNotification(context, notification);
+        'Executes the InitializeDataManagement action on the DataManagementDefinitionGroups entity. The first call returns a plan and a confirmation token.',
+        initializeDataManagementSchema.shape,
+        async (args: z.infer<typeof initializeDataManagementSchema>, context: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
+            const target = useEnvironment(args.environment);
+            if ('error' in target) {
+                return target.error;
+            }
+            const { environment, apiOptions } = target;
+
+            return planOrExecuteWrite(confirmations, environment, apiOptions, 'action_initializeDataManagement', args, context, () => ({
+                method: 'POST',
+                url: `${environment.resourceUrl}/data/DataManagementDefinitionGroups/Microsoft.Dynamics.DataEntities.InitializeDataManagement`,
+                body: {},
+            }));
+        }
+    );
+
+    registeredTools.describeEntity = server.tool(
+        'describeEntity',
+        'Describes an entity from $metadata: key and required fields, field types and lengths, allowed enum values, navigation properties usable in $expand, and the actions and functions bound to it. Use this before building a query or a payload.',
+        describeEntitySchema.shape,
+        async ({ entity, environment: environmentName }: z.infer<typeof describeEntitySchema>) => {
+            const target = useEnvironment(environmentName);
+            if ('error' in target) {
+                return target.error;
+            }
+            const { environment } = target;
+
+            const resolved = await resolveEntity(environment, entity);
+            if ('error' in resolved) {
+                return resolved.error;
+            }
+            const { entitySet, schema } = resolved;
+
+            const keyFields = schema.fields.filter(f => f.isKey).map(f => `\`${f.name}\``);
+            const requiredFields = schema.fields.filter(f => !f.isKey && f.nullable === false).map(f => `\`${f.name}\``);
+
+            let output = `## Entity: ${entitySet}\n\n`;
+            output += `**Entity Type:** \`${schema.name}\`\n`;
+            output += `**Key Fields:** ${keyFields.join(', ') || '_none_'}\n`;
+            output += `**Required Fields:** ${requiredFields.join(', ') || '_none_'}\n\n`;
+
+            output += '### Fields\n\n';
+            output += '| Field | Type | Key | Nullable | Max Length | Precision/Scale |\n';
+            output += '|-------|------|-----|----------|------------|-----------------|\n';
+            for (const field of schema.fields) {
+                const precisionScale = field.precision !== undefined ? `${field.precision}/${field.scale ?? 0}` : '';
+                output += `| \`${field.name}\` | \`${field.type}\` | ${field.isKey ? 'yes' : ''} | ${field.nullable === false ? 'no' : 'yes'} | ${field.maxLength ?? ''} | ${precisionScale} |\n`;
+            }
+
+            const enumFields = schema.fields.filter(f => !f.type.startsWith('Edm.'));
+            if (enumFields.length > 0) {
+                output += '\n### Enum Values\n\n';
+                for (const field of enumFields) {
+                    const enumType = await environment.entityManager.getEnumType(field.type);
+                    const members = enumType ? enumType.members.map(m => m.name).join(', ') : '_unknown type_';
+                    output += `- \`${field.name}\` (\`${field.type}\`): ${members}\n`;
+                }
+            }
+
+            output += '\n### Navigation Properties ($expand targets)\n\n';
+            if (schema.navigationProperties.length > 0) {
+                output += '| Name | Target Type | Target Entity Set | Collection |\n';
+                output += '|------|-------------|-------------------|------------|\n';
+                for (const nav of schema.navigationProperties) {
+                    const targetSet = await environment.entityManager.getEntitySetForType(nav.targetType);
+                    output += `| \`${nav.name}\` | \`${nav.targetType}\` | ${targetSet ? `\`${targetSet}\`` : ''} | ${nav.isCollection ? 'yes' : 'no'} |\n`;
+                }
+            } else {
+                output += '_None._\n';
+            }
+
+            output += '\n### Actions and Functions\n\n';
+            if (schema.operations.length > 0) {
+                for (const operation of schema.operations) {
+                    const binding = operation.bindingIsCollection ? 'bound to the entity set' : 'bound to a single record';
+                    const parameters = operation.parameters.map(p => `${p.name}: ${p.isCollection ? `Collection(${p.type})` : p.type}`).join(', ');
+                    output += `- \`${operation.name}\` (${operation.kind}, ${binding})${parameters ? ` — parameters: ${parameters}` : ''}${operation.returnType ? ` — returns \`${operation.returnType}\`` : ''}\n`;
+                }
+            } else {
+                output += '_None._\n';
+            }
+
+            return { content: [{ type: 'text', text: output }] };
+        }
+    );
+
+    registeredTools.refreshMetadataCache = server.tool(
+        'refreshMetadataCache',
+        'Admin tool. Downloads and parses $metadata again, replacing both the in-memory and the on-disk metadata cache. Use this after entities or fields were added to the environment.',
+        environmentOnlySchema.shape,
+        async (args: z.infer<typeof environmentOnlySchema>, context: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
+            const target = useEnvironment(args.environment);
+            if ('error' in target) {
+                return target.error;
+            }
+            const { environment } = target;
+
+            await safeNotification(context, {
+                method: "notifications/message",
+                params: { level: "info", data: `Refreshing the metadata cache of '${environment.name}'...` }
             });
+
+            try {
+                const status = await environment.entityManager.refreshMetadata();
+                const text = `Metadata cache of '${environment.name}' refreshed.\n- Entity sets: ${status.entityCount}\n- Schema types: ${status.schemaCount}\n- Cache file: ${status.cacheFile}`;
+                return { content: [{ type: 'text', text }] };
+            } catch (error) {
+                return { isError: true, content: [{ type: 'text', text: (error as Error).message }] };
+            }
         }
     );
 
-    server.tool(
+    registeredTools.getODataMetadata = server.tool(
         'getODataMetadata',
         'Retrieves the OData $metadata document for the service.',
-        z.object({}).shape,
-        async (_args: {}, context: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
-             const url = `${process.env.DYNAMICS_RESOURCE_URL}/data/$metadata`;
+        environmentOnlySchema.shape,
+        async (args: z.infer<typeof environmentOnlySchema>, context: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
+            const target = useEnvironment(args.environment);
+            if ('error' in target) {
+                return target.error;
+            }
+            const { environment, apiOptions } = target;
+
+            const url = `${environment.resourceUrl}/data/$metadata`;
              return makeApiCall('GET', url.toString(), null, async (notification) => {
                 await safeNotification(context, notification);
-            });
+            }, apiOptions);
+        }
+    );
+
+    registeredTools.selectEnvironment = server.tool(
+        'selectEnvironment',
+        'Lists the configured Dynamics 365 environments, or sets the environment used by later tool calls in this session that do not pass `environment`.',
+        selectEnvironmentSchema.shape,
+        async (args: z.infer<typeof selectEnvironmentSchema>) => {
+            if (args.name) {
+                const target = useEnvironment(args.name);
+                if ('error' in target) {
+                    return target.error;
+                }
+                sessionEnvironment = target.environment.name;
+                const mode = target.environment.readOnly ? ' Write tools are disabled for this environment.' : '';
+                return { content: [{ type: 'text', text: `Tool calls in this session now target '${sessionEnvironment}' (${target.environment.resourceUrl}).${mode}` }] };
+            }
+
+            const current = sessionEnvironment ?? environments.defaultName;
+            let output = `## Environments\n\n| Name | URL | Read-only |\n|---|---|---|\n`;
+            for (const config of environments.list()) {
+                const marker = config.name.toLowerCase() === current.toLowerCase() ? ' (current)' : '';
+                output += `| ${config.name}${marker} | ${config.resourceUrl} | ${config.readOnly ? 'Yes' : 'No'} |\n`;
+            }
+            return { content: [{ type: 'text', text: output }] };
         }
     );
 
+    // --- Manifest Tools ---
+    const declaredToolAccess: Record<string, AccessLevel> = {};
+    for (const tool of options.declaredTools ?? []) {
+        if (registeredTools[tool.name]) {
+            throw new Error(`Tool manifest: '${tool.name}' is already the name of a built-in tool.`);
+        }
+        declaredToolAccess[tool.name] = getDeclaredToolAccess(tool);
+
+        // GET tools declare their rows, typed from the manifest fields.
+        const outputSchema = tool.method === 'GET'
+            ? queryOutputSchema.pick({ entity: true, url: true, rowCount: true, nextCursor: true }).extend({ rows: z.array(buildDeclaredRowSchema(tool)) })
+            : undefined;
+
+        registeredTools[tool.name] = server.registerTool(
+            tool.name,
+            {
+                description: tool.method === 'GET' ? tool.description : `${tool.description} The first call returns a write plan and a confirmation token.`,
+                inputSchema: buildDeclaredToolSchema(tool).shape,
+                outputSchema: outputSchema?.shape,
+            },
+            async (args: Record<string, unknown>, context: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
+                const target = useEnvironment(args.environment as string | undefined);
+                if ('error' in target) {
+                    return target.error;
+                }
+                const { environment, apiOptions } = target;
+                // The entity set and fields were only checked against the environment the manifest was validated with.
+                if (environment.name !== tool.environment) {
+                    return { isError: true, content: [{ type: 'text', text: `'${tool.name}' was checked against the metadata of environment '${tool.environment}' and only runs there, not in '${environment.name}'. Pass "environment": "${tool.environment}" or select that environment.` }] };
+                }
+
+                const keyValues: Record<string, KeyValue> = {};
+                for (const key of tool.keys) {
+                    if (args[key.name] !== undefined) {
+                        keyValues[key.name] = args[key.name] as KeyValue;
+                    }
+                }
+
+                if (tool.method === 'GET') {
+                    const url = new URL(`${environment.resourceUrl}/data/${tool.entitySet}`);
+                    const filters = tool.keys.filter(key => key.name in keyValues).map(key => `${key.name} eq ${formatODataLiteral(keyValues[key.name], key.type)}`);
+                    url.searchParams.append('$top', String(args.top ?? DEFAULT_PAGE_SIZE));
+                    // Filtering on dataAreaId only works across companies.
+                    if (args.crossCompany || 'dataAreaId' in keyValues) url.searchParams.append('cross-company', 'true');
+                    if (tool.fields.length > 0) url.searchParams.append('$select', tool.fields.map(f => f.name).join(','));
+                    if (filters.length > 0) url.searchParams.append('$filter', filters.join(' and '));
+
+                    let page: Record<string, unknown>;
+                    try {
+                        page = await fetchJson(url.toString(), apiOptions);
+                    } catch (error) {
+                        return { isError: true, content: [{ type: 'text', text: (error as Error).message }] };
+                    }
+                    const rows = (page.value ?? []) as Record<string, unknown>[];
+                    let resultText = JSON.stringify({ value: rows }, null, 2);
+                    const structuredContent: Record<string, unknown> = { entity: tool.entitySet, url: url.toString(), rows, rowCount: rows.length };
+                    if (typeof page['@odata.nextLink'] === 'string') {
+                        structuredContent.nextCursor = encodeCursor(page['@odata.nextLink']);
+                        resultText += `\n\n---\n[INFO] More data is available. To get the next page, call the 'odataQuery' tool with the parameter: "cursor": "${structuredContent.nextCursor}".`;
+                    }
+                    return { content: [{ type: 'text', text: resultText }], structuredContent };
+                }
+
+                const loaded = await loadEntity(environment, tool.entitySet);
+                if ('error' in loaded) {
+                    return loaded.error;
+                }
+                const data = (args.data ?? {}) as Record<string, unknown>;
+
+                return planOrExecuteWrite(confirmations, environment, apiOptions, tool.name, args, context, () => ({
+                    method: tool.method as WriteRequest['method'],
+                    url: tool.method === 'POST'
+                        ? `${environment.resourceUrl}/data/${loaded.entitySet}`
+                        : buildRecordUrl(environment, loaded.entitySet, loaded.schema, keyValues),
+                    body: tool.method === 'DELETE' ? null : tool.method === 'POST' ? { ...keyValues, ...data } : data,
+                    schema: loaded.schema,
+                }));
+            }
+        );
+    }
+
+    // --- Resource Definitions ---
+    // Entity metadata of the session's environment, so clients can attach single schemas instead of the whole $metadata document.
+    const registeredResources: (RegisteredResource | RegisteredResourceTemplate)[] = [];
+
+    registeredResources.push(server.registerResource(
+        'entity-sets',
+        'd365://entities',
+        {
+            title: 'Entity sets',
+            description: "Every entity set of the session's environment, with the URI of its schema resource.",
+            mimeType: 'application/json',
+        },
+        async (uri) => {
+            const environment = environments.get(sessionEnvironment);
+            const entities = await environment.entityManager.getEntities();
+            const entitySets = entities.map(entity => ({ name: entity.url, schemaUri: entitySchemaUri(entity.url) }));
+            return { contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify({ environment: environment.name, entitySets }, null, 2) }] };
+        }
+    ));
+
+    const entitySchemaTemplate = new ResourceTemplate(ENTITY_SCHEMA_URI_TEMPLATE, {
+        list: async () => {
+            const entities = await environments.get(sessionEnvironment).entityManager.getEntities();
+            return { resources: entities.map(entity => ({ uri: entitySchemaUri(entity.url), name: entity.url, mimeType: 'application/json' })) };
+        },
+        complete: {
+            name: async (value) => {
+                const entities = await environments.get(sessionEnvironment).entityManager.getEntities();
+                const prefix = value.toLowerCase();
+                return entities.map(entity => entity.url).filter(name => name.toLowerCase().startsWith(prefix)).slice(0, MAX_COMPLETIONS);
+            },
+        },
+    });
+
+    registeredResources.push(server.registerResource(
+        'entity-schema',
+        entitySchemaTemplate,
+        {
+            title: 'Entity schema',
+            description: 'The parsed schema of one entity set: key and required fields, types, navigation properties and bound operations.',
+            mimeType: 'application/json',
+        },
+        async (uri, variables) => {
+            const environment = environments.get(sessionEnvironment);
+            const name = decodeURIComponent(String(variables.name));
+            const resolved = await resolveEntity(environment, name);
+            if ('error' in resolved) {
+                throw new Error((resolved.error.content[0] as TextContent).text);
+            }
+            return { contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(resolved.schema, null, 2) }] };
+        }
+    ));
+
+    // --- Prompt Definitions ---
+    // Read for every session, so templates added to PROMPTS_DIR are picked up without a restart.
+    for (const prompt of loadPromptTemplates()) {
+        if (options.caller && !prompt.tools.every(tool => canUseTool(options.caller!, tool))) {
+            continue;
+        }
+        const argsSchema = Object.fromEntries(prompt.arguments.map(arg => {
+            const argSchema = z.string().describe(arg.description ?? arg.name);
+            return [arg.name, arg.required ? argSchema : argSchema.optional()];
+        }));
+        server.registerPrompt(
+            prompt.name,
+            { title: prompt.title, description: prompt.description, argsSchema },
+            (args: Record<string, string | undefined>) => ({
+                messages: [{ role: 'user', content: { type: 'text', text: renderPrompt(prompt, args) } }],
+            })
+        );
+    }
+
+    // Tools the caller may not use are removed, so they are neither listed nor callable.
+    if (options.caller) {
+        for (const [name, tool] of Object.entries(registeredTools)) {
+            if (!canUseTool(options.caller, name, declaredToolAccess[name])) {
+                tool.remove();
+            }
+        }
+        // Resources expose the same metadata as describeEntity.
+        if (!canUseTool(options.caller, 'describeEntity')) {
+            registeredResources.forEach(resource => resource.remove());
+        }
+    }
+
     // The final return must be at the end of the function.
     return server;
 };
\ No newline at end of file
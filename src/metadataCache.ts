@@ -0,0 +1,124 @@
+// src/metadataCache.ts
+
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { EntitySchema, EnumType, ODataEntity, ODataOperation } from './entityManager.js';
+import { logger } from './logger.js';
+
+// Bump this whenever the shape of MetadataSnapshot changes, so old cache files are ignored.
+export const CACHE_FORMAT_VERSION = 2;
+const DEFAULT_TTL_HOURS = 24;
+
+/**
+ * Everything EntityManager derives from the /data and $metadata endpoints.
+ */
+export interface MetadataSnapshot {
+    entities: ODataEntity[];
+    schemaCache: Record<string, EntitySchema>;
+    entitySetToTypeMap: Record<string, string>;
+    enumTypes: Record<string, EnumType>;
+    operations: ODataOperation[];
+}
+
+/**
+ * The contents of a cache file on disk.
+ */
+export interface CachedMetadata {
+    formatVersion: number;
+    resourceUrl: string;
+    savedAt: number;
+    // Validators returned with the $metadata document, used for conditional refreshes.
+    etag: string | null;
+    lastModified: string | null;
+    snapshot: MetadataSnapshot;
+}
+
+/**
+ * Persists parsed metadata to a local file so that cold starts do not need to download
+ * and parse the full $metadata document. One file is kept per DYNAMICS_RESOURCE_URL.
+ */
+export class MetadataCache {
+    public readonly filePath: string;
+    private readonly ttlMs: number;
+
+    constructor(private readonly resourceUrl: string, directory?: string, ttlHours?: number) {
+        const cacheDirectory = directory || process.env.METADATA_CACHE_DIR || path.join(os.tmpdir(), 'd365-fno-mcp');
+        const fileName = `${createHash('sha256').update(resourceUrl).digest('hex').slice(0, 16)}.json`;
+        this.filePath = path.join(cacheDirectory, fileName);
+
+        const configuredTtl = ttlHours ?? parseFloat(process.env.METADATA_CACHE_TTL_HOURS || '');
+        this.ttlMs = (isNaN(configuredTtl) ? DEFAULT_TTL_HOURS : configuredTtl) * 60 * 60 * 1000;
+    }
+
+    /**
+     * Reads the cache file.
+     * @returns The cached metadata, or null if there is no usable cache file.
+     * A corrupt or incompatible file is treated the same as a missing one.
+     */
+    public async load(): Promise<CachedMetadata | null> {
+        let raw: string;
+        try {
+            raw = await fs.readFile(this.filePath, 'utf8');
+        } catch {
+            return null;
+        }
+
+        try {
+            const entry = JSON.parse(raw) as CachedMetadata;
+            if (!this.isValid(entry)) {
+                logger.warn(`Ignoring metadata cache file ${this.filePath}: it is incomplete or was written by a different version.`);
+                return null;
+            }
+            return entry;
+        } catch (error) {
+            logger.warn(`Ignoring corrupt metadata cache file ${this.filePath}:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Writes the snapshot to disk. Failures are logged but never thrown, since the cache is only an optimization.
+     */
+    public async save(snapshot: MetadataSnapshot, validators: { etag: string | null; lastModified: string | null }): Promise<void> {
+        const entry: CachedMetadata = {
+            formatVersion: CACHE_FORMAT_VERSION,
+            resourceUrl: this.resourceUrl,
+            savedAt: Date.now(),
+            etag: validators.etag,
+            lastModified: validators.lastModified,
+            snapshot,
+        };
+
+        try {
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            // Write to a temporary file first so a crash mid-write cannot leave a truncated cache behind.
+            const tempPath = `${this.filePath}.${process.pid}.tmp`;
+            await fs.writeFile(tempPath, JSON.stringify(entry), 'utf8');
+            await fs.rename(tempPath, this.filePath);
+            logger.info(`Saved metadata cache to ${this.filePath}.`);
+        } catch (error) {
+            logger.error(`Failed to write metadata cache file ${this.filePath}:`, error);
+        }
+    }
+
+    /**
+     * Checks whether a cache entry has reached the configured TTL. With a TTL of 0, every load revalidates.
+     */
+    public isExpired(entry: CachedMetadata): boolean {
+        return Date.now() - entry.savedAt >= this.ttlMs;
+    }
+
+    private isValid(entry: CachedMetadata): boolean {
+        return entry?.formatVersion === CACHE_FORMAT_VERSION
+            && entry.resourceUrl === this.resourceUrl
+            && typeof entry.savedAt === 'number'
+            && Array.isArray(entry.snapshot?.entities)
+            && typeof entry.snapshot.schemaCache === 'object' && entry.snapshot.schemaCache !== null
+            && typeof entry.snapshot.entitySetToTypeMap === 'object' && entry.snapshot.entitySetToTypeMap !== null
+            && typeof entry.snapshot.enumTypes === 'object' && entry.snapshot.enumTypes !== null
+            && Array.isArray(entry.snapshot.operations)
+            && Object.keys(entry.snapshot.schemaCache).length > 0;
+    }
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildKeySegment, diffRecord, formatODataLiteral, validateRecord } from './odata.js';
+
+const customerSchema = {
+    name: 'CustomerV3',
+    fields: [
+        { name: 'dataAreaId', type: 'Edm.String', isKey: true },
+        { name: 'CustomerAccount', type: 'Edm.String', isKey: true },
+        { name: 'CreditLimit', type: 'Edm.Decimal', isKey: false },
+        { name: 'OnHold', type: 'Microsoft.Dynamics.DataEntities.CustVendorBlocked', isKey: false },
+    ],
+    navigationProperties: [],
+    operations: [],
+};
+
+const positionSchema = {
+    name: 'PositionHierarchy',
+    fields: [
+        { name: 'PositionId', type: 'Edm.String', isKey: true },
+        { name: 'ValidFrom', type: 'Edm.DateTimeOffset', isKey: true },
+        { name: 'RecId', type: 'Edm.Int64', isKey: true },
+    ],
+    navigationProperties: [],
+    operations: [],
+};
+
+describe('formatODataLiteral', () => {
+    it('should quote strings and escape embedded quotes', () => {
+        expect(formatODataLiteral("O'Brien", 'Edm.String')).toBe("'O''Brien'");
+    });
+
+    it('should leave numbers, dates and GUIDs unquoted', () => {
+        expect(formatODataLiteral(1500.5, 'Edm.Decimal')).toBe('1500.5');
+        expect(formatODataLiteral('2024-01-01T00:00:00Z', 'Edm.DateTimeOffset')).toBe('2024-01-01T00:00:00Z');
+        expect(formatODataLiteral('6f9619ff-8b86-d011-b42d-00cf4fc964ff', 'Edm.Guid')).toBe('6f9619ff-8b86-d011-b42d-00cf4fc964ff');
+    });
+
+    it('should prefix enum members with their type name', () => {
+        expect(formatODataLiteral('Yes', 'Microsoft.Dynamics.DataEntities.NoYes')).toBe("Microsoft.Dynamics.DataEntities.NoYes'Yes'");
+    });
+
+    it('should reject values that are not literals of the numeric type', () => {
+        expect(() => formatODataLiteral('abc', 'Edm.Int64')).toThrow("Value 'abc' is not a valid Edm.Int64.");
+        for (const value of ['0x1F', 'Infinity', '1e3', '1.5', 1.5, '']) {
+            expect(() => formatODataLiteral(value, 'Edm.Int32')).toThrow('is not a valid Edm.Int32.');
+        }
+        expect(() => formatODataLiteral('0x1F', 'Edm.Byte')).toThrow('is not a valid Edm.Byte.');
+        expect(() => formatODataLiteral('Infinity', 'Edm.Double')).toThrow('is not a valid Edm.Double.');
+        expect(() => formatODataLiteral('1e3', 'Edm.Decimal')).toThrow('is not a valid Edm.Decimal.');
+        expect(() => formatODataLiteral('.5', 'Edm.Decimal')).toThrow('is not a valid Edm.Decimal.');
+        expect(formatODataLiteral('-42', 'Edm.Int64')).toBe('-42');
+        expect(formatODataLiteral(' 12.50 ', 'Edm.Decimal')).toBe('12.50');
+        expect(formatODataLiteral('1.5e3', 'Edm.Double')).toBe('1.5e3');
+    });
+
+    it('should reject dates, GUIDs, durations and booleans that are not in their literal format', () => {
+        expect(() => formatODataLiteral("x)/OtherSet(y", 'Edm.Guid')).toThrow("Value 'x)/OtherSet(y' is not a valid Edm.Guid.");
+        expect(() => formatODataLiteral('2024-01-01T00:00:00Z or true', 'Edm.DateTimeOffset')).toThrow('is not a valid Edm.DateTimeOffset.');
+        expect(() => formatODataLiteral('01/02/2024', 'Edm.Date')).toThrow('is not a valid Edm.Date.');
+        expect(() => formatODataLiteral('PT', 'Edm.Duration')).toThrow('is not a valid Edm.Duration.');
+        expect(() => formatODataLiteral('yes', 'Edm.Boolean')).toThrow("Value 'yes' is not a valid Edm.Boolean. Use true or false.");
+        expect(formatODataLiteral('2024-01-31', 'Edm.Date')).toBe('2024-01-31');
+        expect(formatODataLiteral('2024-01-31T10:15:00.5+01:00', 'Edm.DateTimeOffset')).toBe('2024-01-31T10:15:00.5+01:00');
+        expect(formatODataLiteral('P1DT2H30M', 'Edm.Duration')).toBe('P1DT2H30M');
+        expect(formatODataLiteral('TRUE', 'Edm.Boolean')).toBe('true');
+        expect(formatODataLiteral(false, 'Edm.Boolean')).toBe('false');
+    });
+});
+
+describe('buildKeySegment', () => {
+    it('should build a compound key in schema order regardless of input case', () => {
+        const segment = buildKeySegment(customerSchema, { customeraccount: 'PM-001', DATAAREAID: 'usmf' });
+        expect(segment).toBe("(dataAreaId='usmf',CustomerAccount='PM-001')");
+    });
+
+    it('should format each key according to its type', () => {
+        const segment = buildKeySegment(positionSchema, { PositionId: '000123', ValidFrom: '2024-01-01T00:00:00Z', RecId: 5637144576 });
+        expect(segment).toBe("(PositionId='000123',ValidFrom=2024-01-01T00:00:00Z,RecId=5637144576)");
+    });
+
+    it('should encode characters that are unsafe in a path segment', () => {
+        const segment = buildKeySegment(customerSchema, { dataAreaId: 'usmf', CustomerAccount: 'A/B #1' });
+        expect(segment).toBe("(dataAreaId='usmf',CustomerAccount='A%2FB%20%231')");
+    });
+
+    it('should throw when a key field is missing', () => {
+        expect(() => buildKeySegment(customerSchema, { dataAreaId: 'usmf' })).toThrow('Missing key field(s) for \'CustomerV3\': CustomerAccount');
+    });
+
+    it('should throw when a non-key field is passed as a key', () => {
+        expect(() => buildKeySegment(customerSchema, { dataAreaId: 'usmf', CustomerAccount: 'PM-001', CreditLimit: 5 })).toThrow('CreditLimit are not part of the key');
+    });
+});
+
+describe('validateRecord', () => {
+    it('should accept known fields and annotations', () => {
+        expect(validateRecord(customerSchema, { dataAreaId: 'usmf', CreditLimit: 100, '@odata.etag': 'W/"1"' })).toEqual([]);
+    });
+
+    it('should reject unknown fields and suggest case corrections', () => {
+        const errors = validateRecord(customerSchema, { creditlimit: 100, Colour: 'red' });
+        expect(errors).toEqual([
+            "Unknown field 'creditlimit' on 'CustomerV3'. Did you mean 'CreditLimit'?",
+            "Unknown field 'Colour' on 'CustomerV3'.",
+        ]);
+    });
+});
+
+describe('diffRecord', () => {
+    it('should flag only the fields whose value changes', () => {
+        const changes = diffRecord({ CreditLimit: 100, OnHold: 'No' }, { CreditLimit: 250, OnHold: 'No' });
+        expect(changes).toEqual([
+            { field: 'CreditLimit', currentValue: 100, newValue: 250, changed: true },
+            { field: 'OnHold', currentValue: 'No', newValue: 'No', changed: false },
+        ]);
+    });
+});
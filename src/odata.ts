@@ -0,0 +1,170 @@
+// src/odata.ts
+
+import { EntityField, EntitySchema } from './entityManager.js';
+
+export type KeyValue = string | number | boolean;
+
+const INTEGER_LITERAL = /^[+-]?\d+$/;
+// Plain decimal notation. Hex, Infinity and NaN are not accepted, although JavaScript's Number() reads them.
+const DECIMAL_LITERAL = /^[+-]?\d+(\.\d+)?$/;
+const FLOATING_LITERAL = /^[+-]?\d+(\.\d+)?([eE][+-]?\d+)?$/;
+// The numeric Edm types, which are written without quotes in OData v4 URLs, with the format of their literals.
+const NUMERIC_LITERALS: Record<string, RegExp> = {
+    'Edm.Int16': INTEGER_LITERAL,
+    'Edm.Int32': INTEGER_LITERAL,
+    'Edm.Int64': INTEGER_LITERAL,
+    'Edm.Decimal': DECIMAL_LITERAL,
+    'Edm.Double': FLOATING_LITERAL,
+    'Edm.Single': FLOATING_LITERAL,
+    'Edm.Byte': INTEGER_LITERAL,
+    'Edm.SByte': INTEGER_LITERAL,
+};
+export const NUMERIC_TYPES = Object.keys(NUMERIC_LITERALS);
+// The other unquoted types. Their values are checked against these formats, since they are written into URLs as is.
+const UNQUOTED_LITERALS: Record<string, RegExp> = {
+    'Edm.DateTimeOffset': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d{1,12})?)?(Z|[+-]\d{2}:\d{2})$/i,
+    'Edm.Date': /^\d{4}-\d{2}-\d{2}$/,
+    'Edm.TimeOfDay': /^\d{2}:\d{2}(:\d{2}(\.\d{1,12})?)?$/,
+    'Edm.Guid': /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+    'Edm.Duration': /^-?P(?=\d|T\d)(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/,
+};
+
+/**
+ * Formats a value as an OData v4 literal for the given Edm or enum type.
+ * Strings are single-quoted with embedded quotes doubled, enums are written as
+ * `Namespace.EnumType'Member'`, and numbers, booleans, dates and GUIDs are unquoted.
+ * @param value The raw value supplied by the caller.
+ * @param type The Edm type or fully qualified enum type name from the schema.
+ * @returns The literal as it should appear in a URL or $filter expression.
+ * @throws If the value of an unquoted type is not in that type's literal format.
+ */
+export function formatODataLiteral(value: KeyValue | null, type: string): string {
+    if (value === null) {
+        return 'null';
+    }
+
+    const text = String(value);
+
+    if (type === 'Edm.String') {
+        return `'${text.replace(/'/g, "''")}'`;
+    }
+    if (type === 'Edm.Boolean') {
+        if (!/^(true|false)$/i.test(text)) {
+            throw new Error(`Value '${text}' is not a valid ${type}. Use true or false.`);
+        }
+        return text.toLowerCase();
+    }
+    if (NUMERIC_LITERALS[type]) {
+        if (!NUMERIC_LITERALS[type].test(text.trim())) {
+            throw new Error(`Value '${text}' is not a valid ${type}.`);
+        }
+        return text.trim();
+    }
+    if (type === 'Edm.DateTimeOffset' && /^\d{4}-\d{2}-\d{2}$/.test(text)) {
+        // A bare date is not a valid DateTimeOffset literal, so widen it to midnight UTC.
+        return `${text}T00:00:00Z`;
+    }
+    if (UNQUOTED_LITERALS[type]) {
+        if (!UNQUOTED_LITERALS[type].test(text)) {
+            throw new Error(`Value '${text}' is not a valid ${type}.`);
+        }
+        return text;
+    }
+    if (type.startsWith('Edm.')) {
+        return `'${text.replace(/'/g, "''")}'`;
+    }
+
+    // Anything outside the Edm namespace is an enum type, e.g. Microsoft.Dynamics.DataEntities.NoYes.
+    return `${type}'${text.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Returns the key fields of an entity in the order they are declared in $metadata.
+ */
+export function getKeyFields(schema: EntitySchema): EntityField[] {
+    return schema.fields.filter(f => f.isKey);
+}
+
+/**
+ * Builds the compound key segment for an entity, e.g. `(dataAreaId='usmf',CustomerAccount='PM-001')`.
+ * Key names are matched case-insensitively against the schema and every key field must be supplied.
+ * @param schema The parsed schema of the entity.
+ * @param keyValues The key values supplied by the caller.
+ * @returns The key segment including the surrounding parentheses.
+ */
+export function buildKeySegment(schema: EntitySchema, keyValues: Record<string, KeyValue>): string {
+    const keyFields = getKeyFields(schema);
+    if (keyFields.length === 0) {
+        throw new Error(`Entity '${schema.name}' does not declare any key fields in $metadata.`);
+    }
+
+    const provided = new Map(Object.entries(keyValues).map(([k, v]) => [k.toLowerCase(), v]));
+    const missing = keyFields.filter(f => !provided.has(f.name.toLowerCase())).map(f => f.name);
+    if (missing.length > 0) {
+        throw new Error(`Missing key field(s) for '${schema.name}': ${missing.join(', ')}. Required keys: ${keyFields.map(f => f.name).join(', ')}.`);
+    }
+
+    const keyNames = keyFields.map(f => f.name.toLowerCase());
+    const extra = Object.keys(keyValues).filter(k => !keyNames.includes(k.toLowerCase()));
+    if (extra.length > 0) {
+        throw new Error(`Field(s) ${extra.join(', ')} are not part of the key for '${schema.name}'. Required keys: ${keyFields.map(f => f.name).join(', ')}.`);
+    }
+
+    const parts = keyFields.map(f => {
+        const literal = formatODataLiteral(provided.get(f.name.toLowerCase())!, f.type);
+        // Quoted literals may contain characters that are not safe in a URL path segment.
+        const safeLiteral = literal.includes("'") ? encodeURIComponent(literal) : literal;
+        return `${f.name}=${safeLiteral}`;
+    });
+
+    return `(${parts.join(',')})`;
+}
+
+/**
+ * Checks a record against the entity schema before it is sent to the service.
+ * @param schema The parsed schema of the entity.
+ * @param record The fields the caller wants to write.
+ * @returns A list of validation errors; empty when the record is valid.
+ */
+export function validateRecord(schema: EntitySchema, record: Record<string, unknown>): string[] {
+    const errors: string[] = [];
+    // Navigation properties are accepted so that related records can be deep-inserted.
+    const fieldNames = new Set([...schema.fields.map(f => f.name), ...schema.navigationProperties.map(n => n.name)]);
+
+    for (const key of Object.keys(record)) {
+        // Instance annotations such as @odata.type or @odata.etag are allowed through.
+        if (key.startsWith('@')) {
+            continue;
+        }
+        if (!fieldNames.has(key)) {
+            const caseInsensitive = schema.fields.find(f => f.name.toLowerCase() === key.toLowerCase());
+            errors.push(caseInsensitive
+                ? `Unknown field '${key}' on '${schema.name}'. Did you mean '${caseInsensitive.name}'?`
+                : `Unknown field '${key}' on '${schema.name}'.`);
+        }
+    }
+
+    return errors;
+}
+
+export interface FieldChange {
+    field: string;
+    currentValue: unknown;
+    newValue: unknown;
+    changed: boolean;
+}
+
+/**
+ * Compares the fields of a pending update with the current values of the record.
+ * @param current The record as currently stored on the server.
+ * @param changes The fields the caller wants to write.
+ * @returns One entry per field in `changes`, flagged when the value actually differs.
+ */
+export function diffRecord(current: Record<string, unknown>, changes: Record<string, unknown>): FieldChange[] {
+    return Object.entries(changes)
+        .filter(([field]) => !field.startsWith('@'))
+        .map(([field, newValue]) => {
+            const currentValue = current[field];
+            return { field, currentValue, newValue, changed: JSON.stringify(currentValue) !== JSON.stringify(newValue) };
+        });
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildOperationSegment, validateOperationParameters } from './operations.js';
+import { ODataOperation } from './entityManager.js';
+
+const postJournal: ODataOperation = {
+    name: 'PostJournal',
+    qualifiedName: 'Microsoft.Dynamics.DataEntities.PostJournal',
+    kind: 'Action',
+    isBound: true,
+    bindingType: 'Microsoft.Dynamics.DataEntities.LedgerJournalHeader',
+    bindingIsCollection: false,
+    parameters: [
+        { name: 'transferErrors', type: 'Microsoft.Dynamics.DataEntities.NoYes', isCollection: false, nullable: false },
+        { name: 'lineNumbers', type: 'Edm.Int32', isCollection: true, nullable: true },
+    ],
+};
+
+const getRate: ODataOperation = {
+    name: 'GetExchangeRate',
+    qualifiedName: 'Microsoft.Dynamics.DataEntities.GetExchangeRate',
+    kind: 'Function',
+    isBound: true,
+    bindingType: 'Microsoft.Dynamics.DataEntities.ExchangeRate',
+    bindingIsCollection: true,
+    parameters: [
+        { name: 'currency', type: 'Edm.String', isCollection: false, nullable: false },
+        { name: 'rateDate', type: 'Edm.DateTimeOffset', isCollection: false, nullable: false },
+    ],
+};
+
+const enumTypes = {
+    'Microsoft.Dynamics.DataEntities.NoYes': {
+        name: 'Microsoft.Dynamics.DataEntities.NoYes',
+        isFlags: false,
+        members: [{ name: 'No', value: 0 }, { name: 'Yes', value: 1 }],
+    },
+};
+
+describe('validateOperationParameters', () => {
+    it('should accept arguments that match the signature', () => {
+        expect(validateOperationParameters(postJournal, { transferErrors: 'Yes', lineNumbers: [1, 2] }, enumTypes)).toEqual([]);
+    });
+
+    it('should report unknown, missing and mistyped parameters', () => {
+        const errors = validateOperationParameters(postJournal, { transferError: 'Yes', lineNumbers: 3 }, enumTypes);
+        expect(errors).toEqual([
+            "Unknown parameter 'transferError' for 'PostJournal'. Declared parameters: transferErrors, lineNumbers.",
+            "Missing required parameter 'transferErrors' (Microsoft.Dynamics.DataEntities.NoYes).",
+            "Parameter 'lineNumbers' must be an array of Edm.Int32.",
+        ]);
+    });
+
+    it('should check enum members', () => {
+        expect(validateOperationParameters(postJournal, { transferErrors: 'Maybe' }, enumTypes))
+            .toEqual(["Parameter 'transferErrors' must be one of No, Yes."]);
+    });
+});
+
+describe('buildOperationSegment', () => {
+    it('should use the qualified name for bound actions', () => {
+        expect(buildOperationSegment(postJournal, { transferErrors: 'Yes' })).toBe('Microsoft.Dynamics.DataEntities.PostJournal');
+    });
+
+    it('should inline function parameters as typed literals', () => {
+        expect(buildOperationSegment(getRate, { currency: 'EUR', rateDate: '2024-06-30T00:00:00Z' }))
+            .toBe("Microsoft.Dynamics.DataEntities.GetExchangeRate(currency='EUR',rateDate=2024-06-30T00%3A00%3A00Z)");
+    });
+});
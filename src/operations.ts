@@ -0,0 +1,117 @@
+// src/operations.ts
+
+import { EnumType, ODataOperation, OperationParameter } from './entityManager.js';
+import { formatODataLiteral, KeyValue, NUMERIC_TYPES } from './odata.js';
+
+/**
+ * Describes how an operation is addressed, for listings and error messages.
+ */
+export function describeBinding(operation: ODataOperation): string {
+    if (!operation.isBound) {
+        return 'unbound';
+    }
+    return operation.bindingIsCollection ? `bound to the collection of ${operation.bindingType}` : `bound to a single ${operation.bindingType}`;
+}
+
+function checkScalar(parameter: OperationParameter, value: unknown, enumType: EnumType | undefined): string | null {
+    const { name, type } = parameter;
+
+    if (enumType) {
+        const members = enumType.members.map(m => m.name);
+        return typeof value === 'string' && members.includes(value)
+            ? null
+            : `Parameter '${name}' must be one of ${members.join(', ')}.`;
+    }
+    if (type === 'Edm.String' || type === 'Edm.Guid' || type === 'Edm.DateTimeOffset' || type === 'Edm.Date') {
+        return typeof value === 'string' ? null : `Parameter '${name}' must be a string (${type}).`;
+    }
+    if (NUMERIC_TYPES.includes(type)) {
+        return typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)))
+            ? null
+            : `Parameter '${name}' must be a number (${type}).`;
+    }
+    if (type === 'Edm.Boolean') {
+        return typeof value === 'boolean' ? null : `Parameter '${name}' must be a boolean.`;
+    }
+    // Complex and entity types are passed through as JSON objects.
+    return typeof value === 'object' ? null : `Parameter '${name}' must be a JSON object (${type}).`;
+}
+
+/**
+ * Checks the arguments of an action or function call against its declared signature.
+ * @param operation The operation as parsed from $metadata.
+ * @param args The parameter values supplied by the caller.
+ * @param enumTypes The enum types referenced by the operation's parameters, keyed by full type name.
+ * @returns A list of validation errors; empty when the arguments match the signature.
+ */
+export function validateOperationParameters(operation: ODataOperation, args: Record<string, unknown>, enumTypes: Record<string, EnumType>): string[] {
+    const errors: string[] = [];
+    const declared = new Map(operation.parameters.map(p => [p.name, p]));
+
+    for (const name of Object.keys(args)) {
+        if (!declared.has(name)) {
+            const expected = operation.parameters.map(p => p.name).join(', ') || 'none';
+            errors.push(`Unknown parameter '${name}' for '${operation.name}'. Declared parameters: ${expected}.`);
+        }
+    }
+
+    for (const parameter of operation.parameters) {
+        const value = args[parameter.name];
+        if (value === undefined || value === null) {
+            if (!parameter.nullable) {
+                errors.push(`Missing required parameter '${parameter.name}' (${parameter.type}).`);
+            }
+            continue;
+        }
+
+        if (parameter.isCollection) {
+            if (!Array.isArray(value)) {
+                errors.push(`Parameter '${parameter.name}' must be an array of ${parameter.type}.`);
+                continue;
+            }
+            for (const item of value) {
+                const error = checkScalar(parameter, item, enumTypes[parameter.type]);
+                if (error) {
+                    errors.push(error);
+                    break;
+                }
+            }
+            continue;
+        }
+
+        const error = checkScalar(parameter, value, enumTypes[parameter.type]);
+        if (error) {
+            errors.push(error);
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Builds the URL path segment that invokes an operation, relative to the binding target.
+ * Actions take their parameters in the request body; functions take them inline as literals.
+ * @param operation The operation as parsed from $metadata.
+ * @param args The validated parameter values.
+ * @returns The segment to append after the entity set, record or service root, e.g. 'Microsoft.Dynamics.DataEntities.Confirm'.
+ */
+export function buildOperationSegment(operation: ODataOperation, args: Record<string, unknown>): string {
+    // Unbound operations are addressed through their import in the entity container, which F&O names after the operation.
+    const name = operation.isBound ? operation.qualifiedName : operation.name;
+
+    if (operation.kind === 'Action') {
+        return name;
+    }
+
+    const inline = operation.parameters
+        .filter(p => args[p.name] !== undefined)
+        .map(p => {
+            const value = args[p.name];
+            const literal = p.isCollection || typeof value === 'object'
+                ? encodeURIComponent(JSON.stringify(value))
+                : encodeURIComponent(formatODataLiteral(value as KeyValue | null, p.type));
+            return `${p.name}=${literal}`;
+        });
+
+    return `${name}(${inline.join(',')})`;
+}
@@ -0,0 +1,25 @@
+import { describe, it, expect } from '@jest/globals';
+import { decodeCursor, encodeCursor } from './paging.js';
+
+const resourceUrl = 'https://contoso.operations.dynamics.com';
+
+describe('continuation cursors', () => {
+    it('round-trips a nextLink', () => {
+        const nextLink = `${resourceUrl}/data/CustomersV3?$filter=dataAreaId%20eq%20'usmf'&$skiptoken=42`;
+        expect(decodeCursor(encodeCursor(nextLink), resourceUrl)).toBe(new URL(nextLink).toString());
+    });
+
+    it('rejects cursors that point at another host', () => {
+        const cursor = encodeCursor('https://attacker.example.com/data/CustomersV3');
+        expect(() => decodeCursor(cursor, resourceUrl)).toThrow('does not belong to this Dynamics 365 environment');
+    });
+
+    it('rejects cursors outside the OData endpoint', () => {
+        const cursor = encodeCursor(`${resourceUrl}/api/services/SomeService`);
+        expect(() => decodeCursor(cursor, resourceUrl)).toThrow('does not belong');
+    });
+
+    it('rejects malformed cursors', () => {
+        expect(() => decodeCursor('not a cursor', resourceUrl)).toThrow('The cursor is not valid');
+    });
+});
@@ -0,0 +1,33 @@
+// src/paging.ts
+
+/**
+ * Turns an @odata.nextLink into an opaque continuation cursor.
+ * The cursor carries the full link, so it works the same whether the service pages with
+ * $skip or with $skiptoken.
+ */
+export function encodeCursor(nextLink: string): string {
+    return Buffer.from(nextLink, 'utf8').toString('base64url');
+}
+
+/**
+ * Turns a continuation cursor back into the URL of the next page.
+ * @param cursor The cursor returned by a previous query.
+ * @param resourceUrl The Dynamics 365 environment URL the cursor must belong to.
+ * @throws If the cursor is malformed or points anywhere other than the environment's OData endpoint,
+ * so a crafted cursor cannot make the server send its bearer token to another host.
+ */
+export function decodeCursor(cursor: string, resourceUrl: string): string {
+    let url: URL;
+    try {
+        url = new URL(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+        throw new Error('The cursor is not valid. Use the cursor exactly as it was returned by the previous query.');
+    }
+
+    const expected = new URL(resourceUrl);
+    if (url.origin !== expected.origin || !url.pathname.startsWith('/data/')) {
+        throw new Error('The cursor does not belong to this Dynamics 365 environment.');
+    }
+
+    return url.toString();
+}
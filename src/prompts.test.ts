@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { BUILT_IN_PROMPTS, loadPromptTemplates, parsePromptTemplate, renderPrompt } from './prompts.js';
+
+describe('renderPrompt', () => {
+    const onboardUser = BUILT_IN_PROMPTS.find(p => p.name === 'onboardUser')!;
+
+    it('fills in the arguments and falls back to their defaults', () => {
+        const text = renderPrompt(onboardUser, { userId: 'jdoe', userName: 'Jane Doe', email: 'jdoe@contoso.com', roles: 'Accountant' });
+
+        expect(text).toContain('- User ID: jdoe');
+        expect(text).toContain('- Default company: the default company of the environment');
+        expect(text).toContain('{ "UserId": "jdoe", "SecurityRoleIdentifier": "<identifier>" }');
+        expect(text).not.toMatch(/\{\{/);
+    });
+});
+
+describe('parsePromptTemplate', () => {
+    it('joins templates given as an array of lines', () => {
+        const prompt = parsePromptTemplate({
+            name: 'vendorSpend',
+            description: 'Spend per vendor.',
+            arguments: [{ name: 'vendor', required: true }],
+            tools: ['odataQuery'],
+            template: ['Spend of {{vendor}}:', 'use odataQuery.'],
+        }, 'vendor-spend.json');
+
+        expect(prompt.template).toBe('Spend of {{vendor}}:\nuse odataQuery.');
+        expect(prompt.tools).toEqual(['odataQuery']);
+    });
+
+    it('rejects incomplete templates and undeclared placeholders', () => {
+        expect(() => parsePromptTemplate({ name: '1st', description: 'x', template: 'x' }, 'a.json')).toThrow("a.json: 'name' must start with a letter");
+        expect(() => parsePromptTemplate({ name: 'x', template: 'x' }, 'a.json')).toThrow("'description' is required.");
+        expect(() => parsePromptTemplate({ name: 'x', description: 'x' }, 'a.json')).toThrow("'template' is required.");
+        expect(() => parsePromptTemplate({ name: 'x', description: 'x', template: 'Hi {{who}}' }, 'a.json'))
+            .toThrow("the template uses '{{who}}', which is not a declared argument.");
+    });
+});
+
+describe('loadPromptTemplates', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'prompts-test-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('returns the built-in prompts without a directory', () => {
+        expect(loadPromptTemplates(undefined).map(p => p.name)).toEqual(BUILT_IN_PROMPTS.map(p => p.name));
+    });
+
+    it('adds templates from the directory, lets them replace built-ins and skips invalid files', async () => {
+        await fs.writeFile(path.join(dir, 'vendor-spend.json'), JSON.stringify({ name: 'vendorSpend', description: 'Spend per vendor.', template: 'Show vendor spend.' }));
+        await fs.writeFile(path.join(dir, 'vendor-status.json'), JSON.stringify({ name: 'vendorStatus', description: 'Our own vendor check.', template: 'Check the vendor.' }));
+        await fs.writeFile(path.join(dir, 'broken.json'), '{ not json');
+        await fs.writeFile(path.join(dir, 'notes.txt'), 'ignored');
+
+        const prompts = loadPromptTemplates(dir);
+
+        expect(prompts.map(p => p.name)).toEqual([...BUILT_IN_PROMPTS.map(p => p.name), 'vendorSpend']);
+        expect(prompts.find(p => p.name === 'vendorStatus')!.description).toBe('Our own vendor check.');
+    });
+});
@@ -0,0 +1,198 @@
+// src/prompts.ts
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { logger } from './logger.js';
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_]\w*)\s*\}\}/g;
+const PROMPT_NAME = /^[A-Za-z][\w-]*$/;
+
+export interface PromptArgument {
+    name: string;
+    description?: string;
+    required?: boolean;
+    // Used in place of the argument when the client leaves it out.
+    default?: string;
+}
+
+/**
+ * A parameterized prompt that walks the model through a workflow with the server's tools.
+ * `{{argument}}` placeholders in the template are replaced with the prompt arguments.
+ */
+export interface PromptTemplate {
+    name: string;
+    title?: string;
+    description: string;
+    arguments: PromptArgument[];
+    // The tools the workflow calls. The prompt is hidden from callers who may not use all of them.
+    tools: string[];
+    template: string;
+}
+
+export const BUILT_IN_PROMPTS: PromptTemplate[] = [
+    {
+        name: 'onboardUser',
+        title: 'Onboard a user',
+        description: 'Creates a Dynamics 365 user and assigns security roles, confirming each write with the user.',
+        arguments: [
+            { name: 'userId', description: 'The user ID to create, e.g. jdoe.', required: true },
+            { name: 'userName', description: "The user's full name.", required: true },
+            { name: 'email', description: "The user's email address, which is also their sign-in name.", required: true },
+            { name: 'roles', description: 'Comma-separated names of the security roles to assign.', required: true },
+            { name: 'company', description: 'The default legal entity (dataAreaId).', default: 'the default company of the environment' },
+        ],
+        tools: ['odataQuery', 'createSystemUser', 'assignUserRole'],
+        template: [
+            'Onboard a new Dynamics 365 user with these details:',
+            '- User ID: {{userId}}',
+            '- Name: {{userName}}',
+            '- Email: {{email}}',
+            '- Default company: {{company}}',
+            '- Security roles: {{roles}}',
+            '',
+            'Follow these steps and stop to report any error:',
+            "1. Call `odataQuery` on `SystemUsers` with the filter `{ \"UserID\": \"{{userId}}\" }` and `planOnly: false`. If the user already exists, skip to step 3.",
+            '2. Call `createSystemUser` with `userData` containing `UserID`, `UserName`, `Email`, `Alias` (the email address) and `Company` (leave it out if no company was given). Show me the write plan and only send the confirmation token after I approve it.',
+            '3. For each role, call `odataQuery` on `SecurityRoles` filtered by `Name` to find its `SecurityRoleIdentifier`. If a role is not found, list close matches instead of guessing.',
+            '4. For each role found, call `assignUserRole` with `associationData` `{ "UserId": "{{userId}}", "SecurityRoleIdentifier": "<identifier>" }`, again confirming each plan with me.',
+            '5. Summarize what was created and assigned, and anything that was skipped.',
+        ].join('\n'),
+    },
+    {
+        name: 'customerOpenOrders',
+        title: "Look up a customer's open orders",
+        description: "Shows a customer's account details and their open sales orders.",
+        arguments: [
+            { name: 'customerAccount', description: 'The customer account number, e.g. US-001.', required: true },
+            { name: 'company', description: 'The legal entity (dataAreaId), e.g. usmf.', required: true },
+        ],
+        tools: ['odataQuery'],
+        template: [
+            'Look up customer {{customerAccount}} in company {{company}} and their open sales orders.',
+            '',
+            '1. Call `odataQuery` on `CustomersV3` with the filter `{ "CustomerAccount": "{{customerAccount}}", "dataAreaId": "{{company}}" }`, selecting `OrganizationName`, `CustomerGroupId`, `CreditLimit`, `SalesCurrencyCode` and `OnHoldStatus`, with `planOnly: false`.',
+            "2. Call `odataQuery` on `SalesOrderHeadersV2` for orders of this customer (`OrderingCustomerAccountNumber`) in company {{company}} whose `SalesOrderStatus` is `Backorder`, selecting `SalesOrderNumber`, `RequestedShippingDate`, `CurrencyCode` and `CustomersOrderReference`. Use `maxRows` to fetch all of them.",
+            '3. If a field name is rejected, call `describeEntity` to find the right one and retry.',
+            '4. Present the customer details, then a table of the open orders sorted by requested shipping date, and point out orders whose requested shipping date has passed.',
+        ].join('\n'),
+    },
+    {
+        name: 'vendorStatus',
+        title: "Check a vendor's status",
+        description: "Checks whether a vendor is on hold and lists their open purchase orders.",
+        arguments: [
+            { name: 'vendorAccount', description: 'The vendor account number, e.g. 1001.', required: true },
+            { name: 'company', description: 'The legal entity (dataAreaId), e.g. usmf.', required: true },
+        ],
+        tools: ['odataQuery'],
+        template: [
+            'Check the status of vendor {{vendorAccount}} in company {{company}}.',
+            '',
+            '1. Call `odataQuery` on `VendorsV2` with the filter `{ "VendorAccountNumber": "{{vendorAccount}}", "dataAreaId": "{{company}}" }`, selecting `VendorOrganizationName`, `VendorGroupId`, `OnHoldStatus`, `CurrencyCode` and `PaymentTermsName`, with `planOnly: false`.',
+            "2. Call `odataQuery` on `PurchaseOrderHeadersV2` for this vendor's orders (`OrderVendorAccountNumber`) in company {{company}} whose `PurchaseOrderStatus` is `Backorder`, selecting `PurchaseOrderNumber`, `RequestedDeliveryDate` and `CurrencyCode`.",
+            '3. If a field name is rejected, call `describeEntity` to find the right one and retry.',
+            "4. Report whether the vendor is on hold and what the hold blocks, then list the open purchase orders.",
+        ].join('\n'),
+    },
+    {
+        name: 'updateCustomerDetails',
+        title: 'Update customer details',
+        description: 'Applies a described change to a customer record, showing the field-by-field diff before writing.',
+        arguments: [
+            { name: 'customerAccount', description: 'The customer account number.', required: true },
+            { name: 'company', description: 'The legal entity (dataAreaId).', required: true },
+            { name: 'changes', description: 'The change in plain words, e.g. "raise the credit limit to 50000".', required: true },
+        ],
+        tools: ['odataQuery', 'describeEntity', 'updateCustomer'],
+        template: [
+            'Update customer {{customerAccount}} in company {{company}}: {{changes}}',
+            '',
+            '1. Call `odataQuery` on `CustomersV3` with the filter `{ "CustomerAccount": "{{customerAccount}}", "dataAreaId": "{{company}}" }` and `planOnly: false` to read the current record.',
+            '2. Work out which fields the change affects. Call `describeEntity` on `CustomersV3` if you are unsure of a field name or its allowed values.',
+            '3. Call `updateCustomer` with `dataAreaId` "{{company}}", `customerAccount` "{{customerAccount}}" and only the changed fields in `updateData`.',
+            '4. Show me the write plan with its diff and only send the confirmation token after I approve it.',
+        ].join('\n'),
+    },
+];
+
+/**
+ * Fills in the placeholders of a prompt template. Arguments the client left out take their
+ * default, or are left empty.
+ */
+export function renderPrompt(prompt: PromptTemplate, values: Record<string, string | undefined>): string {
+    return prompt.template.replace(PLACEHOLDER, (_match, name: string) => {
+        return values[name] ?? prompt.arguments.find(arg => arg.name === name)?.default ?? '';
+    });
+}
+
+/**
+ * Validates a prompt template read from a file.
+ * @param source The file name, used in error messages.
+ * @throws If a required property is missing or a placeholder names an undeclared argument.
+ */
+export function parsePromptTemplate(raw: unknown, source: string): PromptTemplate {
+    const value = raw as Partial<Omit<PromptTemplate, 'template'>> & { template?: string | string[] };
+    if (!value || typeof value !== 'object') {
+        throw new Error(`${source}: a prompt template must be a JSON object.`);
+    }
+    if (typeof value.name !== 'string' || !PROMPT_NAME.test(value.name)) {
+        throw new Error(`${source}: 'name' must start with a letter and contain only letters, digits, '_' and '-'.`);
+    }
+    if (typeof value.description !== 'string') {
+        throw new Error(`${source}: 'description' is required.`);
+    }
+    // Long templates can be given as an array of lines.
+    const template = Array.isArray(value.template) ? value.template.join('\n') : value.template;
+    if (typeof template !== 'string' || !template.trim()) {
+        throw new Error(`${source}: 'template' is required.`);
+    }
+
+    const args = value.arguments ?? [];
+    if (!Array.isArray(args) || args.some(arg => !arg || typeof arg.name !== 'string')) {
+        throw new Error(`${source}: 'arguments' must be an array of { "name", "description", "required", "default" } entries.`);
+    }
+    for (const [, name] of template.matchAll(PLACEHOLDER)) {
+        if (!args.some(arg => arg.name === name)) {
+            throw new Error(`${source}: the template uses '{{${name}}}', which is not a declared argument.`);
+        }
+    }
+
+    return {
+        name: value.name,
+        title: value.title,
+        description: value.description,
+        arguments: args,
+        tools: Array.isArray(value.tools) ? value.tools : [],
+        template,
+    };
+}
+
+/**
+ * Returns the built-in prompts plus the templates in PROMPTS_DIR (one JSON file per prompt).
+ * A file prompt replaces the built-in prompt of the same name. Unreadable files are logged and skipped,
+ * so one bad template does not take the others down.
+ */
+export function loadPromptTemplates(dir: string | undefined = process.env.PROMPTS_DIR): PromptTemplate[] {
+    const prompts = new Map(BUILT_IN_PROMPTS.map(prompt => [prompt.name, prompt]));
+    if (!dir) {
+        return [...prompts.values()];
+    }
+
+    let files: string[];
+    try {
+        files = readdirSync(dir).filter(file => file.endsWith('.json')).sort();
+    } catch (error) {
+        logger.warn(`Could not read the prompt directory ${dir}:`, (error as Error).message);
+        return [...prompts.values()];
+    }
+
+    for (const file of files) {
+        try {
+            const prompt = parsePromptTemplate(JSON.parse(readFileSync(join(dir, file), 'utf8')), file);
+            prompts.set(prompt.name, prompt);
+        } catch (error) {
+            logger.warn(`Skipping prompt template ${file}:`, (error as Error).message);
+        }
+    }
+    return [...prompts.values()];
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from '@jest/globals';
+import { EntityManager, EntitySchema, ODataOperation } from './entityManager.js';
+import { resolveResourcePath } from './resourcePath.js';
+
+const NAMESPACE = 'Microsoft.Dynamics.DataEntities';
+
+const confirm: ODataOperation = {
+    name: 'Confirm',
+    qualifiedName: `${NAMESPACE}.Confirm`,
+    kind: 'Action',
+    isBound: true,
+    bindingType: `${NAMESPACE}.SalesOrderHeaderV2`,
+    bindingIsCollection: false,
+    parameters: [],
+};
+
+const schemas: Record<string, EntitySchema> = {
+    SalesOrderHeadersV2: {
+        name: 'SalesOrderHeaderV2',
+        fields: [{ name: 'SalesOrderNumber', type: 'Edm.String', isKey: true }],
+        navigationProperties: [{ name: 'SalesOrderLines', targetType: `${NAMESPACE}.SalesOrderLineV2`, isCollection: true }],
+        operations: [confirm],
+    },
+    SalesOrderLinesV2: {
+        name: 'SalesOrderLineV2',
+        fields: [{ name: 'LineNumber', type: 'Edm.Int64', isKey: true }],
+        navigationProperties: [],
+        operations: [],
+    },
+    SystemUsers: {
+        name: 'SystemUser',
+        fields: [{ name: 'UserID', type: 'Edm.String', isKey: true }],
+        navigationProperties: [],
+        operations: [],
+    },
+};
+
+const entityManager = {
+    getEntities: async () => Object.keys(schemas).map(name => ({ name, url: name })),
+    getEntitySchema: async (name: string) => schemas[name] ?? null,
+    getEntitySetForType: async (type: string) => type === `${NAMESPACE}.SalesOrderLineV2` ? 'SalesOrderLinesV2' : null,
+    getOperations: async () => [{ ...confirm, name: 'InitializeDataManagement', qualifiedName: `${NAMESPACE}.InitializeDataManagement`, isBound: false }],
+} as unknown as EntityManager;
+
+describe('resolveResourcePath', () => {
+    it('resolves percent-encoded and re-cased entity sets to their declared name', async () => {
+        for (const url of ["%53ystemUsers('jdoe')", "/systemusers('jdoe')", 'SYSTEMUSERS?$top=1']) {
+            const resolved = await resolveResourcePath(entityManager, url);
+            expect(resolved).toMatchObject({ entitySet: 'SystemUsers', addressesRecords: true, targets: ['SystemUsers'] });
+        }
+    });
+
+    it('follows navigation properties, bound operations and Content-ID references', async () => {
+        const lines = await resolveResourcePath(entityManager, "SalesOrderHeadersV2('SO/1')/SalesOrderLines");
+        expect(lines).toMatchObject({ entitySet: 'SalesOrderLinesV2', targets: ['SalesOrderHeadersV2', 'SalesOrderLinesV2'] });
+
+        const references = new Map([['1', await resolveResourcePath(entityManager, 'SalesOrderHeadersV2')]]);
+        const confirmed = await resolveResourcePath(entityManager, `$1/${NAMESPACE}.Confirm`, references);
+        expect(confirmed).toMatchObject({ entitySet: 'SalesOrderHeadersV2', addressesRecords: false, targets: ['SalesOrderHeadersV2', 'Confirm'] });
+
+        const unbound = await resolveResourcePath(entityManager, 'initializedatamanagement');
+        expect(unbound).toMatchObject({ entitySet: null, targets: ['InitializeDataManagement'] });
+    });
+
+    it('accepts properties and system segments', async () => {
+        const value = await resolveResourcePath(entityManager, "SystemUsers('jdoe')/UserID/$value");
+        expect(value).toMatchObject({ entitySet: 'SystemUsers', addressesRecords: false });
+        expect((await resolveResourcePath(entityManager, 'SystemUsers/$count')).addressesRecords).toBe(false);
+    });
+
+    it('rejects paths that do not resolve', async () => {
+        await expect(resolveResourcePath(entityManager, 'Unknown')).rejects.toThrow("'Unknown' in 'Unknown' is not declared in $metadata.");
+        await expect(resolveResourcePath(entityManager, "SystemUsers('jdoe')/Unknown")).rejects.toThrow("'Unknown' in");
+        await expect(resolveResourcePath(entityManager, "SystemUsers('jdoe')/UserID/SystemUsers")).rejects.toThrow("'SystemUsers' in");
+        await expect(resolveResourcePath(entityManager, '$2/SalesOrderLines')).rejects.toThrow("'$2' in '$2/SalesOrderLines' does not refer to an earlier operation.");
+        await expect(resolveResourcePath(entityManager, '%E0%A4%A')).rejects.toThrow('is not a valid URL path.');
+    });
+});
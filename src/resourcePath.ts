@@ -0,0 +1,124 @@
+// src/resourcePath.ts
+
+import { EntityManager, EntitySchema } from './entityManager.js';
+
+/**
+ * The entity set a resource path addresses, with every entity set and operation it passes through.
+ */
+export interface ResolvedPath {
+    // The entity set of the last segment that addresses records, or null for unbound operations.
+    entitySet: string | null;
+    schema: EntitySchema | null;
+    // Whether the path ends on records of `entitySet` rather than a property, an operation or $count.
+    addressesRecords: boolean;
+    // The declared names of the entity sets and operations on the path, in order.
+    targets: string[];
+}
+
+// Path segments that address part of the previous resource rather than another entity set.
+const SYSTEM_SEGMENTS = ['$count', '$value', '$ref'];
+
+/**
+ * Splits a path at the slashes outside parentheses and quoted key values, e.g.
+ * `Customers('a/b')/Orders` into `Customers('a/b')` and `Orders`.
+ */
+function splitSegments(path: string): string[] {
+    const segments: string[] = [];
+    let depth = 0;
+    let quoted = false;
+    let start = 0;
+    for (let i = 0; i < path.length; i++) {
+        const char = path[i];
+        if (char === "'") quoted = !quoted;
+        else if (!quoted && char === '(') depth++;
+        else if (!quoted && char === ')') depth--;
+        else if (!quoted && depth === 0 && char === '/') {
+            segments.push(path.slice(start, i));
+            start = i + 1;
+        }
+    }
+    segments.push(path.slice(start));
+    return segments;
+}
+
+/**
+ * Resolves a path relative to the service root, such as `SalesOrderHeadersV2('usmf','SO-1')/SalesOrderLines`,
+ * `$1/SalesOrderLines` or `DataManagementDefinitionGroups/Microsoft.Dynamics.DataEntities.InitializeDataManagement`,
+ * against $metadata. The path is percent-decoded first, and names are matched case-insensitively to their
+ * declared spelling, so `%53ystemusers` resolves to `SystemUsers`.
+ * @param references The entity sets addressed by earlier operations of a batch, by Content-ID.
+ * @throws If any segment is not an entity set, navigation property, property or operation declared in $metadata.
+ */
+export async function resolveResourcePath(
+    entityManager: EntityManager,
+    url: string,
+    references: Map<string, ResolvedPath> = new Map()
+): Promise<ResolvedPath> {
+    let path: string;
+    try {
+        path = decodeURIComponent(url.split('?')[0]).replace(/^\/+/, '');
+    } catch {
+        throw new Error(`'${url}' is not a valid URL path.`);
+    }
+    const unknown = (segment: string) => new Error(`'${segment}' in '${url}' is not declared in $metadata.`);
+
+    const [first, ...rest] = splitSegments(path);
+    const firstName = first.split('(')[0];
+    let resolved: ResolvedPath;
+
+    if (firstName.startsWith('$')) {
+        const reference = references.get(firstName.slice(1));
+        if (!reference) {
+            throw new Error(`'${firstName}' in '${url}' does not refer to an earlier operation.`);
+        }
+        resolved = { ...reference, targets: [...reference.targets] };
+    } else {
+        const entity = (await entityManager.getEntities()).find(e => e.name.toLowerCase() === firstName.toLowerCase());
+        const schema = entity ? await entityManager.getEntitySchema(entity.name) : null;
+        if (entity && schema) {
+            resolved = { entitySet: entity.name, schema, addressesRecords: true, targets: [entity.name] };
+        } else {
+            const operation = (await entityManager.getOperations()).find(o => !o.isBound && [o.name, o.qualifiedName].some(n => n.toLowerCase() === firstName.toLowerCase()));
+            if (!operation || rest.length > 0) {
+                throw unknown(firstName);
+            }
+            return { entitySet: null, schema: null, addressesRecords: false, targets: [operation.name] };
+        }
+    }
+
+    for (const [index, segment] of rest.entries()) {
+        const name = segment.split('(')[0];
+        const isLast = index === rest.length - 1;
+        if (SYSTEM_SEGMENTS.includes(name.toLowerCase())) {
+            resolved.addressesRecords = false;
+            continue;
+        }
+        if (!resolved.addressesRecords || !resolved.schema) {
+            throw unknown(name);
+        }
+
+        const navigation = resolved.schema.navigationProperties.find(n => n.name.toLowerCase() === name.toLowerCase());
+        if (navigation) {
+            const entitySet = await entityManager.getEntitySetForType(navigation.targetType);
+            const schema = entitySet ? await entityManager.getEntitySchema(entitySet) : null;
+            if (!entitySet || !schema) {
+                throw unknown(name);
+            }
+            resolved = { entitySet, schema, addressesRecords: true, targets: [...resolved.targets, entitySet] };
+            continue;
+        }
+
+        const operation = resolved.schema.operations.find(o => [o.name, o.qualifiedName].some(n => n.toLowerCase() === name.toLowerCase()));
+        if (operation && isLast) {
+            return { ...resolved, addressesRecords: false, targets: [...resolved.targets, operation.name] };
+        }
+
+        // A single property, optionally followed by $value.
+        if (resolved.schema.fields.some(f => f.name.toLowerCase() === name.toLowerCase())) {
+            resolved.addressesRecords = false;
+            continue;
+        }
+        throw unknown(name);
+    }
+    return resolved;
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from '@jest/globals';
+import { EntitySchema } from './entityManager.js';
+import { formatRows, selectDefaultFields } from './resultFormat.js';
+
+const field = (name: string, type = 'Edm.String', isKey = false) => ({ name, type, isKey });
+
+const customers = {
+    name: 'CustomerV3',
+    fields: [
+        field('dataAreaId', 'Edm.String', true),
+        field('CustomerAccount', 'Edm.String', true),
+        field('OrganizationName'),
+        field('AddressCity'),
+        field('CustomerGroupId'),
+        field('CreditLimit', 'Edm.Decimal'),
+        field('OnHoldStatus', 'Microsoft.Dynamics.DataEntities.CustVendorBlocked'),
+        field('SalesCurrencyCode'),
+        field('PaymentTerms'),
+        field('InvoiceAccount'),
+        field('DeliveryMode'),
+        field('LanguageId'),
+        field('CreatedDate', 'Edm.DateTimeOffset'),
+    ],
+    navigationProperties: [],
+    operations: [],
+} as unknown as EntitySchema;
+
+const rows = [
+    { '@odata.etag': 'W/"1"', CustomerAccount: 'C1', OrganizationName: 'Contoso, Ltd.', CreditLimit: 1000 },
+    { '@odata.etag': 'W/"2"', CustomerAccount: 'C2', OrganizationName: 'Fabrikam | "Retail"', CreditLimit: 2500 },
+    { '@odata.etag': 'W/"3"', CustomerAccount: 'C3', OrganizationName: 'Contoso, Ltd.', CreditLimit: null },
+];
+
+describe('selectDefaultFields', () => {
+    it('picks the keys and descriptive fields of a large entity', () => {
+        expect(selectDefaultFields(customers)).toEqual(['dataAreaId', 'CustomerAccount', 'OrganizationName', 'OnHoldStatus', 'CreatedDate']);
+        expect(selectDefaultFields(customers, 3)).toEqual(['dataAreaId', 'CustomerAccount', 'OrganizationName']);
+    });
+
+    it('returns every field of a small entity', () => {
+        expect(selectDefaultFields({ ...customers, fields: customers.fields.slice(0, 4) })).toBeNull();
+    });
+});
+
+describe('formatRows', () => {
+    it('drops OData annotations from compact JSON', () => {
+        const { text, rowsShown } = formatRows(rows, 'compact');
+        expect(rowsShown).toBe(3);
+        expect(JSON.parse(text)).toEqual(rows.map(({ '@odata.etag': _etag, ...row }) => row));
+    });
+
+    it('escapes pipes in markdown tables and quotes CSV cells', () => {
+        expect(formatRows(rows, 'markdown').text).toBe([
+            '| CustomerAccount | OrganizationName | CreditLimit |',
+            '|---|---|---|',
+            '| C1 | Contoso, Ltd. | 1000 |',
+            '| C2 | Fabrikam \\| "Retail" | 2500 |',
+            '| C3 | Contoso, Ltd. |  |',
+        ].join('\n'));
+        expect(formatRows(rows, 'csv').text).toBe([
+            'CustomerAccount,OrganizationName,CreditLimit',
+            'C1,"Contoso, Ltd.",1000',
+            'C2,"Fabrikam | ""Retail""",2500',
+            'C3,"Contoso, Ltd.",',
+        ].join('\n'));
+    });
+
+    it('cuts the result at a whole row once the character budget is spent', () => {
+        const csv = formatRows(rows, 'csv', undefined, 110);
+        expect(csv.rowsShown).toBe(2);
+        expect(csv.text.split('\n')).toHaveLength(3);
+
+        const compact = formatRows(rows, 'compact', undefined, 200);
+        expect(compact.rowsShown).toBe(2);
+        expect(JSON.parse(compact.text)).toHaveLength(2);
+    });
+
+    it('summarizes fill counts, ranges and common values', () => {
+        const { text } = formatRows(rows, 'summary', customers);
+        expect(text).toContain('**Rows:** 3');
+        expect(text).toContain('| OrganizationName | 3 | 2 |  |  | Contoso, Ltd. (2), Fabrikam \\| "Retail" (1) |');
+        expect(text).toContain('| CreditLimit | 2 | 2 | 1000 | 2500 |  |');
+    });
+
+    it('keeps the service response as is in json format', () => {
+        const json = formatRows(rows, 'json');
+        expect(json.text).toBe(JSON.stringify({ value: rows }, null, 2));
+        expect(json.rowsShown).toBe(3);
+        expect(formatRows([], 'json').text).toBe(JSON.stringify({ value: [] }, null, 2));
+    });
+
+    it('cuts json at a whole row and keeps it valid', () => {
+        const full = formatRows(rows, 'json').text;
+        const cut = formatRows(rows, 'json', undefined, full.length - 1);
+        expect(cut.rowsShown).toBe(2);
+        expect(JSON.parse(cut.text)).toEqual({ value: rows.slice(0, 2) });
+
+        const none = formatRows(rows, 'json', undefined, 30);
+        expect(none.rowsShown).toBe(0);
+        expect(JSON.parse(none.text)).toEqual({ value: [] });
+    });
+});
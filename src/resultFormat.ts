@@ -0,0 +1,151 @@
+// src/resultFormat.ts
+
+import { EntitySchema } from './entityManager.js';
+import { NUMERIC_TYPES } from './odata.js';
+
+export const OUTPUT_FORMATS = ['json', 'compact', 'markdown', 'csv', 'summary'] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+// Entities with at most this many fields are returned whole when no $select is given.
+export const MAX_DEFAULT_FIELDS = 12;
+// Formatted results are cut at a row boundary once they grow past this many characters.
+export const MAX_RESULT_CHARS = 25_000;
+const MAX_CELL_CHARS = 80;
+const SUMMARY_TOP_VALUES = 3;
+
+// Fields that usually identify or describe a record, e.g. OrganizationName, SalesOrderStatus, InvoiceDate.
+const DESCRIPTIVE_FIELD = /(Name|Description|Title|Status|Type|Group|Date|DateTime|Amount)$/;
+
+/**
+ * Picks the columns returned when the caller gives no $select: the key fields, then descriptive
+ * fields in schema order, up to MAX_DEFAULT_FIELDS. Keys are always included.
+ * @returns The field names, or null when the entity is small enough to return every field.
+ */
+export function selectDefaultFields(schema: EntitySchema, max: number = MAX_DEFAULT_FIELDS): string[] | null {
+    if (schema.fields.length <= max) {
+        return null;
+    }
+    const keys = schema.fields.filter(f => f.isKey).map(f => f.name);
+    const descriptive = schema.fields.filter(f => !f.isKey && DESCRIPTIVE_FIELD.test(f.name)).map(f => f.name);
+    return [...keys, ...descriptive.slice(0, Math.max(0, max - keys.length))];
+}
+
+/**
+ * Drops OData annotations such as `@odata.etag` from a row.
+ */
+function stripAnnotations(row: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(row).filter(([name]) => !name.includes('@')));
+}
+
+function getColumns(rows: Record<string, unknown>[]): string[] {
+    return [...new Set(rows.flatMap(row => Object.keys(row)))];
+}
+
+function toText(value: unknown): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function markdownCell(value: unknown): string {
+    const text = toText(value).replace(/\r?\n/g, ' ').replace(/\|/g, '\\|');
+    return text.length > MAX_CELL_CHARS ? `${text.slice(0, MAX_CELL_CHARS - 1)}…` : text;
+}
+
+function csvCell(value: unknown): string {
+    const text = toText(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Joins a header and row lines until the character budget is spent. The header is always kept.
+ */
+function fitLines(header: string[], lines: string[], maxChars: number): { text: string; rowsShown: number } {
+    let length = header.reduce((total, line) => total + line.length + 1, 0);
+    let rowsShown = 0;
+    while (rowsShown < lines.length && length + lines[rowsShown].length + 1 <= maxChars) {
+        length += lines[rowsShown].length + 1;
+        rowsShown++;
+    }
+    return { text: [...header, ...lines.slice(0, rowsShown)].join('\n'), rowsShown };
+}
+
+function summarize(rows: Record<string, unknown>[], schema?: EntitySchema): string {
+    const columns = getColumns(rows);
+    let output = `**Rows:** ${rows.length}\n\n`;
+    if (columns.length === 0) {
+        return output;
+    }
+
+    output += '| Field | Filled | Distinct | Min | Max | Most Common |\n';
+    output += '|-------|--------|----------|-----|-----|-------------|\n';
+    for (const column of columns) {
+        const values = rows.map(row => row[column]).filter(value => value !== null && value !== undefined && value !== '');
+        const counts = new Map<string, number>();
+        for (const value of values) {
+            const key = toText(value);
+            counts.set(key, (counts.get(key) ?? 0) + 1);
+        }
+
+        // Numbers and ISO dates order correctly; other text has no meaningful range.
+        const type = schema?.fields.find(f => f.name === column)?.type;
+        const ranged = type ? NUMERIC_TYPES.includes(type) || type.startsWith('Edm.Date') : values.every(value => typeof value === 'number');
+        const sorted = ranged ? [...values].sort((a, b) => (typeof a === 'number' && typeof b === 'number' ? a - b : toText(a).localeCompare(toText(b)))) : [];
+        const common = [...counts].sort((a, b) => b[1] - a[1]).slice(0, SUMMARY_TOP_VALUES).map(([value, count]) => `${value} (${count})`);
+
+        output += `| ${column} | ${values.length} | ${counts.size} | ${markdownCell(sorted[0])} | ${markdownCell(sorted[sorted.length - 1])} | ${ranged ? '' : markdownCell(common.join(', '))} |\n`;
+    }
+    return output;
+}
+
+export interface FormattedRows {
+    text: string;
+    // How many rows made it into the text. Less than the row count when the budget cut the result short.
+    rowsShown: number;
+}
+
+/**
+ * Renders query rows in the requested format, without OData annotations.
+ * - compact: one-line JSON
+ * - markdown: a table with long cells shortened
+ * - csv: RFC 4180 with a header row
+ * - summary: per-field fill counts, ranges and most common values instead of the rows
+ * - json: the rows as indented JSON in a `value` array, as returned by the service, annotations included
+ * Every format except summary stops at a whole row once `maxChars` is reached.
+ */
+export function formatRows(rows: Record<string, unknown>[], format: OutputFormat, schema?: EntitySchema, maxChars: number = MAX_RESULT_CHARS): FormattedRows {
+    if (format === 'json') {
+        if (rows.length === 0) {
+            return { text: JSON.stringify({ value: rows }, null, 2), rowsShown: 0 };
+        }
+        // Built row by row so the text matches JSON.stringify({ value: rows }, null, 2) when nothing is cut.
+        const footer = '\n  ]\n}';
+        const items = rows.map((row, index) => `${JSON.stringify(row, null, 2).replace(/^/gm, '    ')}${index < rows.length - 1 ? ',' : ''}`);
+        const fitted = fitLines(['{', '  "value": ['], items, maxChars - footer.length);
+        return { text: `${fitted.text.replace(/,$/, '')}${footer}`, rowsShown: fitted.rowsShown };
+    }
+
+    const cleanRows = rows.map(stripAnnotations);
+    const columns = getColumns(cleanRows);
+    switch (format) {
+        case 'summary':
+            return { text: summarize(cleanRows, schema), rowsShown: rows.length };
+        case 'compact': {
+            const fitted = fitLines(['['], cleanRows.map((row, index) => `${JSON.stringify(row)}${index < cleanRows.length - 1 ? ',' : ''}`), maxChars - 1);
+            // The last row shown loses its trailing comma when later rows were cut.
+            const text = fitted.text.replace(/,$/, '');
+            return { text: `${text}\n]`, rowsShown: fitted.rowsShown };
+        }
+        case 'markdown': {
+            if (columns.length === 0) {
+                return { text: '_No rows._', rowsShown: 0 };
+            }
+            const header = [`| ${columns.join(' | ')} |`, `|${columns.map(() => '---').join('|')}|`];
+            return fitLines(header, cleanRows.map(row => `| ${columns.map(column => markdownCell(row[column])).join(' | ')} |`), maxChars);
+        }
+        case 'csv':
+            return fitLines([columns.map(csvCell).join(',')], cleanRows.map(row => columns.map(column => csvCell(row[column])).join(',')), maxChars);
+    }
+}
@@ -0,0 +1,100 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { computeRetryDelay, ConcurrencyLimiter, fetchWithRetry, parseRetryAfter, RetryPolicy } from './retry.js';
+
+global.fetch = jest.fn() as unknown as typeof fetch;
+const mockFetch = global.fetch as unknown as jest.Mock<(...args: unknown[]) => Promise<Response>>;
+
+const policy: RetryPolicy = { maxRetries: 3, baseDelayMs: 100, maxDelayMs: 1000 };
+const limiter = new ConcurrencyLimiter(2);
+
+function respond(status: number, headers: Record<string, string> = {}): Response {
+    return new Response(status === 204 ? null : 'body', { status, headers });
+}
+
+describe('retry policy', () => {
+    let sleeps: number[];
+    const sleep = async (ms: number) => { sleeps.push(ms); };
+
+    beforeEach(() => {
+        mockFetch.mockReset();
+        sleeps = [];
+    });
+
+    it('parses Retry-After as seconds or as an HTTP date', () => {
+        expect(parseRetryAfter('7')).toBe(7000);
+        expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:10 GMT', Date.parse('Wed, 21 Oct 2026 07:28:00 GMT'))).toBe(10_000);
+        expect(parseRetryAfter(null)).toBeNull();
+        expect(parseRetryAfter('soon')).toBeNull();
+    });
+
+    it('backs off exponentially with jitter, capped at maxDelayMs', () => {
+        expect(computeRetryDelay(1, policy, null, () => 1)).toBe(100);
+        expect(computeRetryDelay(3, policy, null, () => 1)).toBe(400);
+        expect(computeRetryDelay(10, policy, null, () => 1)).toBe(1000);
+        expect(computeRetryDelay(3, policy, null, () => 0.5)).toBe(200);
+        expect(computeRetryDelay(3, policy, 500)).toBe(500);
+    });
+
+    it('caps Retry-After at maxDelayMs', () => {
+        expect(computeRetryDelay(1, policy, 5000)).toBe(1000);
+        const farFuture = parseRetryAfter('Fri, 01 Jan 2100 00:00:00 GMT', Date.parse('Wed, 21 Oct 2026 07:28:00 GMT'));
+        expect(computeRetryDelay(1, policy, farFuture)).toBe(1000);
+    });
+
+    it('retries a throttled GET and waits for Retry-After', async () => {
+        mockFetch
+            .mockResolvedValueOnce(respond(429, { 'Retry-After': '2' }))
+            .mockResolvedValueOnce(respond(200));
+
+        const response = await fetchWithRetry('https://test/data/X', async () => ({ method: 'GET' }), { policy: { ...policy, maxDelayMs: 5000 }, limiter, sleep });
+
+        expect(response.status).toBe(200);
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+        expect(sleeps).toEqual([2000]);
+    });
+
+    it('does not retry a POST without an idempotency key', async () => {
+        mockFetch.mockResolvedValue(respond(503));
+
+        const response = await fetchWithRetry('https://test/data/X', async () => ({ method: 'POST' }), { policy, limiter, sleep });
+
+        expect(response.status).toBe(503);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries a POST with an idempotency key and sends the key', async () => {
+        mockFetch
+            .mockResolvedValueOnce(respond(503))
+            .mockResolvedValueOnce(respond(201));
+
+        const response = await fetchWithRetry('https://test/data/X', async () => ({ method: 'POST', headers: {} }), { policy, limiter, sleep, idempotencyKey: 'key-1' });
+
+        expect(response.status).toBe(201);
+        const init = mockFetch.mock.calls[1][1] as RequestInit;
+        expect((init.headers as Record<string, string>)['Idempotency-Key']).toBe('key-1');
+    });
+
+    it('returns the last response once retries are exhausted', async () => {
+        mockFetch.mockResolvedValue(respond(429));
+
+        const response = await fetchWithRetry('https://test/data/X', async () => ({ method: 'GET' }), { policy, limiter, sleep });
+
+        expect(response.status).toBe(429);
+        expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+
+    it('never runs more requests at once than the limit allows', async () => {
+        const single = new ConcurrencyLimiter(1);
+        let active = 0;
+        let peak = 0;
+        const task = async () => {
+            active++;
+            peak = Math.max(peak, active);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            active--;
+        };
+
+        await Promise.all([single.run(task), single.run(task), single.run(task)]);
+        expect(peak).toBe(1);
+    });
+});
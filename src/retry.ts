@@ -0,0 +1,175 @@
+// src/retry.ts
+
+// Service protection limits answer with 429; the gateway answers with 502-504 while the AOS is busy or recycling.
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE'];
+
+const DEFAULT_MAX_RETRIES = 4;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 30_000;
+const DEFAULT_MAX_CONCURRENCY = 8;
+
+export interface RetryPolicy {
+    maxRetries: number;
+    baseDelayMs: number;
+    // Upper bound for every wait, including a longer Retry-After from the service.
+    maxDelayMs: number;
+}
+
+function readNumber(value: string | undefined, fallback: number): number {
+    const parsed = parseInt(value || '', 10);
+    return isNaN(parsed) || parsed < 0 ? fallback : parsed;
+}
+
+/**
+ * Reads the retry policy from the environment. Read on every call so values loaded by dotenv
+ * after module initialization are picked up.
+ */
+export function getRetryPolicy(): RetryPolicy {
+    return {
+        maxRetries: readNumber(process.env.API_MAX_RETRIES, DEFAULT_MAX_RETRIES),
+        baseDelayMs: readNumber(process.env.API_RETRY_BASE_DELAY_MS, DEFAULT_BASE_DELAY_MS),
+        maxDelayMs: readNumber(process.env.API_RETRY_MAX_DELAY_MS, DEFAULT_MAX_DELAY_MS),
+    };
+}
+
+/**
+ * Parses a Retry-After header, which is either a number of seconds or an HTTP date.
+ * @returns The delay in milliseconds, or null if the header is missing or unreadable.
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | null {
+    if (!header) {
+        return null;
+    }
+    const seconds = Number(header.trim());
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(header);
+    return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Computes how long to wait before the given retry: the service's Retry-After when it sent one,
+ * otherwise exponential backoff with full jitter. Both are capped at maxDelayMs, so a huge Retry-After
+ * or a far-future date cannot hold a tool call indefinitely.
+ * @param attempt The 1-based retry number.
+ */
+export function computeRetryDelay(attempt: number, policy: RetryPolicy, retryAfterMs: number | null, random: () => number = Math.random): number {
+    if (retryAfterMs !== null) {
+        return Math.min(policy.maxDelayMs, retryAfterMs);
+    }
+    const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(random() * ceiling);
+}
+
+/**
+ * Limits how many requests are in flight at once. A single instance is shared by every
+ * session so that parallel agents cannot push the tenant into throttling together.
+ */
+export class ConcurrencyLimiter {
+    private active = 0;
+    private waiting: (() => void)[] = [];
+
+    constructor(private readonly limit: number) {}
+
+    /**
+     * Runs the task once a slot is free and releases the slot when it settles.
+     */
+    public async run<T>(task: () => Promise<T>): Promise<T> {
+        await this.acquire();
+        try {
+            return await task();
+        } finally {
+            this.release();
+        }
+    }
+
+    private acquire(): Promise<void> {
+        if (this.active < this.limit) {
+            this.active++;
+            return Promise.resolve();
+        }
+        return new Promise(resolve => this.waiting.push(resolve));
+    }
+
+    private release(): void {
+        const next = this.waiting.shift();
+        if (next) {
+            // The slot passes straight to the next waiter.
+            next();
+        } else {
+            this.active--;
+        }
+    }
+}
+
+let sharedLimiter: ConcurrencyLimiter | null = null;
+
+/**
+ * Returns the process-wide limiter, created on first use with API_MAX_CONCURRENCY slots.
+ */
+export function getSharedLimiter(): ConcurrencyLimiter {
+    if (!sharedLimiter) {
+        sharedLimiter = new ConcurrencyLimiter(readNumber(process.env.API_MAX_CONCURRENCY, DEFAULT_MAX_CONCURRENCY) || DEFAULT_MAX_CONCURRENCY);
+    }
+    return sharedLimiter;
+}
+
+export interface RetryOptions {
+    // Non-idempotent requests (POST, PATCH) are only retried when the caller supplied an idempotency key.
+    idempotencyKey?: string;
+    policy?: RetryPolicy;
+    limiter?: ConcurrencyLimiter;
+    // Called before waiting for a retry, e.g. to report progress.
+    onRetry?: (attempt: number, delayMs: number, reason: string) => void | Promise<void>;
+    sleep?: (ms: number) => Promise<void>;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Sends a request through the shared concurrency limiter, retrying throttled and transiently
+ * failed requests. Each attempt builds its own RequestInit so that a fresh token can be used.
+ * @param url The request URL.
+ * @param buildInit Produces the request for an attempt.
+ * @returns The final response, which may still be an error response once retries are exhausted.
+ * @throws The network error of the last attempt, if the request never got a response.
+ */
+export async function fetchWithRetry(url: string, buildInit: () => Promise<RequestInit>, options: RetryOptions = {}): Promise<Response> {
+    const policy = options.policy ?? getRetryPolicy();
+    const limiter = options.limiter ?? getSharedLimiter();
+    const sleep = options.sleep ?? defaultSleep;
+
+    for (let attempt = 0; ; attempt++) {
+        const init = await buildInit();
+        const method = (init.method || 'GET').toUpperCase();
+        const retryable = IDEMPOTENT_METHODS.includes(method) || !!options.idempotencyKey;
+        if (options.idempotencyKey) {
+            init.headers = { ...(init.headers as Record<string, string>), 'Idempotency-Key': options.idempotencyKey };
+        }
+
+        let response: Response;
+        try {
+            response = await limiter.run(() => fetch(url, init));
+        } catch (error) {
+            if (!retryable || attempt >= policy.maxRetries) {
+                throw error;
+            }
+            const delay = computeRetryDelay(attempt + 1, policy, null);
+            await options.onRetry?.(attempt + 1, delay, (error as Error).message);
+            await sleep(delay);
+            continue;
+        }
+
+        if (!RETRYABLE_STATUSES.includes(response.status) || !retryable || attempt >= policy.maxRetries) {
+            return response;
+        }
+
+        // Drain the body so the connection can be reused.
+        await response.text().catch(() => undefined);
+        const delay = computeRetryDelay(attempt + 1, policy, parseRetryAfter(response.headers.get('Retry-After')));
+        await options.onRetry?.(attempt + 1, delay, `status ${response.status}`);
+        await sleep(delay);
+    }
+}
@@ -0,0 +1,84 @@
+import { jest, describe, it, expect, beforeEach } from '@jest/globals';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { readSessionLimits, SessionStore } from './sessions.js';
+
+const MINUTE = 60 * 1000;
+
+describe('readSessionLimits', () => {
+    it('defaults to a 30 minute idle timeout and 100 sessions', () => {
+        expect(readSessionLimits({})).toEqual({ idleTimeoutMs: 30 * MINUTE, maxSessions: 100 });
+    });
+
+    it('reads the limits from the environment and ignores invalid values', () => {
+        expect(readSessionLimits({ SESSION_IDLE_TIMEOUT_MINUTES: '5', MAX_SESSIONS: '10' })).toEqual({ idleTimeoutMs: 5 * MINUTE, maxSessions: 10 });
+        expect(readSessionLimits({ SESSION_IDLE_TIMEOUT_MINUTES: '0', MAX_SESSIONS: 'many' })).toEqual({ idleTimeoutMs: 30 * MINUTE, maxSessions: 100 });
+    });
+});
+
+describe('SessionStore', () => {
+    let now: number;
+    let store: SessionStore;
+
+    // The store only needs to close the server; the transport is handed back to the caller untouched.
+    function createSession() {
+        const server = { close: jest.fn(async () => {}) };
+        return { server: server as unknown as McpServer, transport: {} as StreamableHTTPServerTransport, close: server.close };
+    }
+
+    beforeEach(() => {
+        now = 0;
+        store = new SessionStore({ idleTimeoutMs: 10 * MINUTE, maxSessions: 2 }, () => now);
+    });
+
+    it('closes sessions that were idle for longer than the timeout', async () => {
+        const idle = createSession();
+        const active = createSession();
+        store.add('idle', idle);
+        store.add('active', active);
+
+        now = 8 * MINUTE;
+        store.get('active');
+        now = 12 * MINUTE;
+
+        await expect(store.sweep()).resolves.toBe(1);
+        expect(idle.close).toHaveBeenCalled();
+        expect(active.close).not.toHaveBeenCalled();
+        expect(store.get('idle')).toBeUndefined();
+        expect(store.size).toBe(1);
+    });
+
+    it('reports when the session cap is reached', () => {
+        store.add('a', createSession());
+        expect(store.isFull).toBe(false);
+        store.add('b', createSession());
+        expect(store.isFull).toBe(true);
+    });
+
+    it('closes a session only once when removal re-enters through onclose', async () => {
+        const session = createSession();
+        session.close.mockImplementation(async () => {
+            await store.remove('a');
+        });
+        store.add('a', session);
+
+        await store.remove('a');
+        await store.remove('a');
+
+        expect(session.close).toHaveBeenCalledTimes(1);
+        expect(store.size).toBe(0);
+    });
+
+    it('closes every session on shutdown', async () => {
+        const first = createSession();
+        const second = createSession();
+        store.add('a', first);
+        store.add('b', second);
+
+        await store.closeAll();
+
+        expect(first.close).toHaveBeenCalled();
+        expect(second.close).toHaveBeenCalled();
+        expect(store.size).toBe(0);
+    });
+});
@@ -0,0 +1,133 @@
+// src/sessions.ts
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { UserContext } from './auth.js';
+import { Caller } from './inboundAuth.js';
+import { logger } from './logger.js';
+
+const DEFAULT_IDLE_TIMEOUT_MINUTES = 30;
+const DEFAULT_MAX_SESSIONS = 100;
+
+export interface SessionLimits {
+    // Sessions without a request for this long are closed.
+    idleTimeoutMs: number;
+    // New sessions are refused while this many are open.
+    maxSessions: number;
+}
+
+function readPositiveNumber(value: string | undefined, fallback: number): number {
+    const parsed = parseInt(value || '', 10);
+    return isNaN(parsed) || parsed <= 0 ? fallback : parsed;
+}
+
+/**
+ * Reads the session limits from SESSION_IDLE_TIMEOUT_MINUTES and MAX_SESSIONS.
+ */
+export function readSessionLimits(env: NodeJS.ProcessEnv = process.env): SessionLimits {
+    return {
+        idleTimeoutMs: readPositiveNumber(env.SESSION_IDLE_TIMEOUT_MINUTES, DEFAULT_IDLE_TIMEOUT_MINUTES) * 60 * 1000,
+        maxSessions: readPositiveNumber(env.MAX_SESSIONS, DEFAULT_MAX_SESSIONS),
+    };
+}
+
+/**
+ * One MCP session: its transport, the server instance created for it, and who started it.
+ */
+export interface Session {
+    transport: StreamableHTTPServerTransport;
+    server: McpServer;
+    // The user tools run for in on-behalf-of mode.
+    user?: UserContext;
+    // The authenticated client that started the session.
+    caller?: Caller;
+    lastActivity: number;
+}
+
+/**
+ * Keeps track of the open MCP sessions and closes them when the client ends them, when they
+ * sit idle for too long, or when the server shuts down.
+ */
+export class SessionStore {
+    private sessions = new Map<string, Session>();
+
+    constructor(
+        public readonly limits: SessionLimits = readSessionLimits(),
+        private readonly now: () => number = Date.now,
+    ) {}
+
+    public get size(): number {
+        return this.sessions.size;
+    }
+
+    /**
+     * Whether the session cap is reached. Idle sessions should be swept first, so they do not block new ones.
+     */
+    public get isFull(): boolean {
+        return this.sessions.size >= this.limits.maxSessions;
+    }
+
+    public add(sessionId: string, session: Omit<Session, 'lastActivity'>): void {
+        this.sessions.set(sessionId, { ...session, lastActivity: this.now() });
+    }
+
+    /**
+     * Looks up a session and marks it as active.
+     */
+    public get(sessionId: string): Session | undefined {
+        const session = this.sessions.get(sessionId);
+        if (session) {
+            session.lastActivity = this.now();
+        }
+        return session;
+    }
+
+    /**
+     * Forgets a session and closes its server and transport. Safe to call from the transport's
+     * onclose handler: the session is removed before it is closed, so the second call does nothing.
+     */
+    public async remove(sessionId: string): Promise<void> {
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+            return;
+        }
+        this.sessions.delete(sessionId);
+        try {
+            await session.server.close();
+        } catch (error) {
+            logger.warn(`Failed to close session ${sessionId}:`, error);
+        }
+    }
+
+    /**
+     * Closes every session that has been idle for longer than the idle timeout.
+     * @returns The number of sessions closed.
+     */
+    public async sweep(): Promise<number> {
+        const cutoff = this.now() - this.limits.idleTimeoutMs;
+        const expired = [...this.sessions].filter(([, session]) => session.lastActivity <= cutoff).map(([id]) => id);
+        await Promise.all(expired.map(id => this.remove(id)));
+        return expired.length;
+    }
+
+    /**
+     * Sweeps idle sessions periodically. The timer does not keep the process alive.
+     */
+    public startSweeper(intervalMs: number = Math.min(this.limits.idleTimeoutMs, 60 * 1000)): NodeJS.Timeout {
+        const timer = setInterval(() => {
+            this.sweep()
+                .then(count => {
+                    if (count > 0) {
+                        logger.info(`Closed ${count} idle session(s); ${this.sessions.size} still open.`);
+                    }
+                })
+                .catch(error => logger.error('Failed to sweep idle sessions:', error));
+        }, intervalMs);
+        timer.unref();
+        return timer;
+    }
+
+    public async closeAll(): Promise<void> {
+        await Promise.all([...this.sessions.keys()].map(id => this.remove(id)));
+    }
+}
@@ -0,0 +1,37 @@
+// src/stdio.ts
+
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { getServer } from './mcp-server.js';
+import { ConfirmationStore } from './confirmations.js';
+import { EnvironmentRegistry } from './environments.js';
+import { loadToolManifest } from './toolManifest.js';
+import { logger } from './logger.js';
+
+export interface StdioOptions {
+    // The environment tool calls target when they do not name one.
+    environment?: string;
+}
+
+/**
+ * Serves a single MCP session over stdin and stdout, for desktop clients that launch the server
+ * as a child process. The client is whoever started the process, so inbound authentication does
+ * not apply and every tool is available. stdout carries only JSON-RPC messages; logs go to stderr.
+ * @throws If the tool manifest does not match the metadata of the session's environment.
+ */
+export async function startStdioServer(options: StdioOptions = {}): Promise<void> {
+    if (process.env.AUTH_ON_BEHALF_OF === 'true') {
+        logger.warn('AUTH_ON_BEHALF_OF is ignored in stdio mode: there is no caller token, so tools run as the app registration.');
+    }
+
+    const environments = new EnvironmentRegistry();
+    const declaredTools = await loadToolManifest(environments.get(options.environment));
+    const server = getServer({ confirmations: new ConfirmationStore(), environments, environment: options.environment, declaredTools });
+    const transport = new StdioServerTransport();
+    // The client ends the session by closing stdin.
+    process.stdin.once('end', () => {
+        void server.close().finally(() => process.exit(0));
+    });
+
+    await server.connect(transport);
+    logger.info('Dynamics 365 F&O MCP Server running on stdio.');
+}
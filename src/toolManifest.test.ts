@@ -0,0 +1,97 @@
+import { describe, it, expect } from '@jest/globals';
+import { EntitySchema } from './entityManager.js';
+import { getDeclaredToolAccess, parseToolManifest, validateToolDefinitions } from './toolManifest.js';
+
+const vendorGroups: EntitySchema = {
+    name: 'VendorGroup',
+    fields: [
+        { name: 'dataAreaId', type: 'Edm.String', isKey: true },
+        { name: 'VendorGroupId', type: 'Edm.String', isKey: true },
+        { name: 'Description', type: 'Edm.String', isKey: false },
+        { name: 'PaymentTermId', type: 'Edm.String', isKey: false },
+    ],
+    navigationProperties: [],
+    operations: [],
+} as unknown as EntitySchema;
+
+const getSchema = async (entitySet: string) => (entitySet === 'VendorGroups' ? vendorGroups : null);
+
+describe('parseToolManifest', () => {
+    it('reads YAML manifests', () => {
+        const tools = parseToolManifest([
+            'tools:',
+            '  - name: getVendorGroups',
+            '    description: Lists vendor groups.',
+            '    entitySet: VendorGroups',
+            '    fields: [VendorGroupId, Description]',
+            '  - name: updateVendorGroup',
+            '    description: Updates a vendor group.',
+            '    entitySet: VendorGroups',
+            '    method: PATCH',
+            '    fields: [Description]',
+        ].join('\n'), 'tools.yaml');
+
+        expect(tools.map(t => t.name)).toEqual(['getVendorGroups', 'updateVendorGroup']);
+        expect(tools[1]).toMatchObject({ method: 'PATCH', fields: ['Description'] });
+    });
+
+    it('reads JSON manifests', () => {
+        const tools = parseToolManifest(JSON.stringify({ tools: [{ name: 'getVendorGroups', description: 'Lists vendor groups.', entitySet: 'VendorGroups' }] }), 'tools.json');
+        expect(tools).toHaveLength(1);
+    });
+
+    it('lists every structural problem in one error', () => {
+        const manifest = JSON.stringify({
+            tools: [
+                { name: 'getVendorGroups', description: 'x', entitySet: 'VendorGroups' },
+                { name: 'getVendorGroups', description: 'x', entitySet: 'VendorGroups' },
+                { name: 'deleteGroup', entitySet: 'VendorGroups', method: 'REMOVE' },
+                { name: 'writeGroup', description: 'x', entitySet: 'VendorGroups', method: 'POST', readOnly: true },
+            ],
+        });
+
+        expect(() => parseToolManifest(manifest, 'tools.json')).toThrow([
+            'Tool manifest tools.json is invalid:',
+            "- Tool 'getVendorGroups' is defined more than once.",
+            "- Tool 'deleteGroup': 'description' is required.",
+            "- Tool 'deleteGroup': unknown method 'REMOVE'. Expected one of: GET, POST, PATCH, DELETE.",
+            "- Tool 'writeGroup': a read-only tool must use GET, not POST.",
+        ].join('\n'));
+        expect(() => parseToolManifest('name: nothing', 'tools.yaml')).toThrow("must contain a 'tools' list.");
+    });
+});
+
+describe('validateToolDefinitions', () => {
+    it('resolves fields and defaults the keys to the entity key', async () => {
+        const { tools, errors } = await validateToolDefinitions([
+            { name: 'getVendorGroups', description: 'x', entitySet: 'VendorGroups', fields: ['Description'] },
+            { name: 'updateVendorGroup', description: 'x', entitySet: 'VendorGroups', method: 'PATCH', fields: ['PaymentTermId'] },
+        ], 'dev', getSchema);
+
+        expect(errors).toEqual([]);
+        expect(tools[0]).toMatchObject({ method: 'GET', readOnly: true });
+        expect(tools[0].keys.map(k => k.name)).toEqual(['dataAreaId', 'VendorGroupId']);
+        expect(tools[1]).toMatchObject({ method: 'PATCH', readOnly: false, environment: 'dev' });
+        expect(getDeclaredToolAccess(tools[0])).toBe('read');
+        expect(getDeclaredToolAccess(tools[1])).toBe('write');
+        expect(getDeclaredToolAccess({ ...tools[1], entitySet: 'SystemUsers' })).toBe('admin');
+    });
+
+    it('reports entities and fields that do not exist in $metadata', async () => {
+        const { tools, errors } = await validateToolDefinitions([
+            { name: 'getVendors', description: 'x', entitySet: 'Vendors' },
+            { name: 'getVendorGroups', description: 'x', entitySet: 'VendorGroups', fields: ['description', 'Colour'] },
+            { name: 'deleteVendorGroup', description: 'x', entitySet: 'VendorGroups', method: 'DELETE', keys: ['VendorGroupId'] },
+            { name: 'createVendorGroup', description: 'x', entitySet: 'VendorGroups', method: 'POST' },
+        ], 'dev', getSchema);
+
+        expect(tools).toEqual([]);
+        expect(errors).toEqual([
+            "Tool 'getVendors': entity set 'Vendors' does not exist in $metadata.",
+            "Tool 'getVendorGroups': 'VendorGroup' has no field 'description'. Did you mean 'Description'?",
+            "Tool 'getVendorGroups': 'VendorGroup' has no field 'Colour'.",
+            "Tool 'deleteVendorGroup': DELETE needs the complete key of 'VendorGroups'; missing dataAreaId.",
+            "Tool 'createVendorGroup': POST needs a 'fields' list of the fields it may write.",
+        ]);
+    });
+});
@@ -0,0 +1,203 @@
+// src/toolManifest.ts
+
+import { readFileSync } from 'node:fs';
+import { parse } from 'yaml';
+import { EntityField, EntitySchema } from './entityManager.js';
+import { Environment } from './environments.js';
+import { getKeyFields } from './odata.js';
+import { AccessLevel, getAdminToolForTarget } from './inboundAuth.js';
+
+const METHODS = ['GET', 'POST', 'PATCH', 'DELETE'] as const;
+const TOOL_NAME = /^[A-Za-z][\w-]{0,63}$/;
+
+export type DeclaredMethod = typeof METHODS[number];
+
+/**
+ * One tool as written in the manifest.
+ */
+export interface ToolDefinition {
+    name: string;
+    description: string;
+    entitySet: string;
+    // Defaults to GET.
+    method?: DeclaredMethod;
+    // Fields passed as top-level arguments: filters for GET, the record key for PATCH and DELETE,
+    // and required body fields for POST. Defaults to the entity's key fields.
+    keys?: string[];
+    // The fields a GET returns ($select), or the fields a POST or PATCH may write.
+    fields?: string[];
+    // A read-only tool may only use GET and is available to callers with read access.
+    readOnly?: boolean;
+}
+
+/**
+ * A manifest tool checked against $metadata, with its fields resolved to their types.
+ */
+export interface DeclaredTool {
+    name: string;
+    description: string;
+    entitySet: string;
+    method: DeclaredMethod;
+    keys: EntityField[];
+    fields: EntityField[];
+    readOnly: boolean;
+    // The environment whose $metadata the tool was checked against. The tool only runs there.
+    environment: string;
+}
+
+/**
+ * The access level a caller needs to see and call a manifest tool. Writes to the entity sets
+ * managed by the admin tools need 'admin'.
+ */
+export function getDeclaredToolAccess(tool: DeclaredTool): AccessLevel {
+    if (tool.readOnly) {
+        return 'read';
+    }
+    return getAdminToolForTarget(tool.entitySet) ? 'admin' : 'write';
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+/**
+ * Parses a YAML or JSON manifest (JSON is valid YAML) of the form `tools: [ ... ]` and checks its structure.
+ * @param source The file name, used in error messages.
+ * @throws One error listing every problem found.
+ */
+export function parseToolManifest(text: string, source: string): ToolDefinition[] {
+    let document: unknown;
+    try {
+        document = parse(text);
+    } catch (error) {
+        throw new Error(`Tool manifest ${source} is not valid YAML or JSON: ${(error as Error).message}`);
+    }
+
+    const entries = Array.isArray(document) ? document : (document as { tools?: unknown } | null)?.tools;
+    if (!Array.isArray(entries)) {
+        throw new Error(`Tool manifest ${source} must contain a 'tools' list.`);
+    }
+
+    const errors: string[] = [];
+    const names = new Set<string>();
+    entries.forEach((entry: Partial<ToolDefinition>, index) => {
+        const label = typeof entry?.name === 'string' ? `'${entry.name}'` : `#${index + 1}`;
+        if (typeof entry?.name !== 'string' || !TOOL_NAME.test(entry.name)) {
+            errors.push(`Tool ${label}: 'name' must start with a letter and contain at most 64 letters, digits, '_' and '-'.`);
+        } else if (names.has(entry.name)) {
+            errors.push(`Tool ${label} is defined more than once.`);
+        } else {
+            names.add(entry.name);
+        }
+        if (typeof entry?.description !== 'string' || !entry.description.trim()) {
+            errors.push(`Tool ${label}: 'description' is required.`);
+        }
+        if (typeof entry?.entitySet !== 'string' || !entry.entitySet.trim()) {
+            errors.push(`Tool ${label}: 'entitySet' is required.`);
+        }
+        if (entry?.method !== undefined && !METHODS.includes(entry.method)) {
+            errors.push(`Tool ${label}: unknown method '${entry.method}'. Expected one of: ${METHODS.join(', ')}.`);
+        }
+        if (entry?.keys !== undefined && !isStringArray(entry.keys)) {
+            errors.push(`Tool ${label}: 'keys' must be a list of field names.`);
+        }
+        if (entry?.fields !== undefined && !isStringArray(entry.fields)) {
+            errors.push(`Tool ${label}: 'fields' must be a list of field names.`);
+        }
+        if (entry?.readOnly !== undefined && typeof entry.readOnly !== 'boolean') {
+            errors.push(`Tool ${label}: 'readOnly' must be true or false.`);
+        } else if (entry?.readOnly && entry.method && entry.method !== 'GET') {
+            errors.push(`Tool ${label}: a read-only tool must use GET, not ${entry.method}.`);
+        }
+    });
+
+    if (errors.length > 0) {
+        throw new Error(`Tool manifest ${source} is invalid:\n- ${errors.join('\n- ')}`);
+    }
+    return entries as ToolDefinition[];
+}
+
+function resolveFields(schema: EntitySchema, names: string[], label: string, errors: string[]): EntityField[] {
+    const fields: EntityField[] = [];
+    for (const name of names) {
+        const field = schema.fields.find(f => f.name === name);
+        if (field) {
+            fields.push(field);
+            continue;
+        }
+        const caseInsensitive = schema.fields.find(f => f.name.toLowerCase() === name.toLowerCase());
+        errors.push(caseInsensitive
+            ? `Tool ${label}: '${schema.name}' has no field '${name}'. Did you mean '${caseInsensitive.name}'?`
+            : `Tool ${label}: '${schema.name}' has no field '${name}'.`);
+    }
+    return fields;
+}
+
+/**
+ * Checks manifest tools against the parsed $metadata: the entity sets and fields must exist, and
+ * PATCH and DELETE tools must take the entity's complete key.
+ * @param environment The name of the environment the metadata belongs to. The resolved tools are pinned to it.
+ * @param getSchema Looks up the schema of an exact entity set name.
+ * @returns The resolved tools, and one message per problem found.
+ */
+export async function validateToolDefinitions(
+    definitions: ToolDefinition[],
+    environment: string,
+    getSchema: (entitySet: string) => Promise<EntitySchema | null>
+): Promise<{ tools: DeclaredTool[]; errors: string[] }> {
+    const tools: DeclaredTool[] = [];
+    const errors: string[] = [];
+
+    for (const definition of definitions) {
+        const label = `'${definition.name}'`;
+        const schema = await getSchema(definition.entitySet);
+        if (!schema) {
+            errors.push(`Tool ${label}: entity set '${definition.entitySet}' does not exist in $metadata.`);
+            continue;
+        }
+
+        const method = definition.method ?? 'GET';
+        const errorCount = errors.length;
+        const keys = definition.keys ? resolveFields(schema, definition.keys, label, errors) : getKeyFields(schema);
+        const fields = resolveFields(schema, definition.fields ?? [], label, errors);
+
+        if (method === 'PATCH' || method === 'DELETE') {
+            const missing = getKeyFields(schema).filter(key => !keys.includes(key)).map(key => key.name);
+            if (missing.length > 0) {
+                errors.push(`Tool ${label}: ${method} needs the complete key of '${definition.entitySet}'; missing ${missing.join(', ')}.`);
+            }
+        }
+        if ((method === 'POST' || method === 'PATCH') && !definition.fields?.length) {
+            errors.push(`Tool ${label}: ${method} needs a 'fields' list of the fields it may write.`);
+        }
+
+        if (errors.length === errorCount) {
+            tools.push({ name: definition.name, description: definition.description, entitySet: definition.entitySet, method, keys, fields, readOnly: definition.readOnly ?? method === 'GET', environment });
+        }
+    }
+
+    return { tools, errors };
+}
+
+/**
+ * Reads the tool manifest named by TOOL_MANIFEST and validates it against the metadata of an environment.
+ * Called at startup, so a manifest that does not match the environment stops the server with a clear message.
+ * The tools are pinned to that environment, since other environments may not have the same entities and fields.
+ * @returns The manifest tools, or none when TOOL_MANIFEST is not set.
+ * @throws If the file cannot be read, is malformed, or names entities or fields that do not exist.
+ */
+export async function loadToolManifest(environment: Environment, path: string | undefined = process.env.TOOL_MANIFEST): Promise<DeclaredTool[]> {
+    if (!path) {
+        return [];
+    }
+
+    const definitions = parseToolManifest(readFileSync(path, 'utf8'), path);
+    if ((await environment.entityManager.getEntities()).length === 0) {
+        throw new Error(`Could not load the metadata of environment '${environment.name}' to validate the tool manifest ${path}. Check the server logs for details.`);
+    }
+    const { tools, errors } = await validateToolDefinitions(definitions, environment.name, entitySet => environment.entityManager.getEntitySchema(entitySet));
+    if (errors.length > 0) {
+        throw new Error(`Tool manifest ${path} does not match the metadata of environment '${environment.name}':\n- ${errors.join('\n- ')}`);
+    }
+    return tools;
+}